@@ -1,91 +1,90 @@
 
-import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Movie, MovieStatus } from './types';
+import React, { useState, useEffect, useMemo, useRef, useDeferredValue } from 'react';
+import { EntryDraft, Library, LibraryEntry, MovieStatus, TitleMetadata } from './types';
 import { MovieCard } from './components/MovieCard';
 import { MovieForm } from './components/MovieForm';
 import { Button } from './components/ui/Button';
 import { Stats } from './components/Stats';
-import { Plus, Search, Save, Film, Download, FileJson, FileSpreadsheet, ChevronDown, Calendar, CheckSquare, Trash2, X, Upload, ArrowUpDown, Globe, ChevronLeft, ChevronRight, Menu } from 'lucide-react';
-
-// Helper for fuzzy search (Levenshtein Distance)
-const levenshtein = (a: string, b: string): number => {
-  const matrix = Array(b.length + 1).fill(null).map(() => Array(a.length + 1).fill(null));
-
-  for (let i = 0; i <= a.length; i++) matrix[0][i] = i;
-  for (let j = 0; j <= b.length; j++) matrix[j][0] = j;
-
-  for (let j = 1; j <= b.length; j++) {
-    for (let i = 1; i <= a.length; i++) {
-      const indicator = a[i - 1] === b[j - 1] ? 0 : 1;
-      matrix[j][i] = Math.min(
-        matrix[j][i - 1] + 1, // deletion
-        matrix[j - 1][i] + 1, // insertion
-        matrix[j - 1][i - 1] + indicator // substitution
-      );
-    }
-  }
-  return matrix[b.length][a.length];
-};
-
-const fuzzyMatch = (text: string | undefined, search: string): boolean => {
-  if (!search) return true;
-  if (!text) return false;
-  
-  const cleanText = text.toLowerCase();
-  const cleanSearch = search.toLowerCase();
-
-  // 1. Exact substring match (Fast path)
-  if (cleanText.includes(cleanSearch)) return true;
-  
-  // 2. Fuzzy match allowing typos
-  // Only apply if search term is at least 2 chars long to avoid noise
-  if (cleanSearch.length < 2) return false;
-
-  // Allow 1 error for short words (<= 4 chars), 2 errors for longer words
-  const maxErrors = cleanSearch.length > 4 ? 2 : 1;
-  
-  // Check against the full text if lengths are similar (e.g. Chinese titles)
-  if (Math.abs(cleanText.length - cleanSearch.length) <= maxErrors + 1) {
-      if (levenshtein(cleanText, cleanSearch) <= maxErrors) return true;
-  }
-
-  // Check against individual words (e.g. English titles)
-  // Split by whitespace and common punctuation
-  const words = cleanText.split(/[\s\-_：:，,。]+/); 
-  
-  return words.some(word => {
-      // Optimization: length difference check
-      if (Math.abs(word.length - cleanSearch.length) > maxErrors) return false;
-      return levenshtein(cleanSearch, word) <= maxErrors;
-  });
-};
-
-const STORAGE_KEY = 'cinelog_movies_v1';
+import { UndoToast } from './components/UndoToast';
+import { ImportDialog } from './components/ImportDialog';
+import { MetadataCacheDialog } from './components/MetadataCacheDialog';
+import { EnrichmentPanel } from './components/EnrichmentPanel';
+import { RecommendationsPanel } from './components/RecommendationsPanel';
+import { FilterChips } from './components/FilterChips';
+import { SavedViewsBar } from './components/SavedViewsBar';
+import { QueryErrorHint } from './components/QueryErrorHint';
+import { useLibraryHistory } from './hooks/useLibraryHistory';
+import { useEnrichmentJob } from './hooks/useEnrichmentJob';
+import { useSearchIndex } from './hooks/useSearchIndex';
+import { loadLibrary, saveChanges, clearQuarantine, importPosters, exportDocument, getTrashRetention, setTrashRetention, getSavedViews, setSavedViews, DEFAULT_TRASH_RETENTION_DAYS } from './services/storage';
+import { migrateLibrary, QuarantinedRecord } from './services/schema';
+import { buildEntries, entryDate, expiredTrash, isTrashed, markNextEpisodeWatched, removeTitles, restoreTitles, saveEntry, trashTitles, updateLogNote, withoutTrash } from './services/library';
+import { libraryToCSV, parseLibraryCSV } from './services/csv';
+import { isImdbCSV, libraryToImdbCSV, parseImdbCSV } from './services/imdb';
+import { isLetterboxdCSV, libraryToLetterboxdCSV, parseLetterboxdCSV } from './services/letterboxd';
+import { doubanShelf, isDoubanCSV, parseDoubanCSV, parseDoubanHTML } from './services/douban';
+import { applyImportPlan, buildImportPlan, ConflictResolution, ImportPlan } from './services/importPlan';
+import { applyProposal, EnrichField, EnrichmentProposal, findIncompleteTitles } from './services/enrichment';
+import { isInLibrary, recommendationDraft } from './services/tasteProfile';
+import { FilterVocabulary, LibraryFilter, isEmptyFilter, parseNaturalQueryLocal, splitNames } from './services/smartFilter';
+import { ALL_STATUSES, BUILT_IN_VIEWS, DEFAULT_VIEW_STATE, SavedView, SortConfig, TRASH_FILTER, ViewState, countView, matchesView, parseViewsJSON, prepareSearch, sameViewState, sortEntries, viewStateKey, viewsToJSON } from './services/views';
+import { UrlState, onlySearchTermDiffers, parseUrlState, urlStateToSearch } from './services/urlState';
+import { collectionCounts, tagCounts } from './services/tags';
+import { geminiProvider, requestSearchFilter } from './services/geminiService';
+import { Plus, Search, Save, Film, Download, FileJson, FileSpreadsheet, ChevronDown, Calendar, CheckSquare, Trash2, X, Upload, ArrowUpDown, Globe, ChevronLeft, ChevronRight, Menu, AlertTriangle, Undo2, Redo2, ArchiveRestore, Database, Sparkles, Compass, Tag } from 'lucide-react';
+
+const TRASH_RETENTION_OPTIONS = [
+  { days: 7, label: '7 天' },
+  { days: 30, label: '30 天' },
+  { days: 90, label: '90 天' },
+  { days: 0, label: '永不' },
+];
 
 export default function App() {
-  const [movies, setMovies] = useState<Movie[]>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) {
-      console.error("Failed to load movies", e);
-      return [];
-    }
-  });
+  // Every change to the library goes through applyCommand so it can be undone
+  const {
+    library, history, notice, canUndo, canRedo,
+    load: loadState, apply: applyCommand, undo, redo,
+  } = useLibraryHistory();
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // Records that failed migration or validation
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  // Parsed import file waiting for the user to resolve conflicts
+  const [importPreview, setImportPreview] = useState<{ fileName: string, plan: ImportPlan } | null>(null);
+
+  // Filters, page and open record start out as the address says, for reloads and shared links
+  const [initialUrl] = useState(() => parseUrlState(window.location.search));
 
   const [isFormOpen, setIsFormOpen] = useState(false);
-  const [editingMovie, setEditingMovie] = useState<Movie | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterStatus, setFilterStatus] = useState<string>('全部');
-  const [dateFilter, setDateFilter] = useState<string>('all');
-  const [filterCountry, setFilterCountry] = useState<string>('all');
-  const [sortConfig, setSortConfig] = useState<{ field: string, direction: 'asc' | 'desc' }>({ field: 'addedAt', direction: 'desc' });
+  const [editingEntry, setEditingEntry] = useState<LibraryEntry | null>(null);
+  const [searchTerm, setSearchTerm] = useState(initialUrl.view.searchTerm);
+  // Smart mode reads the search box as a sentence and filters by what it describes
+  const [searchMode, setSearchMode] = useState<'keyword' | 'smart'>(initialUrl.view.searchMode);
+  const [smartFilter, setSmartFilter] = useState<{ filter: LibraryFilter, source: 'ai' | 'local' } | null>(
+    initialUrl.view.smartFilter ? { filter: initialUrl.view.smartFilter, source: 'local' } : null
+  );
+  const [isParsingQuery, setIsParsingQuery] = useState(false);
+  const [filterStatus, setFilterStatus] = useState<string>(initialUrl.view.filterStatus);
+  const [dateFilter, setDateFilter] = useState<string>(initialUrl.view.dateFilter);
+  const [filterCountry, setFilterCountry] = useState<string>(initialUrl.view.filterCountry);
+  const [filterTag, setFilterTag] = useState<string>(initialUrl.view.filterTag);
+  const [filterCollection, setFilterCollection] = useState<string>(initialUrl.view.filterCollection);
+  const [sortConfig, setSortConfig] = useState<SortConfig>(initialUrl.view.sort);
+  // Built-in smart list narrowing the library, if one is open
+  const [smartList, setSmartList] = useState<string | null>(initialUrl.view.smartList);
+  const [savedViews, setSavedViewsState] = useState<SavedView[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
+  const [showMetadataCache, setShowMetadataCache] = useState(false);
+  const [showEnrichment, setShowEnrichment] = useState(false);
+  const [showRecommendations, setShowRecommendations] = useState(false);
   
   // Pagination State
-  const [currentPage, setCurrentPage] = useState(1);
+  const [currentPage, setCurrentPage] = useState(initialUrl.page);
   const [itemsPerPage, setItemsPerPage] = useState(24);
 
   // Bulk Selection States
@@ -95,29 +94,104 @@ export default function App() {
   // File Input Ref for Import
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Real-time Save Effect
+  // Last snapshot known to be in IndexedDB; null until the initial load finishes
+  const persistedRef = useRef<Library | null>(null);
+  const libraryRef = useRef(library);
+  libraryRef.current = library;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  const enrichment = useEnrichmentJob(libraryRef);
+
+  // Initial Load
   useEffect(() => {
+    loadLibrary()
+      .then(async result => {
+        persistedRef.current = result.library;
+        loadState(result.library, result.history);
+        setQuarantine(result.quarantine);
+        // A link to a record opens it straight away
+        const linked = initialUrl.titleId && buildEntries(result.library).find(e => e.title.id === initialUrl.titleId);
+        if (linked) openEdit(linked);
+        setIsLoaded(true);
+
+        // Purge titles that have been in the trash longer than the retention period
+        const days = await getTrashRetention().catch(() => DEFAULT_TRASH_RETENTION_DAYS);
+        setTrashRetentionDays(days);
+        setSavedViewsState(await getSavedViews().catch(() => []));
+        const expired = expiredTrash(result.library, days);
+        if (expired.size > 0) {
+          applyCommand(`自动清理回收站中超过 ${days} 天的 ${expired.size} 部作品`, prev => removeTitles(prev, expired));
+        }
+      })
+      .catch(err => {
+        console.error("Failed to load library", err);
+        setLoadError(err instanceof Error ? err.message : String(err));
+      });
+  }, []);
+
+  const persist = async () => {
+    const prev = persistedRef.current;
+    const next = libraryRef.current;
+    if (prev === null || prev === next) return;
+
     setIsSaving(true);
-    const handler = setTimeout(() => {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(movies));
+    try {
+      await saveChanges(prev, next, historyRef.current);
+      persistedRef.current = next;
+      setSaveError(null);
+    } catch (err) {
+      console.error("Failed to save library", err);
+      const isQuota = err instanceof DOMException && err.name === 'QuotaExceededError';
+      setSaveError(isQuota ? '存储空间已满，最近的修改未能保存。' : `保存失败：${err instanceof Error ? err.message : String(err)}`);
+    } finally {
       setIsSaving(false);
-    }, 500); // Debounce save slightly to show effect
+    }
+  };
+
+  // Real-time Save Effect
+  useEffect(() => {
+    if (!isLoaded) return;
+    const handler = setTimeout(persist, 500); // Debounce save slightly to show effect
 
     return () => clearTimeout(handler);
-  }, [movies]);
+  }, [library, isLoaded]);
 
-  // Reset pagination when filters change
+  // Keyboard undo/redo. Text fields keep their own native undo.
   useEffect(() => {
-    setCurrentPage(1);
-  }, [searchTerm, filterStatus, dateFilter, filterCountry, sortConfig]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isFormOpen) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isFormOpen, undo, redo]);
+
+  // Titles joined with their watch logs. Trashed titles are kept apart so the
+  // library views, stats and form suggestions never see them.
+  const allEntries = useMemo(() => buildEntries(library), [library]);
+  const entries = useMemo(() => allEntries.filter(e => !isTrashed(e.title)), [allEntries]);
+  const trashedEntries = useMemo(() => allEntries.filter(e => isTrashed(e.title)), [allEntries]);
+  const incompleteTitles = useMemo(() => findIncompleteTitles(library), [library]);
+  const isTrashView = filterStatus === TRASH_FILTER;
 
   // Calculate available date options from data
   const dateOptions = useMemo(() => {
     const yearsSet = new Set<number>();
     const monthsSet = new Set<string>();
 
-    movies.forEach(m => {
-      const d = new Date(m.addedAt);
+    entries.forEach(e => {
+      const d = new Date(entryDate(e));
       yearsSet.add(d.getFullYear());
       const monthStr = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
       monthsSet.add(monthStr);
@@ -127,12 +201,12 @@ export default function App() {
     const sortedMonths = Array.from(monthsSet).sort((a, b) => b.localeCompare(a));
 
     return { years: sortedYears, months: sortedMonths };
-  }, [movies]);
+  }, [entries]);
 
   // Calculate available country options
   const countryOptions = useMemo(() => {
     const countries = new Set<string>();
-    movies.forEach(m => {
+    entries.forEach(({ title: m }) => {
         if (m.country) {
             // Split by common separators (comma, slash, etc.) to get individual countries
             const parts = m.country.split(/[,，/、\s]+/).map(c => c.trim());
@@ -142,34 +216,79 @@ export default function App() {
         }
     });
     return Array.from(countries).sort((a, b) => a.localeCompare(b, 'zh-CN'));
-  }, [movies]);
-
-  const handleAddMovie = (movieData: Omit<Movie, 'id' | 'lastUpdated'>) => {
-    const newMovie: Movie = {
-      ...movieData,
-      id: crypto.randomUUID(),
-      // Use provided addedAt or fallback to now
-      addedAt: movieData.addedAt || Date.now(),
-      lastUpdated: Date.now(),
+  }, [entries]);
+
+  const tagOptions = useMemo(() => tagCounts(entries.map(e => e.title)).map(t => t.name), [entries]);
+  const collectionOptions = useMemo(() => collectionCounts(entries.map(e => e.title)).map(c => c.name), [entries]);
+
+  // Names the smart search should recognise in a sentence
+  const filterVocabulary = useMemo((): FilterVocabulary => {
+    const collect = (pick: (entry: LibraryEntry) => string | undefined) =>
+      Array.from(new Set<string>(entries.flatMap(e => splitNames(pick(e)))));
+    return {
+      countries: countryOptions,
+      genres: collect(e => e.title.genre),
+      directors: collect(e => e.title.director),
     };
-    setMovies(prev => [newMovie, ...prev]); // Add to top
+  }, [entries, countryOptions]);
+
+  const handleSubmitEntry = (draft: EntryDraft) => {
+    const name = draft.title.title;
+    applyCommand(draft.titleId ? `更新 “${name}”` : `添加 “${name}”`, prev => saveEntry(prev, draft).library);
     setIsFormOpen(false);
+    setEditingEntry(null);
   };
 
-  const handleUpdateMovie = (movieData: any) => {
-    setMovies(prev => prev.map(m => m.id === movieData.id ? {
-      ...m,
-      ...movieData,
-      lastUpdated: Date.now()
-    } : m));
-    setIsFormOpen(false);
-    setEditingMovie(null);
+  // Quick "+1 集" from a card. Returns the new log's id so the card can attach a note to it.
+  const handleMarkNextEpisode = (titleId: string): string | null => {
+    const result = markNextEpisodeWatched(library, titleId);
+    if (!result) return null;
+    const name = library.titles.find(t => t.id === titleId)?.title;
+    applyCommand(`看完 “${name}” 第 ${result.log.season} 季第 ${result.log.episodeTo} 集`, () => result.library);
+    return result.log.id;
+  };
+
+  const handleSaveLogNote = (logId: string, note: string) => {
+    applyCommand('添加单集笔记', prev => updateLogNote(prev, logId, note));
   };
 
+  // Moves a title to the trash without asking (the undo toast offers a way back).
+  // From the trash itself, this deletes it for good.
   const handleDeleteMovie = (id: string) => {
-    if (window.confirm('确定要删除这条记录吗？')) {
-      // Ensure type safety by converting both to string
-      setMovies(prev => prev.filter(m => String(m.id) !== String(id)));
+    const title = library.titles.find(t => t.id === id);
+    if (!title) return;
+    if (!isTrashed(title)) {
+      applyCommand(`将 “${title.title}” 移到回收站`, prev => trashTitles(prev, new Set([id])));
+    } else if (window.confirm(`确定要永久删除 “${title.title}” 吗？所有观看记录将一并删除。`)) {
+      applyCommand(`永久删除 “${title.title}”`, prev => removeTitles(prev, new Set([id])));
+    }
+  };
+
+  const handleRestoreMovie = (id: string) => {
+    const name = library.titles.find(t => t.id === id)?.title;
+    applyCommand(`恢复 “${name}”`, prev => restoreTitles(prev, new Set([id])));
+  };
+
+  const handleTrashRetentionChange = async (days: number) => {
+    setTrashRetentionDays(days);
+    const expired = expiredTrash(library, days);
+    if (expired.size > 0) {
+      applyCommand(`清理回收站中超过 ${days} 天的 ${expired.size} 部作品`, prev => removeTitles(prev, expired));
+    }
+    try {
+      await setTrashRetention(days);
+    } catch (err) {
+      console.error("Failed to save trash retention", err);
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (trashedEntries.length === 0) return;
+    if (window.confirm(`确定要清空回收站吗？${trashedEntries.length} 部作品及其观看记录将被永久删除。`)) {
+      const ids = new Set<string>(trashedEntries.map(e => e.title.id));
+      applyCommand(`清空回收站（${ids.size} 部作品）`, prev => removeTitles(prev, ids));
+      setIsSelectionMode(false);
+      setSelectedIds(new Set());
     }
   };
 
@@ -196,76 +315,202 @@ export default function App() {
       if (selectedIds.size === sortedMovies.length) {
           setSelectedIds(new Set());
       } else {
-          setSelectedIds(new Set(sortedMovies.map(m => m.id)));
+          setSelectedIds(new Set(sortedMovies.map(m => m.title.id)));
       }
   };
 
   const handleBulkDelete = () => {
       if (selectedIds.size === 0) return;
-      if (window.confirm(`确定要删除选中的 ${selectedIds.size} 条记录吗？此操作无法撤销。`)) {
-          // Ensure type safety
-          setMovies(prev => prev.filter(m => !selectedIds.has(String(m.id))));
+      const ids = new Set<string>(selectedIds);
+      if (isTrashView) {
+          if (!window.confirm(`确定要永久删除选中的 ${ids.size} 部作品吗？`)) return;
+          applyCommand(`永久删除 ${ids.size} 部作品`, prev => removeTitles(prev, ids));
+          setIsSelectionMode(false);
+          setSelectedIds(new Set());
+      } else if (window.confirm(`确定要将选中的 ${ids.size} 条记录移到回收站吗？`)) {
+          applyCommand(`将 ${ids.size} 部作品移到回收站`, prev => trashTitles(prev, ids));
           setIsSelectionMode(false);
           setSelectedIds(new Set());
       }
   };
 
-  // --- Export Logic ---
-  const convertToCSV = (data: Movie[]) => {
-    const headers = ['ID', '标题', '年份', '国家/地区', '类型', '导演', '评分', '状态', '评价', '添加时间', '最后更新', '媒体类型', '当前集数', '总集数', '时长'];
-    
-    const escapeCsv = (str: string | undefined) => {
-        if (!str) return '';
-        const stringValue = String(str);
-        if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
-            return `"${stringValue.replace(/"/g, '""')}"`;
-        }
-        return stringValue;
-    };
+  const handleBulkRestore = () => {
+      if (selectedIds.size === 0) return;
+      const ids = new Set<string>(selectedIds);
+      applyCommand(`恢复 ${ids.size} 部作品`, prev => restoreTitles(prev, ids));
+      setIsSelectionMode(false);
+      setSelectedIds(new Set());
+  };
 
-    const rows = data.map(m => [
-      m.id,
-      escapeCsv(m.title),
-      escapeCsv(m.year),
-      escapeCsv(m.country),
-      escapeCsv(m.genre),
-      escapeCsv(m.director),
-      m.rating,
-      m.status,
-      escapeCsv(m.review),
-      new Date(m.addedAt).toLocaleString('zh-CN'),
-      new Date(m.lastUpdated).toLocaleString('zh-CN'),
-      m.mediaType === 'tv' ? '电视剧' : '电影',
-      m.currentEpisode || '',
-      m.totalEpisodes || '',
-      m.duration || ''
-    ]);
-    
-    return [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
-  };
-
-  const handleExport = (format: 'json' | 'csv') => {
+  // --- Quarantine ---
+  const handleExportQuarantine = () => {
+    const blob = new Blob([JSON.stringify(quarantine, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `cinelog_quarantine_${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClearQuarantine = async () => {
+    if (window.confirm(`确定要清除 ${quarantine.length} 条隔离记录吗？建议先导出备份。`)) {
+      try {
+        await clearQuarantine();
+        setQuarantine([]);
+      } catch (err) {
+        console.error(err);
+        alert('清除失败，请重试。');
+      }
+    }
+  };
+
+  // --- Batch Enrichment ---
+  const handleAcceptEnrichment = (proposal: EnrichmentProposal, fields: EnrichField[]) => {
+    applyCommand(`补全 “${proposal.titleName}” 的 ${fields.length} 项信息`, prev => applyProposal(prev, proposal, fields));
+    enrichment.resolveProposal(proposal.titleId);
+  };
+
+  const handleAcceptAllEnrichment = () => {
+    const proposals = enrichment.job?.proposals || [];
+    if (proposals.length === 0) return;
+    applyCommand(`补全 ${proposals.length} 部作品的信息`, prev => proposals.reduce(
+      (lib, proposal) => applyProposal(lib, proposal, proposal.changes.map(c => c.field)), prev
+    ));
+    proposals.forEach(proposal => enrichment.resolveProposal(proposal.titleId));
+  };
+
+  // --- Saved Views ---
+  const updateSavedViews = (next: SavedView[]) => {
+    setSavedViewsState(next);
+    setSavedViews(next).catch(err => console.error("Failed to save views", err));
+  };
+
+  const applyViewState = (state: ViewState) => {
+    setSearchTerm(state.searchTerm);
+    setSearchMode(state.searchMode);
+    setSmartFilter(state.smartFilter ? { filter: state.smartFilter, source: 'local' } : null);
+    setFilterStatus(state.filterStatus);
+    setDateFilter(state.dateFilter);
+    setFilterCountry(state.filterCountry);
+    setFilterTag(state.filterTag);
+    setFilterCollection(state.filterCollection);
+    setSortConfig(state.sort);
+    setSmartList(state.smartList);
+    setSelectedIds(new Set());
+  };
+
+  // Clicking the open view again closes it
+  const handleApplyView = (view: SavedView) => {
+    if (view.builtIn && smartList === view.state.smartList) setSmartList(null);
+    else if (sameViewState(view.state, viewState)) applyViewState(DEFAULT_VIEW_STATE);
+    else applyViewState(view.state);
+  };
+
+  const handleSaveView = (name: string) => {
+    updateSavedViews([...savedViews, { id: crypto.randomUUID(), name, state: liveViewState }]);
+  };
+
+  const handleMoveView = (id: string, beforeId: string | null) => {
+    const moving = savedViews.find(v => v.id === id);
+    if (!moving) return;
+    const rest = savedViews.filter(v => v.id !== id);
+    const at = beforeId ? rest.findIndex(v => v.id === beforeId) : -1;
+    updateSavedViews(at === -1 ? [...rest, moving] : [...rest.slice(0, at), moving, ...rest.slice(at)]);
+  };
+
+  const handleExportViews = () => {
+    const blob = new Blob([viewsToJSON(savedViews)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `cinelog_views_${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportViews = async (file: File) => {
+    try {
+      const imported = parseViewsJSON(await file.text());
+      updateSavedViews([...savedViews, ...imported]);
+      alert(`已导入 ${imported.length} 个视图。`);
+    } catch (err) {
+      alert(`导入视图失败：${err instanceof Error ? err.message : '未知错误'}`);
+    }
+  };
+
+  // --- Smart Search ---
+  // The model reads the sentence when available; the local rules are the fallback
+  const handleSmartSearch = async () => {
+    const query = searchTerm.trim();
+    if (!query) {
+      setSmartFilter(null);
+      return;
+    }
+    const local = parseNaturalQueryLocal(query, filterVocabulary);
+    if (!geminiProvider.isConfigured()) {
+      setSmartFilter({ filter: local, source: 'local' });
+      return;
+    }
+    setIsParsingQuery(true);
+    try {
+      const filter = await requestSearchFilter(query, filterVocabulary);
+      setSmartFilter(isEmptyFilter(filter) ? { filter: local, source: 'local' } : { filter, source: 'ai' });
+    } catch (err) {
+      console.error("Smart search failed, using local parser:", err);
+      setSmartFilter({ filter: local, source: 'local' });
+    } finally {
+      setIsParsingQuery(false);
+    }
+  };
+
+  const toggleSearchMode = () => {
+    setSearchMode(searchMode === 'smart' ? 'keyword' : 'smart');
+    setSmartFilter(null);
+  };
+
+  // --- Recommendations ---
+  const handleAddRecommendation = (metadata: TitleMetadata) => {
+    applyCommand(`添加 “${metadata.title}” 到想看`, prev =>
+      isInLibrary(prev.titles.filter(t => !isTrashed(t)), metadata) ? prev : saveEntry(prev, recommendationDraft(metadata)).library
+    );
+  };
+
+  // --- Export Logic ---
+  const handleExport = async (format: 'json' | 'csv' | 'letterboxd' | 'imdb') => {
     let content = '';
     let type = '';
     let extension = '';
+    let name = 'cinelog_backup';
 
     if (format === 'json') {
-      content = JSON.stringify(movies, null, 2);
+      // Inline posters so the backup is self-contained
+      content = JSON.stringify(await exportDocument(withoutTrash(library)), null, 2);
       type = 'application/json';
       extension = 'json';
-    } else {
-      content = convertToCSV(movies);
+    } else if (format === 'csv') {
+      content = libraryToCSV(withoutTrash(library));
       type = 'text/csv;charset=utf-8;';
       extension = 'csv';
       // Add BOM for Excel compatibility with UTF-8
       content = '\uFEFF' + content; 
+    } else {
+      // Other services' formats, read by their importers rather than Excel, so no BOM
+      content = format === 'letterboxd' ? libraryToLetterboxdCSV(withoutTrash(library)) : libraryToImdbCSV(withoutTrash(library));
+      type = 'text/csv;charset=utf-8;';
+      extension = 'csv';
+      name = `cinelog_${format}`;
     }
 
     const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `cinelog_backup_${new Date().toISOString().split('T')[0]}.${extension}`;
+    link.download = `${name}_${new Date().toISOString().split('T')[0]}.${extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -281,124 +526,42 @@ export default function App() {
       }
   };
 
-  // CSV Parsing Helper: Handles quoted strings correctly
-  const parseCSVLine = (text: string) => {
-    const result = [];
-    let current = '';
-    let inQuote = false;
-    for (let i = 0; i < text.length; i++) {
-        const char = text[i];
-        if (char === '"') {
-            if (inQuote && text[i + 1] === '"') {
-                current += '"';
-                i++; // Skip next quote
-            } else {
-                inQuote = !inQuote;
-            }
-        } else if (char === ',' && !inQuote) {
-            result.push(current);
-            current = '';
-        } else {
-            current += char;
-        }
-    }
-    result.push(current);
-    return result;
-  };
-
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
       if (!file) return;
 
       const reader = new FileReader();
-      reader.onload = (e) => {
+      reader.onload = async (e) => {
           const content = e.target?.result as string;
-          let newMovies: Movie[] = [];
+          let rawData: unknown;
           
           try {
               if (file.name.endsWith('.json')) {
                   const parsed = JSON.parse(content);
-                  if (Array.isArray(parsed)) {
-                      newMovies = parsed;
+                  // Accept both the versioned backup document and legacy bare arrays
+                  if (Array.isArray(parsed) || (parsed && (Array.isArray(parsed.movies) || Array.isArray(parsed.titles)))) {
+                      rawData = parsed;
                   } else {
-                      alert('JSON 格式错误：必须是数组格式');
+                      alert('JSON 格式错误：必须是数组或备份文件格式');
                       return;
                   }
               } else if (file.name.endsWith('.csv')) {
-                  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
-                  // Remove BOM if present
-                  if (lines[0].charCodeAt(0) === 0xFEFF) {
-                      lines[0] = lines[0].slice(1);
-                  }
-                  
-                  // Map headers from Chinese to keys
-                  const headerRow = parseCSVLine(lines[0]);
-                  const headerMap: Record<string, keyof Movie | string> = {
-                      'ID': 'id',
-                      '标题': 'title',
-                      '年份': 'year',
-                      '国家/地区': 'country',
-                      '类型': 'genre',
-                      '导演': 'director',
-                      '评分': 'rating',
-                      '状态': 'status',
-                      '评价': 'review',
-                      '添加时间': 'addedAt',
-                      '最后更新': 'lastUpdated',
-                      '媒体类型': 'mediaType',
-                      '当前集数': 'currentEpisode',
-                      '总集数': 'totalEpisodes',
-                      '时长': 'duration'
-                  };
-
-                  const keyIndex: Record<number, string> = {};
-                  headerRow.forEach((h, i) => {
-                      if (headerMap[h]) keyIndex[i] = headerMap[h];
-                  });
-
-                  for (let i = 1; i < lines.length; i++) {
-                      const values = parseCSVLine(lines[i]);
-                      if (values.length < 2) continue; // Skip empty rows
-
-                      const movie: any = { posterColor: '#4f46e5' }; // Default color if missing
-                      
-                      Object.keys(keyIndex).forEach((idxStr) => {
-                          const idx = parseInt(idxStr);
-                          const key = keyIndex[idx];
-                          const val = values[idx] ? values[idx].trim() : '';
-
-                          if (key === 'rating' || key === 'currentEpisode' || key === 'totalEpisodes' || key === 'duration') {
-                              movie[key] = val ? parseFloat(val) : 0;
-                          } else if (key === 'addedAt' || key === 'lastUpdated') {
-                              // Try to parse date string, fallback to now
-                              const ts = Date.parse(val);
-                              movie[key] = isNaN(ts) ? Date.now() : ts;
-                          } else if (key === 'mediaType') {
-                              movie[key] = val === '电视剧' ? 'tv' : 'movie';
-                          } else {
-                              movie[key] = val;
-                          }
-                      });
-                      
-                      if (!movie.id) movie.id = crypto.randomUUID();
-                      newMovies.push(movie as Movie);
-                  }
+                  // Letterboxd, IMDb and Douban exports are recognised by their headers
+                  rawData = isLetterboxdCSV(content) ? parseLetterboxdCSV(content)
+                      : isImdbCSV(content) ? parseImdbCSV(content)
+                      : isDoubanCSV(content) ? parseDoubanCSV(content, doubanShelf(file.name))
+                      : parseLibraryCSV(content);
+              } else if (file.name.endsWith('.html') || file.name.endsWith('.htm')) {
+                  rawData = parseDoubanHTML(content);
               } else {
-                  alert('不支持的文件格式。请上传 .json 或 .csv 文件。');
+                  alert('不支持的文件格式。请上传 .json、.csv 或豆瓣导出的 .html 文件。');
                   return;
               }
 
-              // Merge logic: Filter out duplicates based on ID
-              const currentIds = new Set(movies.map(m => String(m.id)));
-              const uniqueNewMovies = newMovies.filter(m => !currentIds.has(String(m.id)));
-
-              if (uniqueNewMovies.length > 0) {
-                  setMovies(prev => [...uniqueNewMovies, ...prev]);
-                  alert(`成功导入 ${uniqueNewMovies.length} 条新记录。${newMovies.length - uniqueNewMovies.length} 条重复记录已跳过。`);
-              } else {
-                  alert('没有发现新记录（所有记录已存在）。');
-              }
-
+              // Run imports through the same migration and validation as stored data,
+              // then let the user review the result before anything is written
+              const { document, quarantined } = migrateLibrary(rawData);
+              setImportPreview({ fileName: file.name, plan: buildImportPlan(libraryRef.current, document, quarantined) });
           } catch (err) {
               console.error(err);
               alert('导入失败：文件格式不正确或已损坏。');
@@ -407,76 +570,125 @@ export default function App() {
       reader.readAsText(file);
   };
 
-  const openEdit = (movie: Movie) => {
-    setEditingMovie(movie);
+  const handleConfirmImport = async (resolutions: Record<string, ConflictResolution>) => {
+      if (!importPreview) return;
+      const { plan } = importPreview;
+      try {
+          const { posterIds } = applyImportPlan(libraryRef.current, plan, resolutions);
+          await importPosters(plan.posters.filter(p => posterIds.has(p.id)));
+          const count = plan.rows.filter(r => r.kind !== 'identical').length;
+          applyCommand(`导入 ${count} 部作品`, prev => applyImportPlan(prev, plan, resolutions).library);
+          setImportPreview(null);
+      } catch (err) {
+          console.error(err);
+          alert('导入失败：无法保存海报数据。');
+      }
+  };
+
+  const openEdit = (entry: LibraryEntry) => {
+    setEditingEntry(entry);
     setIsFormOpen(true);
   };
 
-  // Derived state for filtering and sorting
-  const filteredMovies = useMemo(() => {
-    return movies.filter(movie => {
-      // 1. Search Filter (with Fuzzy Match)
-      const matchesSearch = fuzzyMatch(movie.title, searchTerm) || 
-                            fuzzyMatch(movie.genre, searchTerm);
-      
-      // 2. Status Filter
-      const matchesStatus = filterStatus === '全部' || movie.status === filterStatus;
-      
-      // 3. Date Filter
-      let matchesDate = true;
-      if (dateFilter !== 'all') {
-        const movieDate = new Date(movie.addedAt);
-        const now = new Date();
-        
-        if (dateFilter === '7d') {
-            const cutoff = new Date();
-            cutoff.setDate(now.getDate() - 7);
-            matchesDate = movieDate >= cutoff;
-        } else if (dateFilter === '30d') {
-            const cutoff = new Date();
-            cutoff.setDate(now.getDate() - 30);
-            matchesDate = movieDate >= cutoff;
-        } else if (dateFilter.startsWith('year_')) {
-            const year = parseInt(dateFilter.split('_')[1]);
-            matchesDate = movieDate.getFullYear() === year;
-        } else if (dateFilter.startsWith('month_')) {
-            const targetYM = dateFilter.replace('month_', '');
-            const movieYM = `${movieDate.getFullYear()}-${String(movieDate.getMonth() + 1).padStart(2, '0')}`;
-            matchesDate = targetYM === movieYM;
-        }
-      }
+  // Filtering trails the input a little so typing stays smooth on large libraries
+  const deferredSearchTerm = useDeferredValue(searchTerm);
+  const searchIndex = useSearchIndex(allEntries);
+
+  // The toolbar as one value, for saving views and the address bar
+  const liveViewState = useMemo((): ViewState => ({
+    searchTerm,
+    searchMode,
+    smartFilter: smartFilter?.filter ?? null,
+    filterStatus,
+    dateFilter,
+    filterCountry,
+    filterTag,
+    filterCollection,
+    sort: sortConfig,
+    smartList,
+  }), [searchTerm, searchMode, smartFilter, filterStatus, dateFilter, filterCountry, filterTag, filterCollection, sortConfig, smartList]);
+  // What the list is filtered by, a keystroke or so behind
+  const viewState = useMemo(() => ({ ...liveViewState, searchTerm: deferredSearchTerm }), [liveViewState, deferredSearchTerm]);
+
+  // Reset pagination when filters change; states restored from the address keep their page.
+  // This happens during render, so the address bar only ever sees the new filters on page 1.
+  const pageResetKey = viewStateKey(liveViewState);
+  const [pagedViewKey, setPagedViewKey] = useState(pageResetKey);
+  if (pagedViewKey !== pageResetKey) {
+    setPagedViewKey(pageResetKey);
+    setCurrentPage(1);
+  }
 
-      // 4. Country Filter
-      const matchesCountry = filterCountry === 'all' || (movie.country && movie.country.includes(filterCountry));
+  // --- Address Bar ---
+  // Filter changes and opening a record add history entries; typing in the
+  // search box keeps replacing the current one.
+  const urlState = useMemo((): UrlState => ({
+    view: liveViewState,
+    page: currentPage,
+    titleId: isFormOpen && editingEntry ? editingEntry.title.id : null,
+  }), [liveViewState, currentPage, isFormOpen, editingEntry]);
+  const lastUrlStateRef = useRef<UrlState | null>(null);
 
-      return matchesSearch && matchesStatus && matchesDate && matchesCountry;
-    });
-  }, [movies, searchTerm, filterStatus, dateFilter, filterCountry]);
+  useEffect(() => {
+    // Wait for the library so a linked record isn't dropped before it opens
+    if (!isLoaded) return;
+    const search = urlStateToSearch(urlState);
+    const previous = lastUrlStateRef.current;
+    lastUrlStateRef.current = urlState;
+    if (search === window.location.search) return;
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    // The first write only tidies up the address the app was opened with
+    if (!previous || onlySearchTermDiffers(previous, urlState)) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+  }, [urlState, isLoaded]);
 
-  const sortedMovies = useMemo(() => {
-      const data = [...filteredMovies];
-      const { field, direction } = sortConfig;
+  // Back and forward restore whatever the address describes
+  useEffect(() => {
+    const handlePopState = () => {
+      const next = parseUrlState(window.location.search);
+      lastUrlStateRef.current = next;
+      setPagedViewKey(viewStateKey(next.view));
+      applyViewState(next.view);
+      setCurrentPage(next.page);
+      const linked = next.titleId ? allEntries.find(e => e.title.id === next.titleId) : undefined;
+      if (linked) {
+        openEdit(linked);
+      } else if (isFormOpen) {
+        setIsFormOpen(false);
+        setEditingEntry(null);
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [allEntries, isFormOpen]);
 
-      data.sort((a, b) => {
-          let valA = a[field as keyof Movie];
-          let valB = b[field as keyof Movie];
+  // The search box parsed as a query, or ranked against the index
+  const viewSearch = useMemo(() => prepareSearch(viewState, searchIndex), [viewState, searchIndex]);
+  const parsedQuery = viewSearch.query;
 
-          // Special Handling
-          if (field === 'year') {
-             // Handle numeric year strings if possible, defaulting to 0
-             return (parseInt(String(a.year)) || 0) - (parseInt(String(b.year)) || 0);
-          }
-          if (field === 'title') {
-              return String(a.title).localeCompare(String(b.title), 'zh-CN');
-          }
+  // Derived state for filtering and sorting
+  const filteredMovies = useMemo(() => {
+    const now = new Date();
+    return (isTrashView ? trashedEntries : entries).filter(entry => matchesView(entry, viewState, viewSearch, now));
+  }, [entries, trashedEntries, isTrashView, viewState, viewSearch]);
 
-          if (valA < valB) return -1;
-          if (valA > valB) return 1;
-          return 0;
-      });
+  const sortedMovies = useMemo(
+    () => sortEntries(filteredMovies, sortConfig, viewSearch.scores, filterCollection),
+    [filteredMovies, sortConfig, viewSearch, filterCollection]
+  );
 
-      return direction === 'asc' ? data : data.reverse();
-  }, [filteredMovies, sortConfig]);
+  // Live counts for the view tabs
+  const viewCounts = useMemo(() => {
+    const now = new Date();
+    return new Map([...BUILT_IN_VIEWS, ...savedViews].map(view => [
+      view.id,
+      countView(view.state, { entries, trashed: trashedEntries }, searchIndex, now),
+    ]));
+  }, [savedViews, entries, trashedEntries, searchIndex]);
 
   // Pagination Logic
   const indexOfLastItem = currentPage * itemsPerPage;
@@ -498,13 +710,13 @@ export default function App() {
         type="file" 
         ref={fileInputRef} 
         onChange={handleFileChange} 
-        accept=".json,.csv" 
+        accept=".json,.csv,.html,.htm" 
         className="hidden" 
       />
 
       {/* Floating Action Button for Mobile */}
       <button 
-        onClick={() => { setEditingMovie(null); setIsFormOpen(true); }}
+        onClick={() => { setEditingEntry(null); setIsFormOpen(true); }}
         className="fixed bottom-6 right-6 z-40 bg-indigo-600 text-white rounded-full p-4 shadow-2xl shadow-indigo-500/40 sm:hidden hover:scale-110 active:scale-95 transition-all"
         title="添加记录"
       >
@@ -525,8 +737,36 @@ export default function App() {
           
           <div className="flex items-center gap-4">
             <div className="hidden sm:flex items-center gap-2 text-xs text-slate-500 mr-2">
-                <Save size={12} className={isSaving ? "animate-pulse text-indigo-400" : ""} />
-                <span>{isSaving ? '保存中...' : '已保存'}</span>
+                {saveError ? (
+                    <>
+                        <AlertTriangle size={12} className="text-red-400" />
+                        <span className="text-red-400">保存失败</span>
+                    </>
+                ) : (
+                    <>
+                        <Save size={12} className={isSaving ? "animate-pulse text-indigo-400" : ""} />
+                        <span>{!isLoaded ? '加载中...' : isSaving ? '保存中...' : '已保存'}</span>
+                    </>
+                )}
+            </div>
+
+            <div className="hidden sm:flex items-center gap-1">
+                <button
+                    onClick={undo}
+                    disabled={!canUndo}
+                    className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:pointer-events-none transition-colors"
+                    title={canUndo ? `撤销：${history.past[history.past.length - 1].label} (Ctrl+Z)` : '没有可撤销的操作'}
+                >
+                    <Undo2 size={16} />
+                </button>
+                <button
+                    onClick={redo}
+                    disabled={!canRedo}
+                    className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:pointer-events-none transition-colors"
+                    title={canRedo ? `重做：${history.future[0].label} (Ctrl+Shift+Z)` : '没有可重做的操作'}
+                >
+                    <Redo2 size={16} />
+                </button>
             </div>
             
             <div className="relative hidden sm:flex gap-2">
@@ -536,11 +776,41 @@ export default function App() {
                     variant="secondary" 
                     size="sm" 
                     className="shadow-lg shadow-slate-900/20 flex items-center" 
-                    title="导入数据 (JSON/CSV)"
+                    title="导入数据 (JSON/CSV，或豆瓣、Letterboxd、IMDb 导出)"
                 >
                     <Upload size={16} className="mr-1" /> 导入
                 </Button>
 
+                <Button 
+                    onClick={() => setShowMetadataCache(true)} 
+                    variant="secondary" 
+                    size="sm" 
+                    className="shadow-lg shadow-slate-900/20 flex items-center px-2.5" 
+                    title="元数据缓存"
+                >
+                    <Database size={16} />
+                </Button>
+
+                <Button 
+                    onClick={() => setShowEnrichment(true)} 
+                    variant="secondary" 
+                    size="sm" 
+                    className="shadow-lg shadow-slate-900/20 flex items-center px-2.5" 
+                    title="批量补全信息"
+                >
+                    <Sparkles size={16} />
+                </Button>
+
+                <Button 
+                    onClick={() => setShowRecommendations(true)} 
+                    variant="secondary" 
+                    size="sm" 
+                    className="shadow-lg shadow-slate-900/20 flex items-center px-2.5" 
+                    title="为你推荐"
+                >
+                    <Compass size={16} />
+                </Button>
+
                 {/* Export Button */}
                 <div className="relative">
                     <Button 
@@ -569,6 +839,20 @@ export default function App() {
                                 >
                                     <FileSpreadsheet size={14} /> 导出 CSV
                                 </button>
+                                <button 
+                                    onClick={() => handleExport('letterboxd')}
+                                    className="w-full px-4 py-3 text-left text-sm text-slate-300 hover:bg-slate-700 hover:text-white transition-colors flex items-center gap-2 border-t border-slate-700"
+                                    title="Letterboxd 导入格式，仅包含电影"
+                                >
+                                    <FileSpreadsheet size={14} /> Letterboxd
+                                </button>
+                                <button 
+                                    onClick={() => handleExport('imdb')}
+                                    className="w-full px-4 py-3 text-left text-sm text-slate-300 hover:bg-slate-700 hover:text-white transition-colors flex items-center gap-2 border-t border-slate-700"
+                                    title="IMDb 评分导出格式，仅包含已评分作品"
+                                >
+                                    <FileSpreadsheet size={14} /> IMDb 评分
+                                </button>
                             </div>
                         </>
                     )}
@@ -592,7 +876,7 @@ export default function App() {
             </button>
 
             {!isSelectionMode && (
-                <Button onClick={() => { setEditingMovie(null); setIsFormOpen(true); }} size="sm" className="shadow-lg shadow-indigo-500/20 hidden sm:flex">
+                <Button onClick={() => { setEditingEntry(null); setIsFormOpen(true); }} size="sm" className="shadow-lg shadow-indigo-500/20 hidden sm:flex">
                 <Plus size={16} className="mr-1" /> 新增记录
                 </Button>
             )}
@@ -626,6 +910,41 @@ export default function App() {
                         >
                             <FileSpreadsheet size={18} className="text-green-400" /> 导出 CSV
                         </button>
+
+                        <button 
+                            onClick={() => { handleExport('letterboxd'); setShowMobileMenu(false); }}
+                            className="w-full px-4 py-3 text-left text-sm text-slate-300 hover:bg-slate-700 hover:text-white transition-colors flex items-center gap-3 border-t border-slate-700/50"
+                        >
+                            <FileSpreadsheet size={18} className="text-orange-400" /> 导出 Letterboxd
+                        </button>
+
+                        <button 
+                            onClick={() => { handleExport('imdb'); setShowMobileMenu(false); }}
+                            className="w-full px-4 py-3 text-left text-sm text-slate-300 hover:bg-slate-700 hover:text-white transition-colors flex items-center gap-3 border-t border-slate-700/50"
+                        >
+                            <FileSpreadsheet size={18} className="text-yellow-400" /> 导出 IMDb 评分
+                        </button>
+
+                        <button 
+                            onClick={() => { setShowMetadataCache(true); setShowMobileMenu(false); }}
+                            className="w-full px-4 py-3 text-left text-sm text-slate-300 hover:bg-slate-700 hover:text-white transition-colors flex items-center gap-3 border-t border-slate-700/50"
+                        >
+                            <Database size={18} className="text-slate-400" /> 元数据缓存
+                        </button>
+
+                        <button 
+                            onClick={() => { setShowEnrichment(true); setShowMobileMenu(false); }}
+                            className="w-full px-4 py-3 text-left text-sm text-slate-300 hover:bg-slate-700 hover:text-white transition-colors flex items-center gap-3 border-t border-slate-700/50"
+                        >
+                            <Sparkles size={18} className="text-indigo-400" /> 批量补全
+                        </button>
+
+                        <button 
+                            onClick={() => { setShowRecommendations(true); setShowMobileMenu(false); }}
+                            className="w-full px-4 py-3 text-left text-sm text-slate-300 hover:bg-slate-700 hover:text-white transition-colors flex items-center gap-3 border-t border-slate-700/50"
+                        >
+                            <Compass size={18} className="text-emerald-400" /> 为你推荐
+                        </button>
                     </div>
                 </>
             )}
@@ -635,8 +954,70 @@ export default function App() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+
+        {/* Storage Errors */}
+        {(loadError || saveError) && (
+            <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-3 bg-red-500/10 border border-red-500/30 text-red-200 rounded-xl p-3 sm:p-4">
+                <div className="flex items-start gap-2 flex-1 text-sm">
+                    <AlertTriangle size={18} className="text-red-400 shrink-0 mt-0.5" />
+                    <span>{loadError ? `无法读取本地数据库：${loadError}` : saveError}</span>
+                </div>
+                {saveError && !loadError && (
+                    <div className="flex gap-2 shrink-0">
+                        <Button size="sm" variant="secondary" onClick={() => handleExport('json')}>
+                            <Download size={14} className="mr-1" /> 导出备份
+                        </Button>
+                        <Button size="sm" variant="danger" onClick={persist} disabled={isSaving}>
+                            重试
+                        </Button>
+                    </div>
+                )}
+            </div>
+        )}
+
+        {/* Quarantine Notice */}
+        {quarantine.length > 0 && (
+            <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-3 bg-amber-500/10 border border-amber-500/30 text-amber-200 rounded-xl p-3 sm:p-4">
+                <div className="flex items-start gap-2 flex-1 text-sm">
+                    <AlertTriangle size={18} className="text-amber-400 shrink-0 mt-0.5" />
+                    <span>有 <span className="font-bold">{quarantine.length}</span> 条记录未能通过数据迁移或校验，已单独隔离保存，不会显示在列表中。</span>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                    <Button size="sm" variant="secondary" onClick={handleExportQuarantine}>
+                        <Download size={14} className="mr-1" /> 导出
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={handleClearQuarantine}>
+                        清除
+                    </Button>
+                </div>
+            </div>
+        )}
         
-        <Stats movies={movies} />
+        {/* Enrichment job left paused or waiting for review */}
+        {enrichment.job && !showEnrichment && (enrichment.job.status === 'paused' || enrichment.job.proposals.length > 0) && (
+            <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-3 bg-indigo-500/10 border border-indigo-500/30 text-indigo-200 rounded-xl p-3 sm:p-4">
+                <div className="flex items-start gap-2 flex-1 text-sm">
+                    <Sparkles size={18} className="text-indigo-400 shrink-0 mt-0.5" />
+                    <span>
+                        {enrichment.job.status === 'paused'
+                            ? `批量补全已暂停，还有 ${enrichment.job.queue.length} 部作品未查询。`
+                            : `批量补全有 ${enrichment.job.proposals.length} 条修改等待确认。`}
+                    </span>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                    {enrichment.job.status === 'paused' && (
+                        <Button size="sm" variant="secondary" onClick={enrichment.resume}>
+                            继续
+                        </Button>
+                    )}
+                    <Button size="sm" variant="ghost" onClick={() => setShowEnrichment(true)}>
+                        查看
+                    </Button>
+                </div>
+            </div>
+        )}
+        
+        <Stats entries={entries} />
 
         {/* Filters & Search - Mobile Optimized */}
         <div className="flex flex-col md:flex-row gap-4 mb-6 sticky top-16 z-20 bg-slate-900/95 p-3 -mx-4 sm:-mx-2 sm:rounded-xl border-y sm:border border-slate-800/50 backdrop-blur-sm shadow-xl shadow-black/20">
@@ -664,6 +1045,28 @@ export default function App() {
 
                     <div className="flex-grow"></div>
 
+                    {isTrashView && (
+                        <>
+                            <Button 
+                                size="sm" 
+                                variant="secondary" 
+                                disabled={selectedIds.size === 0}
+                                onClick={handleBulkRestore}
+                                className="flex items-center gap-1 px-3"
+                            >
+                                <ArchiveRestore size={16} /> <span className="hidden sm:inline">恢复选中</span>
+                            </Button>
+                            <Button 
+                                size="sm" 
+                                variant="ghost" 
+                                disabled={trashedEntries.length === 0}
+                                onClick={handleEmptyTrash}
+                                className="flex items-center gap-1 px-3 text-red-400 hover:text-red-300"
+                            >
+                                <span className="whitespace-nowrap">清空回收站</span>
+                            </Button>
+                        </>
+                    )}
                     <Button 
                         size="sm" 
                         variant="danger" 
@@ -671,7 +1074,7 @@ export default function App() {
                         onClick={handleBulkDelete}
                         className="flex items-center gap-1 px-3"
                     >
-                        <Trash2 size={16} /> <span className="hidden sm:inline">删除选中</span>
+                        <Trash2 size={16} /> <span className="hidden sm:inline">{isTrashView ? '永久删除' : '删除选中'}</span>
                     </Button>
                     <Button 
                         size="sm" 
@@ -690,11 +1093,23 @@ export default function App() {
                         <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" size={18} />
                         <input 
                         type="text" 
-                        placeholder="搜索标题、类型..." 
+                        placeholder={searchMode === 'smart' ? '用一句话描述，例如：高分的韩国悬疑片 2019年以后' : '搜索标题、类型，或 director:诺兰 rating:>=4'} 
                         value={searchTerm}
                         onChange={(e) => setSearchTerm(e.target.value)}
-                        className="w-full bg-slate-800 border border-slate-700 rounded-lg pl-10 pr-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none placeholder:text-slate-500 transition-shadow"
+                        onKeyDown={(e) => { if (searchMode === 'smart' && e.key === 'Enter') handleSmartSearch(); }}
+                        title={searchMode === 'keyword' ? '支持 字段:值（title genre country director note tag collection year rating status type watched）、"完整短语"、范围 2010..2020、比较 >=4、OR、NOT 或 -排除、括号' : undefined}
+                        className={`w-full bg-slate-800 border rounded-lg pl-10 pr-10 py-2 text-sm focus:ring-2 outline-none placeholder:text-slate-500 transition-shadow ${
+                            parsedQuery?.error ? 'border-red-500/60 focus:ring-red-500/60' : 'border-slate-700 focus:ring-indigo-500'
+                        }`}
                         />
+                        <button
+                            type="button"
+                            onClick={toggleSearchMode}
+                            className={`absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded transition-colors ${searchMode === 'smart' ? 'text-indigo-400 bg-indigo-500/10' : 'text-slate-500 hover:text-slate-300'}`}
+                            title={searchMode === 'smart' ? '智能搜索（按 Enter 搜索），点击切回关键词搜索' : '切换到智能搜索'}
+                        >
+                            <Sparkles size={16} className={isParsingQuery ? 'animate-pulse' : ''} />
+                        </button>
                     </div>
                     
                     {/* Filter Scroll Container for Mobile */}
@@ -741,6 +1156,38 @@ export default function App() {
                             <ChevronDown size={14} className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none" />
                         </div>
 
+                        {/* Tag & Collection Filter */}
+                        {(tagOptions.length > 0 || collectionOptions.length > 0) && (
+                            <div className="relative min-w-[110px] shrink-0">
+                                <div className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none">
+                                    <Tag size={14} />
+                                </div>
+                                <select
+                                    value={filterTag !== 'all' ? `tag:${filterTag}` : filterCollection !== 'all' ? `collection:${filterCollection}` : 'all'}
+                                    onChange={(e) => {
+                                        const [kind, ...rest] = e.target.value.split(':');
+                                        const name = rest.join(':');
+                                        setFilterTag(kind === 'tag' ? name : 'all');
+                                        setFilterCollection(kind === 'collection' ? name : 'all');
+                                    }}
+                                    className="w-full appearance-none bg-slate-800 border border-slate-700 rounded-lg pl-8 pr-7 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none text-slate-300 hover:text-white cursor-pointer transition-colors"
+                                >
+                                    <option value="all">所有标签</option>
+                                    {tagOptions.length > 0 && (
+                                        <optgroup label="标签">
+                                            {tagOptions.map(t => <option key={t} value={`tag:${t}`}>{t}</option>)}
+                                        </optgroup>
+                                    )}
+                                    {collectionOptions.length > 0 && (
+                                        <optgroup label="合集（按观看顺序）">
+                                            {collectionOptions.map(c => <option key={c} value={`collection:${c}`}>{c}</option>)}
+                                        </optgroup>
+                                    )}
+                                </select>
+                                <ChevronDown size={14} className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none" />
+                            </div>
+                        )}
+
                         <div className="relative min-w-[110px] shrink-0">
                             <div className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none">
                                 <Calendar size={14} />
@@ -777,10 +1224,10 @@ export default function App() {
                 </div>
                 
                 <div className="flex gap-2 overflow-x-auto pb-1 md:pb-0 no-scrollbar">
-                    {['全部', ...Object.values(MovieStatus)].map((status) => (
+                    {[ALL_STATUSES, ...Object.values(MovieStatus), TRASH_FILTER].map((status) => (
                     <button
                         key={status}
-                        onClick={() => setFilterStatus(status)}
+                        onClick={() => { setFilterStatus(status); setSelectedIds(new Set()); }}
                         className={`px-3 py-1.5 sm:px-4 sm:py-2 rounded-lg text-xs sm:text-sm font-medium whitespace-nowrap transition-colors border ${
                         filterStatus === status 
                             ? 'bg-indigo-600 border-indigo-500 text-white shadow-md shadow-indigo-500/20' 
@@ -788,6 +1235,9 @@ export default function App() {
                         }`}
                     >
                         {status}
+                        {status === TRASH_FILTER && trashedEntries.length > 0 && (
+                            <span className="ml-1 text-xs opacity-70">{trashedEntries.length}</span>
+                        )}
                     </button>
                     ))}
                 </div>
@@ -795,33 +1245,93 @@ export default function App() {
            )}
         </div>
 
+        {!isSelectionMode && (
+            <SavedViewsBar
+                views={savedViews}
+                counts={viewCounts}
+                current={viewState}
+                onApply={handleApplyView}
+                onSave={handleSaveView}
+                onRename={(id, name) => updateSavedViews(savedViews.map(v => (v.id === id ? { ...v, name } : v)))}
+                onDelete={id => updateSavedViews(savedViews.filter(v => v.id !== id))}
+                onMove={handleMoveView}
+                onExport={handleExportViews}
+                onImport={handleImportViews}
+            />
+        )}
+
+        {searchMode === 'smart' && smartFilter && (
+            <FilterChips
+                filter={smartFilter.filter}
+                source={smartFilter.source}
+                onChange={filter => setSmartFilter({ ...smartFilter, filter })}
+                onClear={() => { setSmartFilter(null); setSearchTerm(''); }}
+            />
+        )}
+
+        {parsedQuery?.error && <QueryErrorHint query={deferredSearchTerm} error={parsedQuery.error} />}
+
+        {/* Trash Notice */}
+        {isTrashView && isLoaded && (
+            <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-3 bg-slate-800/60 border border-slate-700 text-slate-300 rounded-xl p-3 sm:p-4 text-sm">
+                <div className="flex items-center gap-2 flex-1">
+                    <Trash2 size={18} className="text-slate-400 shrink-0" />
+                    <span>回收站中的作品不会出现在列表、统计和导出中。</span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                    <label htmlFor="trash-retention" className="text-slate-400 whitespace-nowrap">自动清理</label>
+                    <select
+                        id="trash-retention"
+                        value={trashRetentionDays}
+                        onChange={(e) => handleTrashRetentionChange(Number(e.target.value))}
+                        className="appearance-none bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none text-slate-300"
+                    >
+                        {TRASH_RETENTION_OPTIONS.map(o => (
+                            <option key={o.days} value={o.days}>{o.days > 0 ? `删除 ${o.label}后` : o.label}</option>
+                        ))}
+                    </select>
+                    <Button size="sm" variant="ghost" onClick={handleEmptyTrash} disabled={trashedEntries.length === 0} className="text-red-400 hover:text-red-300">
+                        清空
+                    </Button>
+                </div>
+            </div>
+        )}
+
         {/* Movie Grid */}
-        {sortedMovies.length === 0 ? (
+        {!isLoaded ? (
+          <div className="text-center py-20 text-slate-500 text-sm">
+             {loadError ? '数据加载失败' : '正在加载数据...'}
+          </div>
+        ) : sortedMovies.length === 0 ? (
           <div className="text-center py-20 border-2 border-dashed border-slate-800 rounded-3xl bg-slate-900/50">
              <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-slate-800 mb-4">
                  <Film size={32} className="text-slate-600" />
              </div>
-             <h3 className="text-xl font-medium text-slate-300 mb-2">未找到记录</h3>
+             <h3 className="text-xl font-medium text-slate-300 mb-2">{isTrashView && trashedEntries.length === 0 ? '回收站是空的' : '未找到记录'}</h3>
              <p className="text-slate-500 max-w-sm mx-auto mb-6">
-               {searchTerm || filterStatus !== '全部' || dateFilter !== 'all' || filterCountry !== 'all'
-                 ? "尝试调整搜索、时间、地区或状态筛选条件。" 
+               {isTrashView && trashedEntries.length === 0 ? "删除的作品会在这里保留一段时间，可随时恢复。" : searchTerm || filterStatus !== ALL_STATUSES || dateFilter !== 'all' || filterCountry !== 'all' || filterTag !== 'all' || filterCollection !== 'all' || smartList
+                 ? "尝试调整搜索、时间、地区、标签或状态筛选条件。" 
                  : "添加你看过的第一部电影或电视剧吧。"}
              </p>
-             {(searchTerm === '' && filterStatus === '全部' && dateFilter === 'all' && filterCountry === 'all') && (
+             {(searchTerm === '' && filterStatus === ALL_STATUSES && dateFilter === 'all' && filterCountry === 'all' && filterTag === 'all' && filterCollection === 'all' && !smartList) && (
                <Button onClick={() => setIsFormOpen(true)}>添加第一条记录</Button>
              )}
           </div>
         ) : (
           <>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6">
-                {currentDisplayedMovies.map(movie => (
+                {currentDisplayedMovies.map(entry => (
                 <MovieCard 
-                    key={movie.id} 
-                    movie={movie} 
+                    key={entry.title.id} 
+                    entry={entry} 
                     onEdit={openEdit}
                     onDelete={handleDeleteMovie}
+                    onMarkNextEpisode={handleMarkNextEpisode}
+                    onSaveLogNote={handleSaveLogNote}
+                    isTrashed={isTrashView}
+                    onRestore={handleRestoreMovie}
                     isSelectionMode={isSelectionMode}
-                    isSelected={selectedIds.has(movie.id)}
+                    isSelected={selectedIds.has(entry.title.id)}
                     onToggleSelect={toggleSelectMovie}
                 />
                 ))}
@@ -878,12 +1388,50 @@ export default function App() {
       {/* Modal */}
       {isFormOpen && (
         <MovieForm 
-          initialData={editingMovie}
-          existingMovies={movies}
-          onSubmit={editingMovie ? handleUpdateMovie : handleAddMovie}
-          onCancel={() => { setIsFormOpen(false); setEditingMovie(null); }}
+          initialEntry={editingEntry}
+          entries={entries}
+          onSubmit={handleSubmitEntry}
+          onCancel={() => { setIsFormOpen(false); setEditingEntry(null); }}
+        />
+      )}
+
+      {showMetadataCache && <MetadataCacheDialog onClose={() => setShowMetadataCache(false)} />}
+
+      {showRecommendations && (
+        <RecommendationsPanel
+          entries={entries}
+          titles={entries.map(e => e.title)}
+          onAdd={handleAddRecommendation}
+          onClose={() => setShowRecommendations(false)}
         />
       )}
+
+      {showEnrichment && (
+        <EnrichmentPanel
+          job={enrichment.job}
+          incompleteCount={incompleteTitles.length}
+          onStart={() => enrichment.start(incompleteTitles.map(t => t.id))}
+          onPause={enrichment.pause}
+          onResume={enrichment.resume}
+          onRetryFailures={enrichment.retryFailures}
+          onAccept={handleAcceptEnrichment}
+          onAcceptAll={handleAcceptAllEnrichment}
+          onReject={proposal => enrichment.resolveProposal(proposal.titleId)}
+          onDiscard={enrichment.discard}
+          onClose={() => setShowEnrichment(false)}
+        />
+      )}
+
+      {importPreview && (
+        <ImportDialog
+          fileName={importPreview.fileName}
+          plan={importPreview.plan}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setImportPreview(null)}
+        />
+      )}
+
+      <UndoToast notice={notice} onUndo={undo} onRedo={redo} />
     </div>
   );
 }
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Season } from '../types';
+import { Button } from './ui/Button';
+import {
+  ENRICH_FIELD_LABELS, EnrichField, EnrichmentJob, EnrichmentProposal, FieldChange,
+} from '../services/enrichment';
+import { X, Play, Pause, RotateCcw, Check, AlertTriangle, Sparkles } from 'lucide-react';
+
+interface EnrichmentPanelProps {
+  job: EnrichmentJob | null;
+  incompleteCount: number;
+  onStart: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onRetryFailures: () => void;
+  onAccept: (proposal: EnrichmentProposal, fields: EnrichField[]) => void;
+  onAcceptAll: () => void;
+  onReject: (proposal: EnrichmentProposal) => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+const ChangeValue: React.FC<{ field: EnrichField, value: FieldChange['before'] }> = ({ field, value }) => {
+  if (value === undefined || value === null || value === '' || value === 0) return <span className="text-slate-600">—</span>;
+  if (field === 'posterColor') {
+    return (
+      <span className="inline-flex items-center gap-1.5">
+        <span className="w-3 h-3 rounded-sm border border-slate-600" style={{ backgroundColor: String(value) }} />
+        {String(value)}
+      </span>
+    );
+  }
+  if (field === 'duration') return <>{value} 分钟</>;
+  if (field === 'seasons') return <>{(value as Season[]).map(s => `S${s.number}×${s.episodeCount || '?'}`).join(' ')}</>;
+  return <>{String(value)}</>;
+};
+
+const ProposalCard: React.FC<{
+  proposal: EnrichmentProposal;
+  onAccept: (fields: EnrichField[]) => void;
+  onReject: () => void;
+}> = ({ proposal, onAccept, onReject }) => {
+  const [selected, setSelected] = useState<Set<EnrichField>>(() => new Set(proposal.changes.map(c => c.field)));
+
+  const toggle = (field: EnrichField) => {
+    const next = new Set(selected);
+    if (next.has(field)) next.delete(field);
+    else next.add(field);
+    setSelected(next);
+  };
+
+  return (
+    <div className="bg-slate-800/60 border border-slate-700/60 rounded-lg p-3 text-sm">
+      <div className="flex items-baseline justify-between gap-2 mb-2">
+        <span className="text-slate-200 font-medium truncate">{proposal.titleName}</span>
+        <span className="text-xs text-slate-500 shrink-0">
+          {proposal.source} · 匹配到 {proposal.matched.title}{proposal.matched.year && ` (${proposal.matched.year})`}
+        </span>
+      </div>
+      <div className="space-y-1">
+        {proposal.changes.map(change => (
+          <label key={change.field} className="grid grid-cols-[auto_4.5rem_1fr] items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected.has(change.field)}
+              onChange={() => toggle(change.field)}
+              className="accent-indigo-500"
+            />
+            <span className="text-xs text-slate-500">{ENRICH_FIELD_LABELS[change.field]}</span>
+            <span className="text-xs min-w-0 break-words">
+              <span className="text-red-300/80 line-through"><ChangeValue field={change.field} value={change.before} /></span>
+              <span className="text-slate-600 mx-1.5">→</span>
+              <span className="text-emerald-300"><ChangeValue field={change.field} value={change.after} /></span>
+            </span>
+          </label>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2 mt-3">
+        <Button variant="ghost" size="sm" onClick={onReject}>拒绝</Button>
+        <Button size="sm" onClick={() => onAccept(Array.from(selected))} disabled={selected.size === 0}>
+          <Check size={14} className="mr-1" /> 接受 {selected.size} 项
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const EnrichmentPanel: React.FC<EnrichmentPanelProps> = ({
+  job, incompleteCount, onStart, onPause, onResume, onRetryFailures, onAccept, onAcceptAll, onReject, onDiscard, onClose,
+}) => {
+  const processed = job ? job.total - job.queue.length : 0;
+  const percent = job && job.total > 0 ? Math.round((processed / job.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center sm:p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-slate-900 sm:border border-slate-700 w-full h-full sm:h-auto sm:max-h-[85vh] sm:rounded-2xl sm:max-w-2xl shadow-2xl flex flex-col">
+        <div className="flex justify-between items-start p-4 sm:p-6 border-b border-slate-800 shrink-0">
+          <div>
+            <h2 className="text-xl font-semibold text-white">批量补全信息</h2>
+            <p className="text-xs text-slate-500 mt-1">
+              为缺少导演、国家、时长、集数或海报颜色的作品逐条查询，确认后才会写入。
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-4 custom-scrollbar">
+          {!job && (
+            <div className="text-center py-10 space-y-4">
+              <p className="text-sm text-slate-400">
+                {incompleteCount > 0 ? `有 ${incompleteCount} 部作品信息不完整。` : '所有作品的信息都已完整。'}
+              </p>
+              <Button onClick={onStart} disabled={incompleteCount === 0}>
+                <Sparkles size={16} className="mr-1" /> 开始补全
+              </Button>
+            </div>
+          )}
+
+          {job && (
+            <>
+              <div>
+                <div className="flex justify-between text-xs text-slate-400 mb-1.5">
+                  <span>
+                    {job.status === 'running' && '查询中…'}
+                    {job.status === 'paused' && '已暂停'}
+                    {job.status === 'finished' && '查询完成'}
+                    {' '}{processed} / {job.total}
+                  </span>
+                  <span>
+                    待确认 {job.proposals.length} · 已处理 {job.reviewed} · 无需补全 {job.skipped} · 失败 {job.failures.length}
+                  </span>
+                </div>
+                <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+                </div>
+              </div>
+
+              {job.proposals.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <h3 className="text-sm font-medium text-slate-300">待确认的修改</h3>
+                    <Button variant="secondary" size="sm" onClick={onAcceptAll}>全部接受</Button>
+                  </div>
+                  {job.proposals.map(proposal => (
+                    <ProposalCard
+                      key={proposal.titleId}
+                      proposal={proposal}
+                      onAccept={fields => onAccept(proposal, fields)}
+                      onReject={() => onReject(proposal)}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {job.failures.length > 0 && (
+                <div className="space-y-1.5">
+                  <div className="flex justify-between items-center">
+                    <h3 className="text-sm font-medium text-slate-300">查询失败</h3>
+                    <Button variant="secondary" size="sm" onClick={onRetryFailures} disabled={job.status === 'running'}>
+                      <RotateCcw size={14} className="mr-1" /> 重试失败项
+                    </Button>
+                  </div>
+                  {job.failures.map(failure => (
+                    <div key={failure.titleId} className="flex items-start gap-2 text-xs bg-red-500/5 border border-red-500/20 rounded-lg px-3 py-2">
+                      <AlertTriangle size={14} className="text-red-400 shrink-0 mt-0.5" />
+                      <div className="min-w-0">
+                        <div className="text-slate-200">{failure.titleName}</div>
+                        <div className="text-slate-500 break-words">{failure.message}</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex p-4 sm:p-6 border-t border-slate-800 justify-between gap-3 bg-slate-900/50 sm:rounded-b-2xl shrink-0">
+          <div className="flex gap-2">
+            {job?.status === 'running' && (
+              <Button variant="secondary" size="sm" onClick={onPause}><Pause size={14} className="mr-1" /> 暂停</Button>
+            )}
+            {job?.status === 'paused' && (
+              <Button variant="secondary" size="sm" onClick={onResume}><Play size={14} className="mr-1" /> 继续</Button>
+            )}
+            {job && job.status !== 'running' && (
+              <Button variant="danger" size="sm" onClick={onDiscard}>结束任务</Button>
+            )}
+          </div>
+          <Button variant="ghost" onClick={onClose}>关闭</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
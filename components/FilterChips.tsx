@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import {
+  FILTER_CHIP_LABELS, FilterChipKey, LibraryFilter, activeChips, formatChipValue, parseChipValue, removeFilterChip,
+} from '../services/smartFilter';
+import { X, Sparkles, ListFilter } from 'lucide-react';
+
+interface FilterChipsProps {
+  filter: LibraryFilter;
+  source: 'ai' | 'local'; // Who read the query, shown so the user knows how far to trust it
+  onChange: (filter: LibraryFilter) => void;
+  onClear: () => void;
+}
+
+const Chip: React.FC<{
+  chipKey: FilterChipKey;
+  filter: LibraryFilter;
+  onChange: (filter: LibraryFilter) => void;
+}> = ({ chipKey, filter, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [invalid, setInvalid] = useState(false);
+
+  const commit = () => {
+    if (draft === null) return;
+    const fields = parseChipValue(chipKey, draft);
+    if (!fields) {
+      setInvalid(true);
+      return;
+    }
+    setDraft(null);
+    setInvalid(false);
+    onChange({ ...filter, ...fields });
+  };
+
+  const cancel = () => {
+    setDraft(null);
+    setInvalid(false);
+  };
+
+  return (
+    <span className={`inline-flex items-center gap-1 pl-2.5 pr-1 py-1 rounded-full text-xs border ${
+      invalid ? 'border-red-500/60 bg-red-500/10' : 'border-indigo-500/40 bg-indigo-500/10'
+    }`}>
+      <span className="text-indigo-300">{FILTER_CHIP_LABELS[chipKey]}</span>
+      {draft === null ? (
+        <button
+          type="button"
+          onClick={() => setDraft(formatChipValue(filter, chipKey))}
+          className="text-slate-200 hover:text-white"
+          title="点击修改"
+        >
+          {formatChipValue(filter, chipKey)}
+        </button>
+      ) : (
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => { setDraft(e.target.value); setInvalid(false); }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') cancel();
+          }}
+          onBlur={() => (invalid ? cancel() : commit())}
+          className="bg-transparent text-slate-100 outline-none w-32"
+          title={invalid ? '无法识别，Esc 取消' : 'Enter 确认，Esc 取消'}
+        />
+      )}
+      <button
+        type="button"
+        onClick={() => onChange(removeFilterChip(filter, chipKey))}
+        className="text-slate-500 hover:text-white p-0.5"
+        title="移除此条件"
+      >
+        <X size={12} />
+      </button>
+    </span>
+  );
+};
+
+export const FilterChips: React.FC<FilterChipsProps> = ({ filter, source, onChange, onClear }) => {
+  const chips = activeChips(filter);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6 text-xs">
+      <span className="inline-flex items-center gap-1 text-slate-500" title={source === 'ai' ? '由 Gemini 理解' : '由本地规则理解'}>
+        {source === 'ai' ? <Sparkles size={14} /> : <ListFilter size={14} />}
+        理解为
+      </span>
+      {chips.length === 0 && <span className="text-slate-500">（没有识别出条件）</span>}
+      {chips.map(key => <Chip key={key} chipKey={key} filter={filter} onChange={onChange} />)}
+      <button type="button" onClick={onClear} className="text-slate-500 hover:text-white ml-1">
+        清除
+      </button>
+    </div>
+  );
+};
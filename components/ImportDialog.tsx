@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import { Title } from '../types';
+import { Button } from './ui/Button';
+import {
+  ComparedField, ConflictResolution, FIELD_LABELS, ImportPlan, ImportRow, ImportRowKind, LogMatch, RESOLUTION_LABELS,
+} from '../services/importPlan';
+import { formatCollections, formatTags } from '../services/tags';
+import { X, Tv, Film, FilePlus2, Copy, GitMerge, AlertTriangle } from 'lucide-react';
+
+interface ImportDialogProps {
+  fileName: string;
+  plan: ImportPlan;
+  onConfirm: (resolutions: Record<string, ConflictResolution>) => void;
+  onCancel: () => void;
+}
+
+type Tab = ImportRowKind | 'invalid';
+
+const formatField = (field: ComparedField, title: Title): string => {
+  const value = title[field];
+  if (value === undefined || value === null || value === '') return '—';
+  if (field === 'mediaType') return value === 'tv' ? '电视剧' : '电影';
+  if (field === 'duration') return `${value} 分钟`;
+  if (field === 'seasons') {
+    const seasons = title.seasons || [];
+    return seasons.length > 0 ? seasons.map(s => `S${s.number}×${s.episodeCount || '?'}`).join(' ') : '—';
+  }
+  if (field === 'tags') return title.tags?.length ? formatTags(title.tags) : '—';
+  if (field === 'collections') return title.collections?.length ? formatCollections(title.collections) : '—';
+  return String(value);
+};
+
+const RowTitle: React.FC<{ title: Title }> = ({ title }) => (
+  <div className="flex items-center gap-2 min-w-0">
+    {title.mediaType === 'tv' ? <Tv size={14} className="text-fuchsia-400 shrink-0" /> : <Film size={14} className="text-cyan-400 shrink-0" />}
+    <span className="text-slate-200 truncate">{title.title}</span>
+    {title.year && <span className="text-xs text-slate-500 shrink-0">{title.year}</span>}
+  </div>
+);
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ fileName, plan, onConfirm, onCancel }) => {
+  const rowsByKind = useMemo(() => {
+    const groups: Record<ImportRowKind, ImportRow[]> = { new: [], identical: [], conflict: [] };
+    plan.rows.forEach(row => groups[row.kind].push(row));
+    return groups;
+  }, [plan]);
+
+  const [tab, setTab] = useState<Tab>(rowsByKind.conflict.length > 0 ? 'conflict' : 'new');
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [globalResolution, setGlobalResolution] = useState<ConflictResolution>('newer');
+
+  const resolutionFor = (row: ImportRow) => resolutions[row.key] || globalResolution;
+
+  const handleGlobalChange = (resolution: ConflictResolution) => {
+    setGlobalResolution(resolution);
+    setResolutions({}); // A global choice overrides earlier per-row ones
+  };
+
+  const handleConfirm = () => {
+    const all: Record<string, ConflictResolution> = {};
+    rowsByKind.conflict.forEach(row => { all[row.key] = resolutionFor(row); });
+    onConfirm(all);
+  };
+
+  // A viewing that takes the place of a bare rating counts as a new one
+  const isNewLog = (m: LogMatch) => !m.local || !!m.replacesRating;
+  const newLogCount = plan.rows.reduce((sum, row) => sum + row.logs.filter(isNewLog).length, 0);
+  const hasChanges = rowsByKind.new.length + rowsByKind.conflict.length > 0;
+
+  const tabs: { id: Tab, label: string, count: number, icon: React.ReactNode, color: string }[] = [
+    { id: 'new', label: '新增', count: rowsByKind.new.length, icon: <FilePlus2 size={14} />, color: 'text-emerald-400' },
+    { id: 'identical', label: '相同', count: rowsByKind.identical.length, icon: <Copy size={14} />, color: 'text-slate-400' },
+    { id: 'conflict', label: '冲突', count: rowsByKind.conflict.length, icon: <GitMerge size={14} />, color: 'text-amber-400' },
+    { id: 'invalid', label: '无效', count: plan.invalid.length, icon: <AlertTriangle size={14} />, color: 'text-red-400' },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center sm:p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-slate-900 sm:border border-slate-700 w-full h-full sm:h-auto sm:max-h-[90vh] sm:rounded-2xl sm:max-w-2xl shadow-2xl flex flex-col">
+        {/* Header */}
+        <div className="flex justify-between items-start p-4 sm:p-6 border-b border-slate-800 shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-xl font-semibold text-white">导入预览</h2>
+            <p className="text-xs text-slate-500 mt-1 truncate">
+              {fileName} · {plan.rows.length} 部作品，{newLogCount} 条新观看记录
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex gap-1 px-4 sm:px-6 pt-3 border-b border-slate-800 overflow-x-auto no-scrollbar shrink-0">
+          {tabs.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={`flex items-center gap-1.5 px-3 py-2 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${tab === t.id ? `border-indigo-500 text-white` : 'border-transparent text-slate-400 hover:text-white'}`}
+            >
+              <span className={t.color}>{t.icon}</span>
+              {t.label}
+              <span className="text-xs text-slate-500">{t.count}</span>
+            </button>
+          ))}
+        </div>
+
+        {/* Rows */}
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-2 custom-scrollbar">
+          {tab === 'conflict' && rowsByKind.conflict.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-3 text-sm text-slate-400">
+              <span>全部冲突：</span>
+              {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(r => (
+                <button
+                  key={r}
+                  onClick={() => handleGlobalChange(r)}
+                  className={`px-2.5 py-1 rounded-md text-xs border transition-colors ${globalResolution === r && Object.keys(resolutions).length === 0 ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-300 hover:text-white'}`}
+                >
+                  {RESOLUTION_LABELS[r]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {tab === 'invalid' ? (
+            plan.invalid.length === 0 ? (
+              <p className="text-center text-sm text-slate-500 py-10">没有无效记录</p>
+            ) : plan.invalid.map(q => (
+              <div key={q.id} className="bg-slate-800/60 border border-red-500/20 rounded-lg p-3 text-xs">
+                <div className="text-red-300 mb-1">{q.reason}</div>
+                <pre className="text-slate-500 whitespace-pre-wrap break-all line-clamp-3">{JSON.stringify(q.record)}</pre>
+              </div>
+            ))
+          ) : rowsByKind[tab].length === 0 ? (
+            <p className="text-center text-sm text-slate-500 py-10">没有{tabs.find(t => t.id === tab)?.label}的记录</p>
+          ) : rowsByKind[tab].map(row => (
+            <div key={row.key} className="bg-slate-800/60 border border-slate-700/60 rounded-lg p-3 text-sm">
+              <div className="flex items-center justify-between gap-3">
+                <RowTitle title={row.incoming} />
+                <span className="text-xs text-slate-500 shrink-0">
+                  {row.local
+                    ? `${row.matchedBy === 'title' ? '按标题和年份匹配' : '按 ID 匹配'}${row.logs.some(isNewLog) ? ` · 新增 ${row.logs.filter(isNewLog).length} 条观看` : ''}`
+                    : `${row.logs.length} 条观看记录`}
+                </span>
+              </div>
+
+              {row.kind === 'conflict' && row.local && (
+                <div className="mt-3 space-y-2">
+                  {row.diffFields.length > 0 && (
+                    <div className="grid grid-cols-[5rem_1fr_1fr] gap-x-3 gap-y-1 text-xs">
+                      <span className="text-slate-500">字段</span>
+                      <span className="text-slate-500">本地</span>
+                      <span className="text-slate-500">导入</span>
+                      {row.diffFields.map(field => (
+                        <React.Fragment key={field}>
+                          <span className="text-slate-400">{FIELD_LABELS[field]}</span>
+                          <span className="text-slate-300 break-words">{formatField(field, row.local!)}</span>
+                          <span className="text-amber-200 break-words">{formatField(field, row.incoming)}</span>
+                        </React.Fragment>
+                      ))}
+                    </div>
+                  )}
+                  {row.logs.some(m => m.differs) && (
+                    <p className="text-xs text-slate-400">{row.logs.filter(m => m.differs).length} 条观看记录的评分或笔记不同</p>
+                  )}
+                  <div className="flex flex-wrap gap-1.5 pt-1">
+                    {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(r => (
+                      <button
+                        key={r}
+                        onClick={() => setResolutions(prev => ({ ...prev, [row.key]: r }))}
+                        className={`px-2 py-0.5 rounded text-xs border transition-colors ${resolutionFor(row) === r ? 'bg-amber-500/20 border-amber-500/40 text-amber-200' : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-white'}`}
+                      >
+                        {RESOLUTION_LABELS[r]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex p-4 sm:p-6 border-t border-slate-800 justify-end gap-3 bg-slate-900/50 sm:rounded-b-2xl shrink-0">
+          <Button variant="ghost" onClick={onCancel} type="button">取消</Button>
+          <Button onClick={handleConfirm} disabled={!hasChanges}>
+            {hasChanges ? `导入 ${rowsByKind.new.length + rowsByKind.conflict.length} 部作品` : '没有可导入的内容'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/Button';
+import { MetadataCacheRecord, deleteCachedMetadata, listCachedMetadata } from '../services/storage';
+import { isExpired } from '../services/metadataCache';
+import { METADATA_PROVIDERS } from '../services/metadataProviders';
+import { X, Trash2, Search, FileText } from 'lucide-react';
+
+interface MetadataCacheDialogProps {
+  onClose: () => void;
+}
+
+const providerLabel = (id: string) => METADATA_PROVIDERS.find(p => p.id === id)?.label || id;
+
+export const MetadataCacheDialog: React.FC<MetadataCacheDialogProps> = ({ onClose }) => {
+  const [records, setRecords] = useState<MetadataCacheRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    listCachedMetadata()
+      .then(list => setRecords(list.sort((a, b) => b.cachedAt - a.cachedAt)))
+      .catch(err => {
+        console.error(err);
+        setError('无法读取缓存');
+      });
+  };
+
+  useEffect(refresh, []);
+
+  const remove = async (keys?: string[]) => {
+    try {
+      await deleteCachedMetadata(keys);
+      refresh();
+    } catch (err) {
+      console.error(err);
+      setError('删除失败，请重试');
+    }
+  };
+
+  const now = Date.now();
+  const expiredKeys = (records || []).filter(r => isExpired(r, now)).map(r => r.key);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center sm:p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-slate-900 sm:border border-slate-700 w-full h-full sm:h-auto sm:max-h-[85vh] sm:rounded-2xl sm:max-w-xl shadow-2xl flex flex-col">
+        <div className="flex justify-between items-start p-4 sm:p-6 border-b border-slate-800 shrink-0">
+          <div>
+            <h2 className="text-xl font-semibold text-white">元数据缓存</h2>
+            <p className="text-xs text-slate-500 mt-1">
+              自动填充的结果会缓存 7 天；离线或服务出错时仍会使用过期的缓存。
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-1.5 custom-scrollbar">
+          {error && <p className="text-sm text-red-300">{error}</p>}
+          {records === null && !error && <p className="text-center text-sm text-slate-500 py-10">加载中…</p>}
+          {records?.length === 0 && <p className="text-center text-sm text-slate-500 py-10">缓存为空</p>}
+          {records?.map(record => (
+            <div key={record.key} className="flex items-center gap-3 bg-slate-800/60 border border-slate-700/60 rounded-lg px-3 py-2 text-sm">
+              {record.kind === 'search'
+                ? <Search size={14} className="text-indigo-400 shrink-0" />
+                : <FileText size={14} className="text-emerald-400 shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <div className="text-slate-200 truncate">{record.label}</div>
+                <div className="text-xs text-slate-500">
+                  {record.kind === 'search' ? '搜索' : '详情'} · {providerLabel(record.providerId)} · {new Date(record.cachedAt).toLocaleString('zh-CN')}
+                  {isExpired(record, now) && <span className="text-amber-400"> · 已过期</span>}
+                </div>
+              </div>
+              <button onClick={() => remove([record.key])} className="text-slate-500 hover:text-red-400 p-1 shrink-0" title="删除此条缓存">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex p-4 sm:p-6 border-t border-slate-800 justify-between gap-3 bg-slate-900/50 sm:rounded-b-2xl shrink-0">
+          <div className="flex gap-2">
+            <Button variant="secondary" size="sm" onClick={() => remove(expiredKeys)} disabled={expiredKeys.length === 0}>
+              清除过期 ({expiredKeys.length})
+            </Button>
+            <Button variant="danger" size="sm" onClick={() => remove()} disabled={!records || records.length === 0}>
+              清空全部
+            </Button>
+          </div>
+          <Button variant="ghost" onClick={onClose}>关闭</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { MetadataSearchResult } from '../services/metadata';
+import { Tv, Film, X } from 'lucide-react';
+
+interface MetadataPickerProps {
+  query: string;
+  providerLabel: string;
+  candidates: MetadataSearchResult[];
+  onPick: (candidate: MetadataSearchResult) => void;
+  onCancel: () => void;
+}
+
+export const MetadataPicker: React.FC<MetadataPickerProps> = ({ query, providerLabel, candidates, onPick, onCancel }) => {
+  return (
+    <div className="bg-slate-800/80 border border-indigo-500/30 rounded-xl overflow-hidden animate-in fade-in slide-in-from-top-1 duration-150">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-slate-700/60">
+            <span className="text-xs text-slate-400">
+                “{query}” 匹配到 {candidates.length} 部作品，请选择（来自 {providerLabel}）
+            </span>
+            <button type="button" onClick={onCancel} className="text-slate-500 hover:text-white" title="取消">
+                <X size={14} />
+            </button>
+        </div>
+        <div className="max-h-72 overflow-y-auto custom-scrollbar divide-y divide-slate-700/40">
+            {candidates.map(candidate => (
+                <button
+                    key={candidate.externalId}
+                    type="button"
+                    onClick={() => onPick(candidate)}
+                    className="w-full text-left px-3 py-2.5 hover:bg-slate-700/60 transition-colors"
+                >
+                    <div className="flex items-center gap-2 text-sm">
+                        {candidate.mediaType === 'tv' ? <Tv size={14} className="text-fuchsia-400 shrink-0" /> : <Film size={14} className="text-cyan-400 shrink-0" />}
+                        <span className="text-white font-medium truncate">{candidate.title}</span>
+                        {candidate.year && <span className="text-xs text-slate-400 shrink-0">{candidate.year}</span>}
+                        <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-900 text-slate-400 shrink-0">
+                            {candidate.mediaType === 'tv' ? '剧集' : '电影'}
+                        </span>
+                    </div>
+                    {(candidate.originalTitle && candidate.originalTitle !== candidate.title) || candidate.director ? (
+                        <div className="text-xs text-slate-500 mt-0.5 truncate">
+                            {[candidate.originalTitle !== candidate.title ? candidate.originalTitle : '', candidate.director].filter(Boolean).join(' · ')}
+                        </div>
+                    ) : null}
+                    {candidate.overview && (
+                        <p className="text-xs text-slate-400 mt-1 line-clamp-2">{candidate.overview}</p>
+                    )}
+                </button>
+            ))}
+        </div>
+    </div>
+  );
+};
@@ -1,27 +1,43 @@
 
 import React, { useState } from 'react';
-import { Movie, MovieStatus } from '../types';
+import { LibraryEntry, MovieStatus } from '../types';
 import { StarRating } from './StarRating';
-import { Trash2, Edit2, Calendar, Tv, Film, Check, ChevronDown, ChevronUp, User, Tag, Trophy, Clock } from 'lucide-react';
+import { usePosterUrl } from '../hooks/usePosterUrl';
+import { entryDate, nextEpisode, rewatchInfo } from '../services/library';
+import { Trash2, Edit2, Calendar, Tv, Film, Check, ChevronDown, ChevronUp, User, Tag, Trophy, Clock, RotateCcw, MapPin, Plus, ArchiveRestore, Hash, Library } from 'lucide-react';
 
 interface MovieCardProps {
-  movie: Movie;
-  onEdit: (movie: Movie) => void;
+  entry: LibraryEntry;
+  onEdit: (entry: LibraryEntry) => void;
   onDelete: (id: string) => void;
+  onMarkNextEpisode?: (titleId: string) => string | null;
+  onSaveLogNote?: (logId: string, note: string) => void;
+  // Trash view: the card offers restore and permanent delete instead of edit
+  isTrashed?: boolean;
+  onRestore?: (id: string) => void;
   isSelectionMode?: boolean;
   isSelected?: boolean;
   onToggleSelect?: (id: string) => void;
 }
 
 export const MovieCard: React.FC<MovieCardProps> = ({ 
-    movie, 
+    entry, 
     onEdit, 
     onDelete, 
+    onMarkNextEpisode,
+    onSaveLogNote,
+    isTrashed = false,
+    onRestore,
     isSelectionMode = false,
     isSelected = false,
     onToggleSelect
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  // Log created by the "+1 集" button, awaiting an optional one-line note
+  const [quickLogId, setQuickLogId] = useState<string | null>(null);
+  const [quickNote, setQuickNote] = useState('');
+  const { title: movie, rating, review } = entry;
+  const posterUrl = usePosterUrl(movie.posterId);
 
   // Status Badge Colors (Existing)
   const statusColors = {
@@ -32,10 +48,18 @@ export const MovieCard: React.FC<MovieCardProps> = ({
   };
 
   const isTv = movie.mediaType === 'tv';
-  const currentEp = movie.currentEpisode || 0;
-  const totalEp = movie.totalEpisodes || 0;
+  const currentEp = entry.watchedEpisodes;
+  const totalEp = entry.totalEpisodes;
   const progressPercent = totalEp > 0 ? Math.min(100, Math.max(0, (currentEp / totalEp) * 100)) : 0;
 
+  // The episode the "+1 集" button would log, if there is one left
+  const upNext = (() => {
+    if (!isTv || movie.status !== MovieStatus.WATCHING || isTrashed) return null;
+    const next = nextEpisode(entry) || { season: entry.seasons[0]?.number || 1, episode: 1 };
+    const episodeCount = entry.seasons.find(s => s.number === next.season)?.episodeCount || 0;
+    return episodeCount > 0 && next.episode > episodeCount ? null : next;
+  })();
+
   // 1. Media Type Distinct Styles
   const mediaStyles = isTv 
     ? {
@@ -66,7 +90,11 @@ export const MovieCard: React.FC<MovieCardProps> = ({
       return { label: '暂无', color: 'text-slate-500 bg-slate-500/5 border-slate-500/10 shadow-none', iconColor: 'text-slate-600' };
   };
   
-  const ratingMeta = getRatingMeta(movie.rating);
+  const ratingMeta = getRatingMeta(rating);
+
+  // Viewing timeline, newest first
+  const { rewatchLogIds } = rewatchInfo(entry);
+  const viewCount = entry.logs.length;
 
   const handleCardClick = () => {
     if (isSelectionMode && onToggleSelect) {
@@ -74,6 +102,19 @@ export const MovieCard: React.FC<MovieCardProps> = ({
     }
   };
 
+  const handleMarkNext = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (!onMarkNextEpisode) return;
+      setQuickLogId(onMarkNextEpisode(movie.id));
+      setQuickNote('');
+  };
+
+  const handleSaveQuickNote = () => {
+      if (quickLogId && quickNote.trim() && onSaveLogNote) onSaveLogNote(quickLogId, quickNote.trim());
+      setQuickLogId(null);
+      setQuickNote('');
+  };
+
   const handleToggleExpand = (e: React.MouseEvent) => {
       e.stopPropagation();
       setIsExpanded(!isExpanded);
@@ -90,14 +131,14 @@ export const MovieCard: React.FC<MovieCardProps> = ({
       {/* Visual Header */}
       <div 
         className="h-32 w-full relative overflow-hidden"
-        style={movie.posterImage ? {} : { 
+        style={posterUrl ? {} : { 
             background: `linear-gradient(135deg, ${movie.posterColor || '#334155'} 0%, #0f172a 100%)` 
         }}
       >
-         {movie.posterImage ? (
+         {posterUrl ? (
              <>
                 <img 
-                    src={movie.posterImage} 
+                    src={posterUrl} 
                     alt={movie.title} 
                     className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110"
                 />
@@ -136,8 +177,17 @@ export const MovieCard: React.FC<MovieCardProps> = ({
          {/* Action Buttons */}
          {!isSelectionMode && (
              <div className="absolute top-2 right-2 flex gap-2 z-20">
+                {isTrashed ? (
+                <button 
+                onClick={(e) => { e.stopPropagation(); onRestore?.(movie.id); }}
+                className="p-1.5 bg-slate-900/80 rounded-full text-slate-300 hover:text-white hover:bg-emerald-600 backdrop-blur-sm border border-white/10 shadow-lg transition-all duration-300"
+                title="恢复"
+                >
+                    <ArchiveRestore size={14} />
+                </button>
+                ) : (
                 <button 
-                onClick={(e) => { e.stopPropagation(); onEdit(movie); }}
+                onClick={(e) => { e.stopPropagation(); onEdit(entry); }}
                 className="p-1.5 bg-slate-900/80 rounded-full text-slate-300 hover:text-white hover:bg-indigo-600 backdrop-blur-sm border border-white/10 shadow-lg transition-all duration-300 
                 opacity-100 transform translate-x-0 
                 sm:opacity-0 sm:translate-x-8 sm:group-hover:translate-x-0 sm:group-hover:opacity-100 sm:delay-75"
@@ -145,12 +195,13 @@ export const MovieCard: React.FC<MovieCardProps> = ({
                 >
                     <Edit2 size={14} />
                 </button>
+                )}
                 <button 
                 onClick={(e) => { e.stopPropagation(); onDelete(movie.id); }}
                 className="p-1.5 bg-red-900/80 rounded-full text-red-300 hover:text-white hover:bg-red-600 backdrop-blur-sm border border-white/10 shadow-lg transition-all duration-300 
                 opacity-100 transform translate-x-0 
                 sm:opacity-0 sm:translate-x-8 sm:group-hover:translate-x-0 sm:group-hover:opacity-100 sm:delay-100"
-                title="删除"
+                title={isTrashed ? '永久删除' : '移到回收站'}
                 >
                     <Trash2 size={14} />
                 </button>
@@ -169,16 +220,23 @@ export const MovieCard: React.FC<MovieCardProps> = ({
                 </span>
                 
                 {/* Rating Level Badge */}
-                {movie.rating > 0 && (
+                {rating > 0 && (
                     <div className={`flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-bold shadow-sm ${ratingMeta.color}`}>
                         <Trophy size={10} className={ratingMeta.iconColor} />
                         {ratingMeta.label}
                     </div>
                 )}
+
+                {viewCount > 1 && (
+                    <div className="flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-bold text-pink-300 bg-pink-400/10 border-pink-400/20" title="观看次数">
+                        <RotateCcw size={10} />
+                        看过 {viewCount} 次
+                    </div>
+                )}
             </div>
             
             <div className="transform transition-transform duration-300 origin-right hover:scale-110">
-                <StarRating rating={movie.rating} readonly size={14} />
+                <StarRating rating={rating} readonly size={14} />
             </div>
         </div>
         
@@ -186,7 +244,10 @@ export const MovieCard: React.FC<MovieCardProps> = ({
         {isTv && (
             <div className="mb-3 group/progress">
                 <div className="flex justify-between text-xs text-slate-400 mb-1">
-                    <span>进度: <span className="text-slate-200 font-medium">{currentEp}</span> / {totalEp || '?'} 集</span>
+                    <span>
+                        进度: <span className="text-slate-200 font-medium">{currentEp}</span> / {totalEp || '?'} 集
+                        {entry.seasons.length > 1 && <span className="text-slate-500"> · 共 {entry.seasons.length} 季</span>}
+                    </span>
                     <span>{Math.round(progressPercent)}%</span>
                 </div>
                 <div className="w-full bg-slate-700 h-1.5 rounded-full overflow-hidden">
@@ -195,11 +256,43 @@ export const MovieCard: React.FC<MovieCardProps> = ({
                         style={{ width: `${progressPercent}%` }}
                     />
                 </div>
+
+                {/* Quick Action: log the next episode as watched now */}
+                {upNext && !isSelectionMode && onMarkNextEpisode && !quickLogId && (
+                    <button
+                        onClick={handleMarkNext}
+                        className="mt-2 w-full flex items-center justify-center gap-1 text-xs font-medium text-fuchsia-300 bg-fuchsia-500/10 border border-fuchsia-500/20 rounded-md py-1.5 hover:bg-fuchsia-500/20 hover:text-white transition-colors"
+                        title="记录为刚刚看完"
+                    >
+                        <Plus size={12} />
+                        1 集 · 看完{entry.seasons.length > 1 ? ` 第 ${upNext.season} 季` : ''}第 {upNext.episode} 集
+                    </button>
+                )}
+                {quickLogId && (
+                    <div className="mt-2 flex gap-2" onClick={(e) => e.stopPropagation()}>
+                        <input
+                            type="text"
+                            value={quickNote}
+                            autoFocus
+                            maxLength={100}
+                            onChange={(e) => setQuickNote(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleSaveQuickNote();
+                                if (e.key === 'Escape') setQuickLogId(null);
+                            }}
+                            className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-white focus:ring-1 focus:ring-fuchsia-500 outline-none"
+                            placeholder="这一集怎么样？（可选）"
+                        />
+                        <button onClick={handleSaveQuickNote} className="text-xs text-fuchsia-300 hover:text-white px-2">
+                            {quickNote.trim() ? '保存' : '跳过'}
+                        </button>
+                    </div>
+                )}
             </div>
         )}
 
         {/* Expandable Details Section */}
-        <div className={`transition-all duration-300 ease-in-out overflow-hidden ${isExpanded ? 'max-h-60 opacity-100 mb-3' : 'max-h-0 opacity-0'}`}>
+        <div className={`transition-all duration-300 ease-in-out overflow-hidden ${isExpanded ? 'max-h-[32rem] opacity-100 mb-3' : 'max-h-0 opacity-0'}`}>
             <div className="space-y-2 text-xs text-slate-300 bg-slate-900/50 p-2 rounded-lg border border-slate-700/50">
                 {movie.director && (
                     <div className="flex items-center gap-2">
@@ -207,6 +300,23 @@ export const MovieCard: React.FC<MovieCardProps> = ({
                         <span><span className="text-slate-500">导演:</span> {movie.director}</span>
                     </div>
                 )}
+                {isTv && entry.seasons.length > 0 && (
+                    <div className="space-y-1">
+                        {entry.seasons.map(season => (
+                            <div key={season.number} className="flex items-center gap-2">
+                                <span className="text-slate-500 w-12 shrink-0">第 {season.number} 季</span>
+                                <div className="flex-1 bg-slate-700 h-1 rounded-full overflow-hidden">
+                                    <div
+                                        className={`${mediaStyles.progressColor} h-full rounded-full`}
+                                        style={{ width: `${season.episodeCount > 0 ? Math.min(100, (season.watchedEpisodes / season.episodeCount) * 100) : 0}%` }}
+                                    />
+                                </div>
+                                <span className="text-slate-400 w-12 text-right shrink-0">{season.watchedEpisodes}/{season.episodeCount || '?'}</span>
+                                <span className={`px-1 rounded text-[10px] border shrink-0 ${statusColors[season.status]}`}>{season.status}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
                 {movie.duration && movie.duration > 0 && (
                     <div className="flex items-center gap-2">
                         <Clock size={12} className="text-slate-500" />
@@ -219,27 +329,81 @@ export const MovieCard: React.FC<MovieCardProps> = ({
                     <Tag size={12} className="text-slate-500" />
                      <span><span className="text-slate-500">类型:</span> {movie.genre || '未分类'}</span>
                 </div>
-                {movie.review && (
+                {movie.tags && movie.tags.length > 0 && (
+                    <div className="flex items-start gap-2">
+                        <Hash size={12} className="text-slate-500 mt-0.5 shrink-0" />
+                        <div className="flex flex-wrap gap-1">
+                            {movie.tags.map(tag => (
+                                <span key={tag} className="px-1.5 py-0.5 rounded bg-indigo-500/15 text-indigo-200">{tag}</span>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                {movie.collections && movie.collections.length > 0 && (
+                    <div className="flex items-center gap-2">
+                        <Library size={12} className="text-slate-500" />
+                        <span>
+                            <span className="text-slate-500">合集:</span> {movie.collections.map(c => `${c.name} 第 ${c.position} 部`).join('、')}
+                        </span>
+                    </div>
+                )}
+                {review && (
                     <div className="pt-1 border-t border-slate-700/50 mt-1">
-                        <p className="italic">"{movie.review}"</p>
+                        <p className="italic">"{review}"</p>
+                    </div>
+                )}
+                {viewCount > 0 && (
+                    <div className="pt-1 border-t border-slate-700/50 mt-1">
+                        <div className="text-slate-500 mb-1">观看记录</div>
+                        <ol className="relative border-l border-slate-700 ml-1 space-y-2 max-h-48 overflow-y-auto pr-1">
+                            {entry.logs.map(log => (
+                                <li key={log.id} className="ml-3">
+                                    <span className={`absolute -left-[4px] mt-1 w-2 h-2 rounded-full ${rewatchLogIds.has(log.id) ? 'bg-pink-400' : 'bg-indigo-400'}`} />
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="text-slate-200">
+                                            {new Date(log.watchedAt).toLocaleDateString('zh-CN')}
+                                            {log.episodeTo ? <span className="text-slate-400"> · {entry.seasons.length > 1 ? `S${log.season || 1} ` : ''}第 {log.episodeFrom && log.episodeFrom !== log.episodeTo ? `${log.episodeFrom}-` : ''}{log.episodeTo} 集</span> : null}
+                                            {rewatchLogIds.has(log.id) && <span className="text-pink-300"> · 重看</span>}
+                                        </span>
+                                        {log.rating > 0 && <StarRating rating={log.rating} readonly size={10} />}
+                                    </div>
+                                    {(log.location || log.platform) && (
+                                        <div className="flex items-center gap-1 text-slate-400">
+                                            <MapPin size={10} />
+                                            {[log.location, log.platform].filter(Boolean).join(' · ')}
+                                        </div>
+                                    )}
+                                    {log.note && <p className="text-slate-400 italic line-clamp-2">"{log.note}"</p>}
+                                </li>
+                            ))}
+                        </ol>
                     </div>
                 )}
             </div>
         </div>
 
         {/* Review Teaser */}
-        {!isExpanded && movie.review && (
+        {!isExpanded && review && (
              <p className="text-slate-400 text-sm line-clamp-3 mb-4 italic flex-grow group-hover:text-slate-300 transition-colors duration-300">
-                "{movie.review}"
+                "{review}"
             </p>
         )}
-        {!movie.review && !isExpanded && <div className="flex-grow"></div>}
+        {!review && !isExpanded && <div className="flex-grow"></div>}
 
         {/* Footer */}
         <div className="pt-3 border-t border-slate-700/50 flex justify-between items-center text-xs text-slate-500 mt-auto">
             <div className="flex items-center gap-1 group-hover:text-slate-400 transition-colors">
-                <Calendar size={12} />
-                <span>{new Date(movie.addedAt).toLocaleDateString('zh-CN')}</span>
+                {isTrashed && movie.deletedAt ? (
+                    <>
+                        <Trash2 size={12} />
+                        <span>删除于 {new Date(movie.deletedAt).toLocaleDateString('zh-CN')}</span>
+                    </>
+                ) : (
+                    <>
+                        <Calendar size={12} />
+                        <span>{new Date(entryDate(entry)).toLocaleDateString('zh-CN')}</span>
+                    </>
+                )}
             </div>
             
             {!isSelectionMode && (
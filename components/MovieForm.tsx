@@ -1,19 +1,35 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Movie, MovieStatus, MediaType } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { CollectionMembership, EntryDraft, LibraryEntry, MetadataFieldIssue, MovieStatus, MediaType, Season, Title, TitleMetadata, WatchLog } from '../types';
 import { Button } from './ui/Button';
 import { StarRating } from './StarRating';
-import { fetchMovieMetadata, generateAiReview } from '../services/geminiService';
-import { Wand2, Sparkles, X, Tv, Film, Upload, Image as ImageIcon, Trash2, ArrowLeft } from 'lucide-react';
+import { MetadataPicker } from './MetadataPicker';
+import { TagInput } from './TagInput';
+import { ReviewAssistant } from './ReviewAssistant';
+import { pickToneExamples } from '../services/reviewAssistant';
+import { getMetadataPick, getMetadataProviderId, savePoster, setMetadataPick, setMetadataProviderId } from '../services/storage';
+import { MetadataProvider, MetadataSearchResult, searchMetadata } from '../services/metadata';
+import { METADATA_PROVIDERS, providerOrder } from '../services/metadataProviders';
+import { usePosterUrl } from '../hooks/usePosterUrl';
+import { nextEpisode } from '../services/library';
+import { collectionCounts, nextPosition, normalizeCollections, tagCounts } from '../services/tags';
+import { Wand2, Sparkles, X, Tv, Film, Upload, Image as ImageIcon, Trash2, ArrowLeft, Link2, History, Plus } from 'lucide-react';
 
 interface MovieFormProps {
-  initialData?: Movie | null;
-  existingMovies: Movie[];
-  onSubmit: (movie: Omit<Movie, 'id' | 'lastUpdated'> & { id?: string }) => void;
+  initialEntry?: LibraryEntry | null;
+  entries: LibraryEntry[];
+  onSubmit: (draft: EntryDraft) => void;
   onCancel: () => void;
 }
 
-export const MovieForm: React.FC<MovieFormProps> = ({ initialData, existingMovies, onSubmit, onCancel }) => {
+const DEFAULT_SEASONS: Season[] = [{ number: 1, episodeCount: 0 }];
+
+const toDateInput = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const MovieForm: React.FC<MovieFormProps> = ({ initialEntry, entries, onSubmit, onCancel }) => {
   const [title, setTitle] = useState('');
   const [year, setYear] = useState('');
   const [country, setCountry] = useState('');
@@ -23,133 +39,305 @@ export const MovieForm: React.FC<MovieFormProps> = ({ initialData, existingMovie
   const [status, setStatus] = useState<MovieStatus>(MovieStatus.WATCHED);
   const [review, setReview] = useState('');
   const [posterColor, setPosterColor] = useState('#4f46e5');
-  const [posterImage, setPosterImage] = useState('');
+  const [posterId, setPosterId] = useState('');
+  const [isPosterSaving, setIsPosterSaving] = useState(false);
   const [watchedDate, setWatchedDate] = useState('');
+  const [location, setLocation] = useState('');
+  const [platform, setPlatform] = useState('');
   
   // New Fields
   const [mediaType, setMediaType] = useState<MediaType>('movie');
-  const [currentEpisode, setCurrentEpisode] = useState<string>(''); // Use string for input handling
-  const [totalEpisodes, setTotalEpisodes] = useState<string>('');
+  const [season, setSeason] = useState(1); // Season the viewing's episodes belong to
+  const [episodeFrom, setEpisodeFrom] = useState<string>(''); // Use string for input handling
+  const [episodeTo, setEpisodeTo] = useState<string>('');
+  const [seasons, setSeasons] = useState<Season[]>(DEFAULT_SEASONS);
   const [duration, setDuration] = useState<string>(''); // Minutes
+  const [tags, setTags] = useState<string[]>([]);
+  const [collections, setCollections] = useState<CollectionMembership[]>([]);
+  const [collectionName, setCollectionName] = useState(''); // Collection being typed in to join
+
+  // The existing title this viewing is logged against (always set when editing)
+  const [linkedTitleId, setLinkedTitleId] = useState<string | null>(null);
+  // The log being edited; null means a new viewing will be recorded
+  const [editingLog, setEditingLog] = useState<WatchLog | null>(null);
+  const [deletedLogIds, setDeletedLogIds] = useState<string[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
 
   const [isAiLoading, setIsAiLoading] = useState(false);
-  const [isReviewLoading, setIsReviewLoading] = useState(false);
+  const [aiError, setAiError] = useState<string | null>(null);
+  // Fields of the last fill that failed validation and were left as they were
+  const [rejectedFields, setRejectedFields] = useState<MetadataFieldIssue[]>([]);
+  // Search results waiting for the user to say which work they meant
+  const [candidates, setCandidates] = useState<{ query: string, provider: MetadataProvider, results: MetadataSearchResult[] } | null>(null);
+  // Set when the last fill reused a remembered pick, so it can be picked again
+  const [reusedPick, setReusedPick] = useState<{ query: string, result: MetadataSearchResult } | null>(null);
+  // Provider tried first by the fill button; the others are fallbacks in their default order
+  const [providerId, setProviderId] = useState<string>(() => METADATA_PROVIDERS.find(p => p.isConfigured())?.id || METADATA_PROVIDERS[0].id);
+  const [showReviewAssistant, setShowReviewAssistant] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const posterUrl = usePosterUrl(posterId);
+
+  const linkedEntry = useMemo(
+    () => entries.find(e => e.title.id === linkedTitleId) || null,
+    [entries, linkedTitleId]
+  );
+
+  // Existing titles whose name contains what is typed, for explicit linking
+  const suggestions = useMemo(() => {
+    const query = title.trim().toLowerCase();
+    if (initialEntry || linkedTitleId || query.length < 1) return [];
+    return entries
+      .filter(e => e.title.title.toLowerCase().includes(query))
+      .slice(0, 5);
+  }, [entries, title, initialEntry, linkedTitleId]);
+
+  const fillFromTitle = (t: Title) => {
+    setTitle(t.title);
+    setYear(t.year || '');
+    setCountry(t.country || '');
+    setGenre(t.genre || '');
+    setDirector(t.director || '');
+    setStatus(t.status);
+    setPosterColor(t.posterColor || '#4f46e5');
+    setPosterId(t.posterId || '');
+    setMediaType(t.mediaType);
+    setSeasons(t.seasons && t.seasons.length > 0 ? t.seasons : DEFAULT_SEASONS);
+    setDuration(t.duration ? t.duration.toString() : '');
+    setTags(t.tags || []);
+    setCollections(t.collections || []);
+  };
+
+  const fillFromLog = (log: WatchLog) => {
+    setRating(log.rating);
+    setReview(log.note || '');
+    setWatchedDate(toDateInput(log.watchedAt));
+    setSeason(log.season || 1);
+    setEpisodeFrom(log.episodeFrom ? log.episodeFrom.toString() : '');
+    setEpisodeTo(log.episodeTo ? log.episodeTo.toString() : '');
+    setLocation(log.location || '');
+    setPlatform(log.platform || '');
+  };
+
+  // Suggests the episode after the last one seen, or clears the episode fields
+  const suggestNextEpisode = (entry: LibraryEntry | null) => {
+    const next = entry ? nextEpisode(entry) : null;
+    setSeason(next ? next.season : 1);
+    setEpisodeFrom(next ? next.episode.toString() : '');
+    setEpisodeTo(next ? next.episode.toString() : '');
+  };
+
+  // Clears the viewing fields for a fresh viewing, continuing after the last episode seen
+  const resetViewing = (entry: LibraryEntry | null) => {
+    setRating(0);
+    setReview('');
+    setLocation('');
+    setPlatform('');
+    setWatchedDate(toDateInput(Date.now()));
+    suggestNextEpisode(entry);
+  };
+
+  // Viewings of the title being edited that haven't been deleted in this form
+  const viewings = useMemo(
+    () => (initialEntry ? initialEntry.logs.filter(l => !deletedLogIds.includes(l.id)) : []),
+    [initialEntry, deletedLogIds]
+  );
+
+  const handleSelectViewing = (logId: string) => {
+    const log = viewings.find(l => l.id === logId) || null;
+    setEditingLog(log);
+    if (log) fillFromLog(log);
+    else resetViewing(initialEntry || null);
+  };
+
+  const handleDeleteViewing = () => {
+    if (!editingLog) return;
+    if (!window.confirm(`确定要删除 ${toDateInput(editingLog.watchedAt)} 的这次观看记录吗？`)) return;
+    const remaining = viewings.filter(l => l.id !== editingLog.id);
+    setDeletedLogIds(prev => [...prev, editingLog.id]);
+    setEditingLog(remaining[0] || null);
+    if (remaining[0]) fillFromLog(remaining[0]);
+    else resetViewing(null);
+  };
+
+  // Restore the provider picked last time
+  useEffect(() => {
+    getMetadataProviderId()
+      .then(id => { if (id && METADATA_PROVIDERS.some(p => p.id === id)) setProviderId(id); })
+      .catch(err => console.error(err));
+  }, []);
 
   // Initialize Data
   useEffect(() => {
-    if (initialData) {
-      setTitle(initialData.title);
-      setYear(initialData.year || '');
-      setCountry(initialData.country || '');
-      setGenre(initialData.genre || '');
-      setDirector(initialData.director || '');
-      setRating(initialData.rating);
-      setStatus(initialData.status);
-      setReview(initialData.review || '');
-      setPosterColor(initialData.posterColor || '#4f46e5');
-      setPosterImage(initialData.posterImage || '');
-      
-      setMediaType(initialData.mediaType || 'movie');
-      setCurrentEpisode(initialData.currentEpisode ? initialData.currentEpisode.toString() : '');
-      setTotalEpisodes(initialData.totalEpisodes ? initialData.totalEpisodes.toString() : '');
-      setDuration(initialData.duration ? initialData.duration.toString() : '');
-
-      // Initialize date string from timestamp (local time)
-      if (initialData.addedAt) {
-        const d = new Date(initialData.addedAt);
-        const dateStr = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-        setWatchedDate(dateStr);
+    if (initialEntry) {
+      fillFromTitle(initialEntry.title);
+      setLinkedTitleId(initialEntry.title.id);
+
+      // Edit the most recent viewing, if there is one
+      const latest = initialEntry.logs[0] || null;
+      setEditingLog(latest);
+      if (latest) {
+        fillFromLog(latest);
+      } else {
+        setWatchedDate(toDateInput(Date.now()));
       }
     } else {
       // Default to today for new records
-      const d = new Date();
-      const dateStr = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-      setWatchedDate(dateStr);
+      setWatchedDate(toDateInput(Date.now()));
     }
-  }, [initialData]);
+  }, [initialEntry]);
 
-  // Auto-fill logic for existing TV Series
-  useEffect(() => {
-    // Only run if adding a new record (not editing) and we have a title
-    if (!initialData && title.length > 1) {
-        // Find the most recent entry with the same title that is a TV show
-        // We look for exact match (case insensitive) to be safe
-        const match = existingMovies
-            .filter(m => m.mediaType === 'tv' && m.title.toLowerCase() === title.trim().toLowerCase())
-            .sort((a, b) => b.addedAt - a.addedAt)[0]; // Sort by newest first
-
-        if (match) {
-            // Auto-fill metadata from previous record
-            setMediaType('tv');
-            setYear(match.year);
-            setCountry(match.country || '');
-            setGenre(match.genre);
-            setDirector(match.director || '');
-            setPosterColor(match.posterColor);
-            setPosterImage(match.posterImage || '');
-            setTotalEpisodes(match.totalEpisodes ? match.totalEpisodes.toString() : '');
-            setDuration(match.duration ? match.duration.toString() : '');
-            
-            // Suggest next episode
-            if (match.currentEpisode) {
-                setCurrentEpisode((match.currentEpisode + 1).toString());
-            }
-        }
+  // Link a new viewing to an existing title and suggest the next episodes
+  const handleLinkTitle = (entry: LibraryEntry) => {
+    fillFromTitle(entry.title);
+    setLinkedTitleId(entry.title.id);
+    setShowSuggestions(false);
+    suggestNextEpisode(entry);
+  };
+
+  const handleUnlinkTitle = () => {
+    setLinkedTitleId(null);
+    suggestNextEpisode(null);
+  };
+
+  const updateSeason = (number: number, changes: Partial<Season>) => {
+    setSeasons(prev => prev.map(s => s.number === number ? { ...s, ...changes } : s));
+  };
+
+  const handleAddSeason = () => {
+    setSeasons(prev => [...prev, { number: Math.max(0, ...prev.map(s => s.number)) + 1, episodeCount: 0 }]);
+  };
+
+  const handleRemoveSeason = (number: number) => {
+    const remaining = seasons.filter(s => s.number !== number);
+    setSeasons(remaining.length > 0 ? remaining : DEFAULT_SEASONS);
+    if (season === number) setSeason(remaining[0]?.number || 1);
+  };
+
+  const handleProviderChange = (id: string) => {
+    setProviderId(id);
+    setMetadataProviderId(id).catch(err => console.error(err));
+  };
+
+  const fillFromCandidate = async (provider: MetadataProvider, result: MetadataSearchResult) => {
+    setRejectedFields([]);
+    let data: TitleMetadata;
+    try {
+      data = await provider.getDetails(result);
+    } catch (err) {
+      console.error(err);
+      setAiError(`未能获取 “${result.title}” 的详细信息（${provider.label}）`);
+      return;
     }
-  }, [title, initialData, existingMovies]);
 
-  const handleAiFill = async () => {
-    if (!title) return;
-    setIsAiLoading(true);
-    const data = await fetchMovieMetadata(title);
-    if (data) {
-      // Check for existing record
-      const isDuplicate = existingMovies.some(
-        m => m.title === data.title && m.id !== initialData?.id
+    // Check for existing record: offer to log this as a rewatch instead of a duplicate
+    const existing = !initialEntry && !linkedTitleId
+      ? entries.find(e => e.title.title === data.title && e.title.mediaType === data.mediaType)
+      : undefined;
+
+    if (existing) {
+      const linkAsRewatch = window.confirm(
+        `检测到库中已有 “${data.title}” 的记录（已看 ${existing.logs.length} 次）。\n\n是否作为该作品的新一次观看记录？选择“取消”将新建一条独立记录。`
       );
+      
+      if (linkAsRewatch) {
+          handleLinkTitle(existing);
+          return;
+      }
+    }
 
-      if (isDuplicate) {
-        const confirmUpdate = window.confirm(
-          `检测到库中已有 “${data.title}” 的记录。\n\n是否继续使用 AI 数据填充当前表单？`
-        );
-        
-        if (!confirmUpdate) {
-            setIsAiLoading(false);
-            return;
-        }
+    setTitle(data.title);
+    setRejectedFields(data.rejected || []);
+    if (data.year) setYear(data.year);
+    setCountry(data.country || '');
+    setGenre(data.genre);
+    setDirector(data.director);
+    if (data.suggestedColorHex) setPosterColor(data.suggestedColorHex);
+    setMediaType(data.mediaType);
+    if (data.duration) setDuration(data.duration.toString());
+
+    if (data.mediaType === 'tv') {
+      const fetchedSeasons: Season[] = (data.seasons || [])
+        .filter(s => s.number > 0)
+        .map(s => ({ number: s.number, episodeCount: s.episodeCount || 0, episodeDuration: s.episodeDuration || undefined }));
+      setSeasons(fetchedSeasons.length > 0 ? fetchedSeasons : DEFAULT_SEASONS);
+      // If adding a finished single-season show, suggest watched all
+      if (!initialEntry && status === MovieStatus.WATCHED && fetchedSeasons.length === 1 && fetchedSeasons[0].episodeCount > 0) {
+           setSeason(fetchedSeasons[0].number);
+           setEpisodeFrom('1');
+           setEpisodeTo(fetchedSeasons[0].episodeCount.toString());
       }
+    }
 
-      setTitle(data.title);
-      setYear(data.year);
-      setCountry(data.country || '');
-      setGenre(data.genre);
-      setDirector(data.director);
-      setPosterColor(data.suggestedColorHex);
-      setMediaType(data.mediaType);
-      if (data.duration) setDuration(data.duration.toString());
-
-      if (data.mediaType === 'tv' && data.totalEpisodes) {
-        setTotalEpisodes(data.totalEpisodes.toString());
-        // If adding new, suggest watched all if status is watched
-        if (!initialData && status === MovieStatus.WATCHED) {
-             setCurrentEpisode(data.totalEpisodes.toString());
+    // Keep a poster the user already chose
+    if (!posterId) {
+      const poster = await provider.getPoster(result);
+      if (poster) {
+        try {
+          setPosterId(await savePoster(await resizeImage(poster)));
+        } catch (err) {
+          console.error(err);
         }
       }
     }
-    setIsAiLoading(false);
   };
 
-  const handleAiReview = async () => {
-    if (!title) return;
-    setIsReviewLoading(true);
-    const generatedReview = await generateAiReview(title, rating, mediaType);
-    setReview(generatedReview);
-    setIsReviewLoading(false);
+  // Looks the query up, reusing the candidate picked for it before unless asked not to
+  const runLookup = async (query: string, useRememberedPick: boolean) => {
+    setIsAiLoading(true);
+    setAiError(null);
+    setRejectedFields([]);
+    setCandidates(null);
+    setReusedPick(null);
+    try {
+      const remembered = useRememberedPick ? await getMetadataPick(query).catch(() => null) : null;
+      const rememberedProvider = remembered && METADATA_PROVIDERS.find(p => p.id === remembered.providerId && p.isConfigured());
+      if (remembered && rememberedProvider) {
+        setReusedPick({ query, result: remembered });
+        await fillFromCandidate(rememberedProvider, remembered);
+        return;
+      }
+
+      const { provider, results, failures } = await searchMetadata(providerOrder(providerId), query);
+      if (!provider) {
+        setAiError(`未能获取信息：${failures.map(f => `${f.label}（${f.message}）`).join('，')}`);
+      } else if (results.length === 1) {
+        await fillFromCandidate(provider, results[0]);
+      } else {
+        setCandidates({ query, provider, results });
+      }
+    } finally {
+      setIsAiLoading(false);
+    }
+  };
+
+  const handleAiFill = () => {
+    if (title) runLookup(title, true);
+  };
+
+  const handlePickCandidate = async (result: MetadataSearchResult) => {
+    if (!candidates) return;
+    const { query, provider } = candidates;
+    setCandidates(null);
+    setMetadataPick(query, result).catch(err => console.error(err));
+    setIsAiLoading(true);
+    try {
+      await fillFromCandidate(provider, result);
+    } finally {
+      setIsAiLoading(false);
+    }
+  };
+
+  const handleRepick = () => {
+    if (!reusedPick) return;
+    setMetadataPick(reusedPick.query, null).catch(err => console.error(err));
+    runLookup(reusedPick.query, false);
   };
 
-  const resizeImage = (file: File): Promise<string> => {
+  // The user's notes on other titles, so the assistant can write like them
+  const toneExamples = useMemo(() => pickToneExamples(entries, linkedTitleId, rating), [entries, linkedTitleId, rating]);
+
+  const resizeImage = (file: Blob): Promise<Blob> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.readAsDataURL(file);
@@ -174,7 +362,11 @@ export const MovieForm: React.FC<MovieFormProps> = ({ initialData, existingMovie
           ctx?.drawImage(img, 0, 0, canvas.width, canvas.height);
           
           // Compress quality to 0.7
-          resolve(canvas.toDataURL('image/jpeg', 0.7));
+          canvas.toBlob(
+            blob => blob ? resolve(blob) : reject(new Error('图片压缩失败')),
+            'image/jpeg',
+            0.7
+          );
         };
         img.onerror = (err) => reject(err);
       };
@@ -185,37 +377,74 @@ export const MovieForm: React.FC<MovieFormProps> = ({ initialData, existingMovie
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
+      setIsPosterSaving(true);
       try {
         const resizedImage = await resizeImage(file);
-        setPosterImage(resizedImage);
+        setPosterId(await savePoster(resizedImage));
       } catch (error) {
         console.error("Error processing image:", error);
         alert("无法处理图片，请重试");
+      } finally {
+        setIsPosterSaving(false);
       }
     }
   };
 
+  // Suggestions come from the rest of the library
+  const libraryTitles = useMemo(() => entries.map(e => e.title), [entries]);
+  const tagSuggestions = useMemo(() => tagCounts(libraryTitles), [libraryTitles]);
+  const collectionSuggestions = useMemo(() => collectionCounts(libraryTitles), [libraryTitles]);
+
+  // Joins a collection, at the end of it unless the position is changed afterwards
+  const handleAddCollection = () => {
+    const name = collectionName.trim();
+    if (!name) return;
+    if (!collections.some(c => c.name === name)) {
+      setCollections(prev => [...prev, { name, position: nextPosition(libraryTitles, name, linkedTitleId || undefined) }]);
+    }
+    setCollectionName('');
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const addedAtTimestamp = watchedDate ? new Date(watchedDate).getTime() : Date.now();
+    if (!title.trim()) return;
+    const watchedAt = watchedDate ? new Date(watchedDate).getTime() : Date.now();
+    const to = mediaType === 'tv' ? (parseInt(episodeTo) || 0) : 0;
+    const from = mediaType === 'tv' ? (parseInt(episodeFrom) || to) : 0;
+
+    // A bare "want to watch" entry is not a viewing, so don't log one for it
+    const hasViewing = status !== MovieStatus.PLANNING || rating > 0 || review.trim().length > 0 || to > 0;
 
     onSubmit({
-      id: initialData?.id,
-      title,
-      year, 
-      country,
-      genre,
-      director,
-      rating,
-      status,
-      review,
-      posterColor,
-      posterImage,
-      mediaType,
-      currentEpisode: mediaType === 'tv' ? (parseInt(currentEpisode) || 0) : undefined,
-      totalEpisodes: mediaType === 'tv' ? (parseInt(totalEpisodes) || 0) : undefined,
-      duration: parseInt(duration) || 0,
-      addedAt: addedAtTimestamp
+      titleId: linkedTitleId || undefined,
+      title: {
+        title: title.trim(),
+        year, 
+        country,
+        genre,
+        director,
+        status,
+        posterColor,
+        posterId: posterId || undefined,
+        mediaType,
+        seasons: mediaType === 'tv' ? [...seasons].sort((a, b) => a.number - b.number) : undefined,
+        duration: parseInt(duration) || 0,
+        // Always set, so clearing them on an existing title sticks
+        tags: tags.length > 0 ? tags : undefined,
+        collections: collections.length > 0 ? normalizeCollections(collections) : undefined,
+      },
+      log: editingLog || hasViewing ? {
+        id: editingLog?.id,
+        watchedAt,
+        season: to > 0 ? season : undefined,
+        episodeFrom: to > 0 ? Math.min(from, to) : undefined,
+        episodeTo: to > 0 ? to : undefined,
+        rating,
+        note: review,
+        location: location.trim() || undefined,
+        platform: platform.trim() || undefined,
+      } : undefined,
+      deletedLogIds,
     });
   };
 
@@ -229,7 +458,7 @@ export const MovieForm: React.FC<MovieFormProps> = ({ initialData, existingMovie
                 <ArrowLeft size={24} />
             </button>
             <h2 className="text-xl font-semibold text-white">
-                {initialData ? '编辑记录' : '添加新记录'}
+                {initialEntry ? '编辑记录' : '添加新记录'}
             </h2>
           </div>
           <button onClick={onCancel} className="hidden sm:block text-slate-400 hover:text-white transition-colors">
@@ -264,25 +493,109 @@ export const MovieForm: React.FC<MovieFormProps> = ({ initialData, existingMovie
           <div className="space-y-2">
             <label className="text-sm font-medium text-slate-300">标题</label>
             <div className="flex gap-2">
+              <div className="relative flex-1">
               <input
                 type="text"
                 value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 sm:py-2 text-base sm:text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                onChange={(e) => {
+                    setTitle(e.target.value);
+                    setShowSuggestions(true);
+                    // Retyping the name of a linked title starts a new one, except when editing
+                    if (!initialEntry && linkedTitleId) handleUnlinkTitle();
+                }}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setTimeout(() => setShowSuggestions(false), 150)}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 sm:py-2 text-base sm:text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none"
                 placeholder={mediaType === 'movie' ? "例如：盗梦空间" : "例如：三体"}
                 required
               />
+              {showSuggestions && suggestions.length > 0 && (
+                  <div className="absolute left-0 right-0 mt-1 bg-slate-800 border border-slate-700 rounded-lg shadow-xl overflow-hidden z-10">
+                      <div className="px-3 py-1.5 text-[10px] text-slate-500 border-b border-slate-700/50">库中已有，选择以记录新的观看</div>
+                      {suggestions.map(entry => (
+                          <button
+                              key={entry.title.id}
+                              type="button"
+                              onMouseDown={(e) => e.preventDefault()}
+                              onClick={() => handleLinkTitle(entry)}
+                              className="w-full px-3 py-2 text-left text-sm text-slate-300 hover:bg-slate-700 hover:text-white transition-colors flex items-center gap-2"
+                          >
+                              {entry.title.mediaType === 'tv' ? <Tv size={14} className="text-fuchsia-400" /> : <Film size={14} className="text-cyan-400" />}
+                              <span className="truncate">{entry.title.title}</span>
+                              <span className="text-xs text-slate-500 shrink-0">
+                                  {entry.title.year}{entry.title.director ? ` · ${entry.title.director}` : ''}
+                              </span>
+                          </button>
+                      ))}
+                  </div>
+              )}
+              </div>
+              <select
+                value={providerId}
+                onChange={(e) => handleProviderChange(e.target.value)}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-2 text-xs text-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-500 max-w-[6.5rem]"
+                title="自动填充的信息来源，失败时依次尝试其他来源"
+              >
+                {METADATA_PROVIDERS.map(p => (
+                  <option key={p.id} value={p.id} disabled={!p.isConfigured()}>
+                    {p.label}{p.isConfigured() ? '' : '（未配置）'}
+                  </option>
+                ))}
+              </select>
               <Button 
                 type="button" 
                 variant="secondary" 
                 onClick={handleAiFill} 
                 disabled={!title || isAiLoading}
-                title="使用 AI 自动填充"
+                title="自动填充作品信息"
                 className="px-3"
               >
                 {isAiLoading ? <Wand2 className="animate-spin" size={20} /> : <Wand2 size={20} />}
               </Button>
             </div>
+            {aiError && (
+                <p className="text-xs text-red-300">{aiError}</p>
+            )}
+            {rejectedFields.length > 0 && (
+                <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-500/20 rounded-lg px-3 py-2">
+                    <div className="mb-1">以下字段未通过校验，已忽略，请手动检查：</div>
+                    <ul className="space-y-0.5 text-amber-200/80">
+                        {rejectedFields.map(issue => (
+                            <li key={issue.field}><span className="font-mono">{issue.field}</span>：{issue.reason}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {candidates && (
+                <MetadataPicker
+                    query={candidates.query}
+                    providerLabel={candidates.provider.label}
+                    candidates={candidates.results}
+                    onPick={handlePickCandidate}
+                    onCancel={() => setCandidates(null)}
+                />
+            )}
+            {reusedPick && !candidates && (
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                    <span className="flex-1 truncate">
+                        已沿用上次对 “{reusedPick.query}” 的选择：{reusedPick.result.title}{reusedPick.result.year ? ` (${reusedPick.result.year})` : ''}
+                    </span>
+                    <button type="button" onClick={handleRepick} className="text-indigo-300 hover:text-white shrink-0">
+                        重新选择
+                    </button>
+                </div>
+            )}
+            {!initialEntry && linkedEntry && (
+                <div className="flex items-center gap-2 text-xs text-indigo-300 bg-indigo-500/10 border border-indigo-500/20 rounded-lg px-3 py-2">
+                    <Link2 size={14} className="shrink-0" />
+                    <span className="flex-1 truncate">
+                        将作为 “{linkedEntry.title.title}{linkedEntry.title.year ? ` (${linkedEntry.title.year})` : ''}” 的第 {linkedEntry.logs.length + 1} 次观看记录保存
+                    </span>
+                    <button type="button" onClick={handleUnlinkTitle} className="text-slate-400 hover:text-white shrink-0">
+                        取消关联
+                    </button>
+                </div>
+            )}
           </div>
 
           {/* Poster Image Upload */}
@@ -292,10 +605,10 @@ export const MovieForm: React.FC<MovieFormProps> = ({ initialData, existingMovie
                  <div 
                     className="w-20 h-28 sm:w-16 sm:h-24 bg-slate-800 rounded-lg border border-slate-700 flex items-center justify-center overflow-hidden shrink-0 relative group cursor-pointer"
                     onClick={() => fileInputRef.current?.click()}
-                    style={{ background: posterImage ? 'transparent' : posterColor }}
+                    style={{ background: posterUrl ? 'transparent' : posterColor }}
                  >
-                     {posterImage ? (
-                         <img src={posterImage} alt="Cover" className="w-full h-full object-cover" />
+                     {posterUrl ? (
+                         <img src={posterUrl} alt="Cover" className="w-full h-full object-cover" />
                      ) : (
                          <ImageIcon className="text-white/50" size={24} />
                      )}
@@ -319,15 +632,16 @@ export const MovieForm: React.FC<MovieFormProps> = ({ initialData, existingMovie
                             size="sm"
                             onClick={() => fileInputRef.current?.click()}
                             className="py-2"
+                            disabled={isPosterSaving}
                          >
-                             上传封面
+                             {isPosterSaving ? '处理中...' : '上传封面'}
                          </Button>
-                         {posterImage && (
+                         {posterId && (
                              <Button 
                                 type="button" 
                                 variant="danger" 
                                 size="sm"
-                                onClick={() => setPosterImage('')}
+                                onClick={() => setPosterId('')}
                                 className="py-2"
                              >
                                  <Trash2 size={16} />
@@ -339,30 +653,133 @@ export const MovieForm: React.FC<MovieFormProps> = ({ initialData, existingMovie
              </div>
           </div>
 
-          {/* TV Specific Fields: Episodes */}
+          {/* Viewing Picker: which viewing of this title the fields below belong to */}
+          {initialEntry && (
+              <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-300 flex items-center gap-1">
+                      <History size={14} /> 观看记录
+                  </label>
+                  <div className="flex gap-2">
+                      <select
+                          value={editingLog ? editingLog.id : 'new'}
+                          onChange={(e) => handleSelectViewing(e.target.value)}
+                          className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 sm:py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none appearance-none text-base sm:text-sm"
+                      >
+                          {viewings.map((l, i) => (
+                              <option key={l.id} value={l.id}>
+                                  第 {viewings.length - i} 次 · {toDateInput(l.watchedAt)}
+                                  {l.episodeTo ? ` · 第 ${l.season || 1} 季 第 ${l.episodeFrom || l.episodeTo}-${l.episodeTo} 集` : ''}
+                              </option>
+                          ))}
+                          <option value="new">＋ 记录新的一次观看（重看）</option>
+                      </select>
+                      {editingLog && (
+                          <Button type="button" variant="danger" size="sm" onClick={handleDeleteViewing} className="h-auto px-3" title="删除这次观看">
+                              <Trash2 size={16} />
+                          </Button>
+                      )}
+                  </div>
+              </div>
+          )}
+
+          {/* TV Specific Fields: Season/Episode Picker and Season List */}
           {mediaType === 'tv' && (
-              <div className="grid grid-cols-2 gap-4 bg-slate-800/50 p-3 rounded-lg border border-slate-700/50">
-                  <div className="space-y-2">
-                      <label className="text-sm font-medium text-slate-300">已看集数</label>
-                      <input
-                          type="number"
-                          min="0"
-                          value={currentEpisode}
-                          onChange={(e) => setCurrentEpisode(e.target.value)}
-                          className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 sm:py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none text-base sm:text-sm"
-                          placeholder="0"
-                      />
+              <div className="space-y-4 bg-slate-800/50 p-3 rounded-lg border border-slate-700/50">
+                  <div className="grid grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                          <label className="text-sm font-medium text-slate-300">季</label>
+                          <select
+                              value={season}
+                              onChange={(e) => setSeason(parseInt(e.target.value))}
+                              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 sm:py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none appearance-none text-base sm:text-sm"
+                          >
+                              {seasons.some(s => s.number === season) ? null : <option value={season}>第 {season} 季</option>}
+                              {seasons.map(s => (
+                                  <option key={s.number} value={s.number}>第 {s.number} 季</option>
+                              ))}
+                          </select>
+                      </div>
+                      <div className="space-y-2">
+                          <label className="text-sm font-medium text-slate-300">从第几集</label>
+                          <input
+                              type="number"
+                              min="0"
+                              value={episodeFrom}
+                              onChange={(e) => setEpisodeFrom(e.target.value)}
+                              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 sm:py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none text-base sm:text-sm"
+                              placeholder="1"
+                          />
+                      </div>
+                      <div className="space-y-2">
+                          <label className="text-sm font-medium text-slate-300">看到第几集</label>
+                          <input
+                              type="number"
+                              min="0"
+                              value={episodeTo}
+                              onChange={(e) => setEpisodeTo(e.target.value)}
+                              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 sm:py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none text-base sm:text-sm"
+                              placeholder="0"
+                          />
+                      </div>
                   </div>
+
                   <div className="space-y-2">
-                      <label className="text-sm font-medium text-slate-300">总集数</label>
-                      <input
-                          type="number"
-                          min="0"
-                          value={totalEpisodes}
-                          onChange={(e) => setTotalEpisodes(e.target.value)}
-                          className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 sm:py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none text-base sm:text-sm"
-                          placeholder="例如: 24"
-                      />
+                      <div className="flex justify-between items-center">
+                          <label className="text-sm font-medium text-slate-300">分季信息</label>
+                          <button
+                              type="button"
+                              onClick={handleAddSeason}
+                              className="text-indigo-400 text-xs flex items-center gap-1 hover:text-indigo-300 transition-colors px-2 py-1 rounded hover:bg-slate-800"
+                          >
+                              <Plus size={14} /> 添加一季
+                          </button>
+                      </div>
+                      <div className="grid grid-cols-[3.5rem_1fr_1fr_1fr_auto] gap-2 items-center text-xs text-slate-500">
+                          <span>季</span>
+                          <span>集数</span>
+                          <span>单集时长</span>
+                          <span>状态</span>
+                          <span className="w-8" />
+                          {seasons.map(s => (
+                              <React.Fragment key={s.number}>
+                                  <span className="text-slate-300 text-sm">第 {s.number} 季</span>
+                                  <input
+                                      type="number"
+                                      min="0"
+                                      value={s.episodeCount || ''}
+                                      onChange={(e) => updateSeason(s.number, { episodeCount: parseInt(e.target.value) || 0 })}
+                                      className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                                      placeholder="?"
+                                  />
+                                  <input
+                                      type="number"
+                                      min="0"
+                                      value={s.episodeDuration || ''}
+                                      onChange={(e) => updateSeason(s.number, { episodeDuration: parseInt(e.target.value) || undefined })}
+                                      className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                                      placeholder={duration || '分钟'}
+                                  />
+                                  <select
+                                      value={s.status || ''}
+                                      onChange={(e) => updateSeason(s.number, { status: (e.target.value as MovieStatus) || undefined })}
+                                      className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none appearance-none text-sm"
+                                  >
+                                      <option value="">自动</option>
+                                      {Object.values(MovieStatus).map(st => (
+                                          <option key={st} value={st}>{st}</option>
+                                      ))}
+                                  </select>
+                                  <button
+                                      type="button"
+                                      onClick={() => handleRemoveSeason(s.number)}
+                                      className="w-8 h-8 flex items-center justify-center text-slate-500 hover:text-red-400 transition-colors"
+                                      title="删除这一季"
+                                  >
+                                      <Trash2 size={14} />
+                                  </button>
+                              </React.Fragment>
+                          ))}
+                      </div>
                   </div>
               </div>
           )}
@@ -391,6 +808,30 @@ export const MovieForm: React.FC<MovieFormProps> = ({ initialData, existingMovie
              </div>
           </div>
 
+          {/* Viewing Location and Platform - Stack on mobile */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+             <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-300">观看地点 <span className="text-slate-500 font-normal">(可选)</span></label>
+                <input
+                    type="text"
+                    value={location}
+                    onChange={(e) => setLocation(e.target.value)}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 sm:py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none text-base sm:text-sm"
+                    placeholder="例如: 家里"
+                />
+             </div>
+             <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-300">观看平台 <span className="text-slate-500 font-normal">(可选)</span></label>
+                <input
+                    type="text"
+                    value={platform}
+                    onChange={(e) => setPlatform(e.target.value)}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 sm:py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none text-base sm:text-sm"
+                    placeholder="例如: 影院、Netflix"
+                />
+             </div>
+          </div>
+
           {/* Country and Genre - Stack on mobile */}
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
              <div className="space-y-2">
@@ -442,6 +883,67 @@ export const MovieForm: React.FC<MovieFormProps> = ({ initialData, existingMovie
             </div>
           </div>
 
+          {/* Tags */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-300">标签 <span className="text-slate-500 font-normal">(可选，回车添加)</span></label>
+            <TagInput tags={tags} suggestions={tagSuggestions} onChange={setTags} />
+          </div>
+
+          {/* Collections, each with the title's place in its viewing order */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-300">合集 <span className="text-slate-500 font-normal">(可选)</span></label>
+            {collections.map(c => (
+              <div key={c.name} className="flex items-center gap-2">
+                <span className="flex-1 truncate text-sm text-slate-200 bg-slate-800/60 border border-slate-700 rounded-lg px-3 py-2">{c.name}</span>
+                <span className="text-xs text-slate-500">第</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={c.position}
+                  onChange={(e) => {
+                    const position = Math.max(1, parseInt(e.target.value) || 1);
+                    setCollections(prev => prev.map(m => m.name === c.name ? { ...m, position } : m));
+                  }}
+                  className="w-16 bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none text-sm text-center"
+                  title="在合集中的观看顺序"
+                />
+                <span className="text-xs text-slate-500">部</span>
+                <button
+                  type="button"
+                  onClick={() => setCollections(prev => prev.filter(m => m.name !== c.name))}
+                  className="p-1 text-slate-500 hover:text-red-400"
+                  title="移出合集"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                list="collection-suggestions"
+                value={collectionName}
+                onChange={(e) => setCollectionName(e.target.value.replace(/[#;；]/g, ''))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleAddCollection();
+                  }
+                }}
+                className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 sm:py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none text-base sm:text-sm"
+                placeholder="例如: 漫威电影宇宙"
+              />
+              <datalist id="collection-suggestions">
+                {collectionSuggestions.filter(s => !collections.some(c => c.name === s.name)).map(s => (
+                  <option key={s.name} value={s.name} />
+                ))}
+              </datalist>
+              <Button type="button" variant="secondary" onClick={handleAddCollection} disabled={!collectionName.trim()}>
+                <Plus size={16} /> 加入
+              </Button>
+            </div>
+          </div>
+
           {/* Status & Rating - Stack on mobile */}
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -469,12 +971,12 @@ export const MovieForm: React.FC<MovieFormProps> = ({ initialData, existingMovie
                 <label className="text-sm font-medium text-slate-300">评价 / 笔记</label>
                 <button 
                   type="button" 
-                  onClick={handleAiReview}
-                  className="text-indigo-400 text-xs flex items-center gap-1 hover:text-indigo-300 transition-colors px-2 py-1 rounded hover:bg-slate-800"
-                  disabled={isReviewLoading || !title}
+                  onClick={() => setShowReviewAssistant(!showReviewAssistant)}
+                  className="text-indigo-400 text-xs flex items-center gap-1 hover:text-indigo-300 transition-colors px-2 py-1 rounded hover:bg-slate-800 disabled:opacity-50"
+                  disabled={!title}
                 >
-                    {isReviewLoading ? <Sparkles size={14} className="animate-pulse" /> : <Sparkles size={14} />}
-                    AI 帮我写
+                    <Sparkles size={14} />
+                    AI 助手
                 </button>
             </div>
             <textarea
@@ -483,6 +985,17 @@ export const MovieForm: React.FC<MovieFormProps> = ({ initialData, existingMovie
                 className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none h-32 resize-none text-base sm:text-sm"
                 placeholder="你觉得这部作品怎么样？"
             />
+            {showReviewAssistant && title && (
+              <ReviewAssistant
+                title={title}
+                rating={rating}
+                mediaType={mediaType}
+                draft={review}
+                examples={toneExamples}
+                onAccept={setReview}
+                onClose={() => setShowReviewAssistant(false)}
+              />
+            )}
           </div>
         </div>
 
@@ -490,7 +1003,7 @@ export const MovieForm: React.FC<MovieFormProps> = ({ initialData, existingMovie
         <div className="hidden sm:flex p-6 border-t border-slate-800 justify-end gap-3 bg-slate-900/50 rounded-b-2xl shrink-0">
             <Button variant="ghost" onClick={onCancel} type="button">取消</Button>
             <Button onClick={handleSubmit} type="submit">
-                {initialData ? '保存修改' : '添加记录'}
+                {initialEntry ? '保存修改' : '添加记录'}
             </Button>
         </div>
       </div>
@@ -0,0 +1,25 @@
+import React from 'react';
+import { QuerySyntaxError } from '../services/queryLanguage';
+import { AlertTriangle } from 'lucide-react';
+
+interface QueryErrorHintProps {
+  query: string;
+  error: QuerySyntaxError;
+}
+
+// Echoes the query with the bad part marked, since the input itself can't style a range
+export const QueryErrorHint: React.FC<QueryErrorHintProps> = ({ query, error }) => (
+  <div className="mb-6 text-xs space-y-1">
+    <div className="font-mono text-slate-400 whitespace-pre-wrap break-all">
+      {query.slice(0, error.start)}
+      <mark className="bg-red-500/25 text-red-200 underline decoration-wavy decoration-red-400 rounded-sm">
+        {query.slice(error.start, error.end) || ' '}
+      </mark>
+      {query.slice(error.end)}
+    </div>
+    <p className="flex items-center gap-1 text-red-300">
+      <AlertTriangle size={12} className="shrink-0" />
+      {error.message}（暂按普通关键词搜索）
+    </p>
+  </div>
+);
@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { LibraryEntry, Title, TitleMetadata } from '../types';
+import { Button } from './ui/Button';
+import { geminiProvider, requestRecommendations } from '../services/geminiService';
+import { listCachedMetadata } from '../services/storage';
+import { DEFAULT_POSTER_COLOR } from '../services/enrichment';
+import {
+  DEFAULT_RECOMMENDATION_COUNT, MAX_EXCLUDED_TITLES, Recommendation, TasteTrait, buildTasteProfile, isInLibrary, localRecommendations,
+} from '../services/tasteProfile';
+import defaultFixtures from '../services/fixtures/metadata.json';
+import { X, Sparkles, Compass, Tv, Film, Plus, Check } from 'lucide-react';
+
+interface RecommendationsPanelProps {
+  entries: LibraryEntry[];
+  titles: Title[];
+  onAdd: (metadata: TitleMetadata) => void;
+  onClose: () => void;
+}
+
+// Below this many rated titles the profile says little
+const MIN_RATED_FOR_PROFILE = 5;
+
+// Everything the app already knows about without asking a provider
+const loadLocalPool = async (): Promise<TitleMetadata[]> => {
+  const cached = await listCachedMetadata().catch(() => []);
+  return [
+    ...cached.filter(r => r.kind === 'details').map(r => r.value as TitleMetadata),
+    ...(defaultFixtures as TitleMetadata[]),
+  ];
+};
+
+const TraitChips: React.FC<{ label: string, traits: TasteTrait[] }> = ({ label, traits }) => {
+  const liked = traits.filter(t => t.score > 0).slice(0, 4);
+  if (liked.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-xs">
+      <span className="text-slate-500 w-12 shrink-0">{label}</span>
+      {liked.map(t => (
+        <span key={t.name} className="px-2 py-0.5 rounded-full bg-slate-800 border border-slate-700 text-slate-300">
+          {t.name} <span className="text-amber-400">{t.averageRating}★</span>
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export const RecommendationsPanel: React.FC<RecommendationsPanelProps> = ({ entries, titles, onAdd, onClose }) => {
+  const profile = useMemo(() => buildTasteProfile(entries), [entries]);
+  const [recommendations, setRecommendations] = useState<Recommendation[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const aiAvailable = geminiProvider.isConfigured();
+
+  const generate = async (useAi: boolean) => {
+    setIsLoading(true);
+    setNotice(null);
+    try {
+      if (useAi) {
+        try {
+          const suggested = (await requestRecommendations({
+            profile,
+            exclude: titles.slice(0, MAX_EXCLUDED_TITLES).map(t => t.title),
+            count: DEFAULT_RECOMMENDATION_COUNT,
+          })).filter(r => !isInLibrary(titles, r.metadata));
+          if (suggested.length > 0) {
+            setRecommendations(suggested);
+            return;
+          }
+          setNotice('AI 没有给出新的推荐，已改用本地推荐。');
+        } catch (err) {
+          console.error("Recommendations failed:", err);
+          setNotice(`AI 推荐失败（${err instanceof Error ? err.message : '未知错误'}），已改用本地推荐。`);
+        }
+      }
+      const local = localRecommendations(profile, titles, await loadLocalPool());
+      setRecommendations(local);
+      if (local.length === 0) setNotice('本地资料里没有符合口味的新作品。多评几部作品或使用 AI 推荐试试。');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center sm:p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-slate-900 sm:border border-slate-700 w-full h-full sm:h-auto sm:max-h-[85vh] sm:rounded-2xl sm:max-w-2xl shadow-2xl flex flex-col">
+        <div className="flex justify-between items-start p-4 sm:p-6 border-b border-slate-800 shrink-0">
+          <div>
+            <h2 className="text-xl font-semibold text-white">为你推荐</h2>
+            <p className="text-xs text-slate-500 mt-1">
+              根据 {profile.rated} 部评过分的作品（平均 {profile.averageRating} 星）推荐片库里还没有的作品。
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-4 custom-scrollbar">
+          <div className="space-y-1.5">
+            <TraitChips label="类型" traits={profile.genres} />
+            <TraitChips label="地区" traits={profile.countries} />
+            <TraitChips label="导演" traits={profile.directors} />
+            {profile.rated < MIN_RATED_FOR_PROFILE && (
+              <p className="text-xs text-amber-300">评分过的作品还不多，推荐可能不太准。</p>
+            )}
+          </div>
+
+          {notice && <p className="text-xs text-amber-300">{notice}</p>}
+
+          {isLoading && <p className="text-center text-sm text-slate-500 py-10">正在挑选…</p>}
+
+          {!isLoading && recommendations?.map(({ metadata, reason, source }) => {
+            const inLibrary = isInLibrary(titles, metadata);
+            return (
+              <div key={`${metadata.title}-${metadata.year}`} className="bg-slate-800/60 border border-slate-700/60 rounded-lg p-3 text-sm flex gap-3">
+                <div className="w-1.5 rounded-full shrink-0" style={{ backgroundColor: metadata.suggestedColorHex || DEFAULT_POSTER_COLOR }} />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 min-w-0">
+                    {metadata.mediaType === 'tv' ? <Tv size={14} className="text-fuchsia-400 shrink-0" /> : <Film size={14} className="text-cyan-400 shrink-0" />}
+                    <span className="text-slate-200 font-medium truncate">{metadata.title}</span>
+                    {metadata.year && <span className="text-xs text-slate-500 shrink-0">{metadata.year}</span>}
+                  </div>
+                  <div className="text-xs text-slate-500 truncate">
+                    {[metadata.genre, metadata.country, metadata.director].filter(Boolean).join(' · ')}
+                  </div>
+                  {metadata.summary && <p className="text-xs text-slate-400 line-clamp-2">{metadata.summary}</p>}
+                  {reason && (
+                    <p className="text-xs text-indigo-300 flex items-start gap-1">
+                      {source === 'ai' ? <Sparkles size={12} className="shrink-0 mt-0.5" /> : <Compass size={12} className="shrink-0 mt-0.5" />}
+                      {reason}
+                    </p>
+                  )}
+                </div>
+                <div className="shrink-0 self-center">
+                  <Button size="sm" variant={inLibrary ? 'ghost' : 'secondary'} onClick={() => onAdd(metadata)} disabled={inLibrary}>
+                    {inLibrary ? <><Check size={14} className="mr-1" /> 已在片库</> : <><Plus size={14} className="mr-1" /> 想看</>}
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+
+          {!isLoading && recommendations === null && (
+            <p className="text-center text-sm text-slate-500 py-10">选择推荐方式开始。</p>
+          )}
+        </div>
+
+        <div className="flex p-4 sm:p-6 border-t border-slate-800 justify-between gap-3 bg-slate-900/50 sm:rounded-b-2xl shrink-0">
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => generate(true)} disabled={isLoading || !aiAvailable} title={aiAvailable ? undefined : '服务器未配置 Gemini'}>
+              <Sparkles size={14} className="mr-1" /> AI 推荐
+            </Button>
+            <Button size="sm" variant="secondary" onClick={() => generate(false)} disabled={isLoading}>
+              <Compass size={14} className="mr-1" /> 本地推荐
+            </Button>
+          </div>
+          <Button variant="ghost" onClick={onClose}>关闭</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
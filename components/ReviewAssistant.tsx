@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MediaType } from '../types';
+import { Button } from './ui/Button';
+import { streamAiReview } from '../services/geminiService';
+import {
+  REVIEW_MODE_LABELS, REVIEW_TONES, REVIEW_TONE_LABELS, ReviewExample, ReviewMode, ReviewTone, modesFor,
+} from '../services/reviewAssistant';
+import { Sparkles, Square, Check, RotateCcw, X } from 'lucide-react';
+
+interface ReviewAssistantProps {
+  title: string;
+  rating: number;
+  mediaType: MediaType;
+  draft: string;
+  examples: ReviewExample[];
+  onAccept: (text: string) => void;
+  onClose: () => void;
+}
+
+export const ReviewAssistant: React.FC<ReviewAssistantProps> = ({ title, rating, mediaType, draft, examples, onAccept, onClose }) => {
+  const modes = modesFor(draft);
+  const [selectedMode, setSelectedMode] = useState<ReviewMode>(modes[0]);
+  const [tone, setTone] = useState<ReviewTone>(examples.length > 0 ? 'mine' : 'casual');
+  const [output, setOutput] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Writing from scratch and reworking a draft are different sets of modes
+  const mode = modes.includes(selectedMode) ? selectedMode : modes[0];
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const generate = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setOutput('');
+    setError(null);
+    setIsStreaming(true);
+    try {
+      await streamAiReview({ title, rating, mediaType, mode, tone, draft, examples }, setOutput, controller.signal);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("Review assistant failed:", err);
+        setError(err instanceof Error ? err.message : '生成失败，请重试');
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  };
+
+  const stop = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsStreaming(false);
+  };
+
+  const discard = () => {
+    stop();
+    setOutput('');
+    setError(null);
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-indigo-500/30 rounded-lg p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {modes.map(m => (
+          <button
+            key={m}
+            type="button"
+            onClick={() => setSelectedMode(m)}
+            className={`text-xs px-2.5 py-1 rounded-full border transition-colors ${
+              m === mode ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-600 text-slate-300 hover:border-slate-400'
+            }`}
+          >
+            {REVIEW_MODE_LABELS[m]}
+          </button>
+        ))}
+        <select
+          value={tone}
+          onChange={(e) => setTone(e.target.value as ReviewTone)}
+          className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500"
+          title="语气"
+        >
+          {REVIEW_TONES.map(t => <option key={t} value={t}>{REVIEW_TONE_LABELS[t]}</option>)}
+        </select>
+        <div className="flex-1" />
+        {isStreaming ? (
+          <Button type="button" size="sm" variant="secondary" onClick={stop}>
+            <Square size={12} className="mr-1" /> 停止
+          </Button>
+        ) : (
+          <Button type="button" size="sm" onClick={generate} disabled={!title}>
+            {output ? <RotateCcw size={14} className="mr-1" /> : <Sparkles size={14} className="mr-1" />}
+            {output ? '重新生成' : '生成'}
+          </Button>
+        )}
+        <button type="button" onClick={onClose} className="text-slate-500 hover:text-white p-1" title="关闭 AI 助手">
+          <X size={16} />
+        </button>
+      </div>
+
+      {tone === 'mine' && (
+        <p className="text-xs text-slate-500">
+          {examples.length > 0
+            ? `参考你的 ${examples.length} 条过往评价来模仿语气。`
+            : '还没有足够长的过往评价，将使用默认语气。'}
+        </p>
+      )}
+
+      {(output || isStreaming) && (
+        <textarea
+          value={output}
+          onChange={(e) => setOutput(e.target.value)}
+          readOnly={isStreaming}
+          className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none h-28 resize-none text-base sm:text-sm"
+          placeholder="生成中…"
+        />
+      )}
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {output && !isStreaming && (
+        <div className="flex justify-end gap-2">
+          <Button type="button" size="sm" variant="ghost" onClick={discard}>丢弃</Button>
+          <Button type="button" size="sm" onClick={() => { onAccept(output.trim()); discard(); }}>
+            <Check size={14} className="mr-1" /> 采用
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
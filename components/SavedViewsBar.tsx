@@ -0,0 +1,156 @@
+import React, { useRef, useState } from 'react';
+import { BUILT_IN_VIEWS, SavedView, ViewState, sameViewState, smartListDescription } from '../services/views';
+import { Bookmark, BookmarkPlus, ListChecks, X, Download, Upload } from 'lucide-react';
+
+interface SavedViewsBarProps {
+  views: SavedView[]; // The user's own, in order
+  counts: Map<string, number>; // By view id, built-ins included
+  current: ViewState;
+  onApply: (view: SavedView) => void;
+  onSave: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onMove: (id: string, beforeId: string | null) => void; // null moves to the end
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+// Inline text box for naming a view; Enter keeps, Esc or an empty name cancels
+const NameInput: React.FC<{ initial: string, onDone: (name: string | null) => void }> = ({ initial, onDone }) => {
+  const [name, setName] = useState(initial);
+  const finish = () => onDone(name.trim() || null);
+  return (
+    <input
+      autoFocus
+      value={name}
+      placeholder="视图名称"
+      onChange={(e) => setName(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') finish();
+        if (e.key === 'Escape') onDone(null);
+      }}
+      onBlur={finish}
+      className="bg-slate-800 border border-indigo-500/60 rounded-lg px-2 py-1 text-xs text-slate-100 outline-none w-32"
+    />
+  );
+};
+
+export const SavedViewsBar: React.FC<SavedViewsBarProps> = ({
+  views, counts, current, onApply, onSave, onRename, onDelete, onMove, onExport, onImport,
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [isNaming, setIsNaming] = useState(false);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const alreadySaved = views.some(view => sameViewState(view.state, current));
+
+  const tab = (view: SavedView) => {
+    // A smart list stays lit while its rule applies, whatever else is filtered
+    const active = view.builtIn ? current.smartList === view.state.smartList : sameViewState(view.state, current);
+    const count = counts.get(view.id);
+    if (renamingId === view.id) {
+      return (
+        <NameInput
+          key={view.id}
+          initial={view.name}
+          onDone={name => {
+            if (name && name !== view.name) onRename(view.id, name);
+            setRenamingId(null);
+          }}
+        />
+      );
+    }
+    return (
+      <span
+        key={view.id}
+        draggable={!view.builtIn}
+        onDragStart={() => setDraggedId(view.id)}
+        onDragEnd={() => setDraggedId(null)}
+        onDragOver={(e) => { if (draggedId && !view.builtIn) e.preventDefault(); }}
+        onDrop={(e) => {
+          e.preventDefault();
+          if (draggedId && draggedId !== view.id) onMove(draggedId, view.id);
+          setDraggedId(null);
+        }}
+        className={`group inline-flex items-center gap-1 rounded-lg border text-xs whitespace-nowrap transition-colors ${
+          active
+            ? 'bg-indigo-500/15 border-indigo-500/60 text-indigo-200'
+            : 'bg-slate-800/60 border-slate-700 text-slate-400 hover:text-white hover:border-slate-600'
+        } ${draggedId === view.id ? 'opacity-50' : ''}`}
+      >
+        <button
+          type="button"
+          onClick={() => onApply(view)}
+          onDoubleClick={() => { if (!view.builtIn) setRenamingId(view.id); }}
+          title={view.builtIn ? smartListDescription(view.state.smartList) : '双击重命名，拖动调整顺序'}
+          className={`inline-flex items-center gap-1.5 py-1 ${view.builtIn ? 'px-2.5' : 'pl-2.5'}`}
+        >
+          {view.builtIn ? <ListChecks size={12} /> : <Bookmark size={12} />}
+          {view.name}
+          {count !== undefined && <span className="opacity-60">{count}</span>}
+        </button>
+        {!view.builtIn && (
+          <button
+            type="button"
+            onClick={() => { if (window.confirm(`删除视图 “${view.name}”？`)) onDelete(view.id); }}
+            className="pr-1.5 py-1 text-slate-500 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+            title="删除视图"
+          >
+            <X size={12} />
+          </button>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <div className="flex items-center gap-2 mb-6 overflow-x-auto no-scrollbar pb-1">
+      {BUILT_IN_VIEWS.map(tab)}
+      {views.length > 0 && <span className="w-px h-5 bg-slate-700 shrink-0" />}
+      {views.map(tab)}
+      {/* Dropping past the last tab moves a view to the end */}
+      {draggedId && (
+        <span
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => { e.preventDefault(); onMove(draggedId, null); setDraggedId(null); }}
+          className="w-8 h-6 rounded-lg border border-dashed border-slate-600 shrink-0"
+        />
+      )}
+
+      {isNaming ? (
+        <NameInput initial="" onDone={name => { if (name) onSave(name); setIsNaming(false); }} />
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsNaming(true)}
+          disabled={alreadySaved}
+          className="inline-flex items-center gap-1 px-2 py-1 text-xs text-slate-500 hover:text-white whitespace-nowrap disabled:opacity-40 disabled:pointer-events-none"
+          title={alreadySaved ? '当前筛选已保存' : '把当前的搜索、筛选和排序存为视图'}
+        >
+          <BookmarkPlus size={14} /> 保存视图
+        </button>
+      )}
+
+      <div className="ml-auto flex items-center gap-1 shrink-0">
+        <button type="button" onClick={onExport} disabled={views.length === 0} className="p-1 text-slate-500 hover:text-white disabled:opacity-40" title="导出视图">
+          <Download size={14} />
+        </button>
+        <button type="button" onClick={() => fileInputRef.current?.click()} className="p-1 text-slate-500 hover:text-white" title="导入视图">
+          <Upload size={14} />
+        </button>
+        <input
+          type="file"
+          ref={fileInputRef}
+          accept=".json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
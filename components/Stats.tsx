@@ -5,16 +5,17 @@ import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid, AreaChart, Area, Legend,
   Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis
 } from 'recharts';
-import { Movie, MovieStatus } from '../types';
-import { Film, Tv, PlayCircle, Calendar, Filter, BarChart3, PieChart as PieChartIcon, Activity, Star, Hexagon, Clock } from 'lucide-react';
+import { LibraryEntry, WatchLog } from '../types';
+import { RewatchInfo, episodeDuration, logEpisodes, logSeason, rewatchInfo } from '../services/library';
+import { Film, Tv, PlayCircle, Calendar, Filter, BarChart3, PieChart as PieChartIcon, Activity, Star, Hexagon, Clock, RotateCcw, Tag } from 'lucide-react';
 
 interface StatsProps {
-  movies: Movie[];
+  entries: LibraryEntry[];
 }
 
 type TimeFrame = 'all' | 'year' | 'month';
 
-export const Stats: React.FC<StatsProps> = ({ movies }) => {
+export const Stats: React.FC<StatsProps> = ({ entries }) => {
   const [timeFrame, setTimeFrame] = useState<TimeFrame>('all');
   const [selectedYear, setSelectedYear] = useState<string>(new Date().getFullYear().toString());
   const [selectedMonth, setSelectedMonth] = useState<string>(
@@ -26,22 +27,27 @@ export const Stats: React.FC<StatsProps> = ({ movies }) => {
     const yearsSet = new Set<string>();
     const monthsSet = new Set<string>();
     
-    movies.forEach(m => {
-      const d = new Date(m.addedAt);
-      yearsSet.add(d.getFullYear().toString());
-      monthsSet.add(`${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`);
+    entries.forEach(e => {
+      const timestamps = e.logs.length > 0 ? e.logs.map(l => l.watchedAt) : [e.title.addedAt];
+      timestamps.forEach(ts => {
+        const d = new Date(ts);
+        yearsSet.add(d.getFullYear().toString());
+        monthsSet.add(`${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`);
+      });
     });
 
     return {
       years: Array.from(yearsSet).sort((a, b) => b.localeCompare(a)),
       months: Array.from(monthsSet).sort((a, b) => b.localeCompare(a))
     };
-  }, [movies]);
+  }, [entries]);
 
   // 2. Filter Data based on selection
-  const filteredMovies = useMemo(() => {
-    return movies.filter(movie => {
-      const d = new Date(movie.addedAt);
+  // Titles count towards a period if they were watched in it (or, if never
+  // watched, added in it); viewing-based figures only use logs in the period.
+  const { filteredMovies, filteredLogs } = useMemo(() => {
+    const inFrame = (ts: number) => {
+      const d = new Date(ts);
       if (timeFrame === 'all') return true;
       if (timeFrame === 'year') {
         return d.getFullYear().toString() === selectedYear;
@@ -51,8 +57,16 @@ export const Stats: React.FC<StatsProps> = ({ movies }) => {
         return movieMonth === selectedMonth;
       }
       return true;
+    };
+
+    const filteredLogs: { entry: LibraryEntry, log: WatchLog }[] = [];
+    const filteredMovies = entries.filter(entry => {
+      const logs = entry.logs.filter(l => inFrame(l.watchedAt));
+      logs.forEach(log => filteredLogs.push({ entry, log }));
+      return logs.length > 0 || (entry.logs.length === 0 && inFrame(entry.title.addedAt));
     });
-  }, [movies, timeFrame, selectedYear, selectedMonth]);
+    return { filteredMovies, filteredLogs };
+  }, [entries, timeFrame, selectedYear, selectedMonth]);
 
   // 3. Calculate Aggregate Stats
   const { 
@@ -65,13 +79,17 @@ export const Stats: React.FC<StatsProps> = ({ movies }) => {
     statusData, 
     ratingData, 
     trendData, 
-    genreData
+    genreData,
+    tagData,
+    rewatchCount,
+    avgDrift,
+    driftData
   } = useMemo(() => {
     const total = filteredMovies.length;
     
     // Status & Counts
     const statusCounts = filteredMovies.reduce((acc, m) => {
-      acc[m.status] = (acc[m.status] || 0) + 1;
+      acc[m.title.status] = (acc[m.title.status] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
 
@@ -96,39 +114,30 @@ export const Stats: React.FC<StatsProps> = ({ movies }) => {
     const ratedCount = filteredMovies.filter(m => m.rating > 0).length;
     const avgRating = ratedCount > 0 ? (totalRating / ratedCount).toFixed(1) : '0';
 
-    const movieCount = filteredMovies.filter(m => (!m.mediaType || m.mediaType === 'movie')).length;
-    
-    // Movie Duration (Total)
-    const movieDuration = filteredMovies
-        .filter(m => (!m.mediaType || m.mediaType === 'movie'))
-        .reduce((sum, m) => sum + (m.duration || 0), 0);
-
-    // TV Logic
-    const tvEntries = filteredMovies.filter(m => m.mediaType === 'tv');
-    
-    // Deduplicate TV shows by title for the count
-    const uniqueTvTitles = new Set(tvEntries.map(m => m.title.trim()));
-    const tvCount = uniqueTvTitles.size;
-
-    // TV Progress & Duration (Deduplicated by title)
-    // We need to calculate total watched episodes AND total duration
-    const tvCalcMap = new Map<string, { maxEp: number, duration: number }>();
+    const movieCount = filteredMovies.filter(m => m.title.mediaType === 'movie').length;
+    const tvCount = filteredMovies.filter(m => m.title.mediaType === 'tv').length;
     
-    tvEntries.forEach(m => {
-      const title = m.title.trim();
-      const ep = m.currentEpisode || 0;
-      const dur = m.duration || 0;
-      
-      const existing = tvCalcMap.get(title) || { maxEp: 0, duration: 0 };
-      tvCalcMap.set(title, {
-          maxEp: Math.max(existing.maxEp, ep),
-          // Use the duration from the record if available, otherwise keep existing
-          duration: dur || existing.duration
+    // Movie Duration: every viewing in the period counts
+    const movieDuration = filteredLogs
+        .filter(({ entry }) => entry.title.mediaType === 'movie')
+        .reduce((sum, { entry }) => sum + (entry.title.duration || 0), 0);
+
+    // TV Progress & Duration: distinct episodes watched per title in the period,
+    // keyed by season so episode 1 of season 2 is not mistaken for episode 1 of season 1
+    const tvEpisodes = new Map<string, Map<string, number>>();
+    filteredLogs
+      .filter(({ entry }) => entry.title.mediaType === 'tv')
+      .forEach(({ entry, log }) => {
+        const episodes = tvEpisodes.get(entry.title.id) || new Map<string, number>();
+        const season = logSeason(log);
+        const runtime = episodeDuration(entry.title, season);
+        logEpisodes(log).forEach(ep => episodes.set(`${season}:${ep}`, runtime));
+        tvEpisodes.set(entry.title.id, episodes);
       });
-    });
 
-    const totalEpisodesWatched = Array.from(tvCalcMap.values()).reduce((sum, item) => sum + item.maxEp, 0);
-    const tvDuration = Array.from(tvCalcMap.values()).reduce((sum, item) => sum + (item.maxEp * item.duration), 0);
+    const totalEpisodesWatched = Array.from(tvEpisodes.values()).reduce((sum, episodes) => sum + episodes.size, 0);
+    const tvDuration = Array.from(tvEpisodes.values())
+      .reduce((sum, episodes) => sum + Array.from(episodes.values()).reduce((a, b) => a + b, 0), 0);
 
     // Total Duration formatting
     const totalMinutes = movieDuration + tvDuration;
@@ -136,7 +145,9 @@ export const Stats: React.FC<StatsProps> = ({ movies }) => {
     const mins = totalMinutes % 60;
     const totalDurationFormatted = { hours, minutes: mins };
 
-    // Trend Data (Timeline)
+    // Trend Data (Timeline): each viewing counts once, or once per episode for TV logs,
+    // so episodes land on the day they were actually watched
+    const viewings = (log: WatchLog) => Math.max(1, logEpisodes(log).length);
     let trendMap = new Map<string, number>();
     let trendFormat: { label: string, key: string }[] = [];
 
@@ -147,24 +158,24 @@ export const Stats: React.FC<StatsProps> = ({ movies }) => {
         for (let i = 1; i <= daysInMonth; i++) {
             trendMap.set(i.toString(), 0);
         }
-        filteredMovies.forEach(mov => {
-            const d = new Date(mov.addedAt);
-            trendMap.set(d.getDate().toString(), (trendMap.get(d.getDate().toString()) || 0) + 1);
+        filteredLogs.forEach(({ log }) => {
+            const d = new Date(log.watchedAt);
+            trendMap.set(d.getDate().toString(), (trendMap.get(d.getDate().toString()) || 0) + viewings(log));
         });
         trendFormat = Array.from(trendMap.keys()).map(k => ({ label: `${k}日`, key: k }));
     } else if (timeFrame === 'year') {
         // Monthly trend
         for (let i = 1; i <= 12; i++) trendMap.set(i.toString(), 0);
-        filteredMovies.forEach(mov => {
-            const d = new Date(mov.addedAt);
-            trendMap.set((d.getMonth() + 1).toString(), (trendMap.get((d.getMonth() + 1).toString()) || 0) + 1);
+        filteredLogs.forEach(({ log }) => {
+            const d = new Date(log.watchedAt);
+            trendMap.set((d.getMonth() + 1).toString(), (trendMap.get((d.getMonth() + 1).toString()) || 0) + viewings(log));
         });
         trendFormat = Array.from(trendMap.keys()).map(k => ({ label: `${k}月`, key: k }));
     } else {
         // Yearly trend
-        filteredMovies.forEach(mov => {
-            const y = new Date(mov.addedAt).getFullYear().toString();
-            trendMap.set(y, (trendMap.get(y) || 0) + 1);
+        filteredLogs.forEach(({ log }) => {
+            const y = new Date(log.watchedAt).getFullYear().toString();
+            trendMap.set(y, (trendMap.get(y) || 0) + viewings(log));
         });
         // Sort years
         const sortedYears = Array.from(trendMap.keys()).sort();
@@ -178,7 +189,7 @@ export const Stats: React.FC<StatsProps> = ({ movies }) => {
 
     // Genre Data
     const genreCounts: Record<string, number> = {};
-    filteredMovies.forEach(m => {
+    filteredMovies.forEach(({ title: m }) => {
         if (!m.genre) {
             genreCounts['未知'] = (genreCounts['未知'] || 0) + 1;
             return;
@@ -195,18 +206,56 @@ export const Stats: React.FC<StatsProps> = ({ movies }) => {
         .sort((a, b) => b.value - a.value)
         .slice(0, 8); // Top 8 genres
 
+    // Tag Data: how many titles carry each tag, and how they were rated
+    const tagStats = new Map<string, { value: number, ratingSum: number, rated: number }>();
+    filteredMovies.forEach(e => {
+        (e.title.tags || []).forEach(tag => {
+            const stat = tagStats.get(tag) || { value: 0, ratingSum: 0, rated: 0 };
+            stat.value++;
+            if (e.rating > 0) {
+                stat.ratingSum += e.rating;
+                stat.rated++;
+            }
+            tagStats.set(tag, stat);
+        });
+    });
+    const tagData = Array.from(tagStats, ([name, stat]) => ({
+            name,
+            value: stat.value,
+            avgRating: stat.rated > 0 ? (stat.ratingSum / stat.rated).toFixed(1) : null,
+        }))
+        .sort((a, b) => b.value - a.value)
+        .slice(0, 10); // Top 10 tags
+
+    // Rewatches: repeat viewings that happened in the period
+    const rewatchByTitle = new Map<string, RewatchInfo>(filteredMovies.map(e => [e.title.id, rewatchInfo(e)]));
+    const rewatchCount = filteredLogs.filter(({ entry, log }) => rewatchByTitle.get(entry.title.id)?.rewatchLogIds.has(log.id)).length;
+
+    // Rating drift between the first and latest rated viewing
+    const drifts = filteredMovies
+        .map(e => ({ entry: e, drift: rewatchByTitle.get(e.title.id)?.ratingDrift }))
+        .filter((d): d is { entry: LibraryEntry, drift: { first: number, latest: number } } => !!d.drift);
+    const avgDrift = drifts.length > 0
+        ? (drifts.reduce((sum, d) => sum + d.drift.latest - d.drift.first, 0) / drifts.length).toFixed(1)
+        : null;
+    const driftData = drifts
+        .filter(d => d.drift.latest !== d.drift.first)
+        .map(d => ({ name: d.entry.title.title, first: d.drift.first, latest: d.drift.latest, change: d.drift.latest - d.drift.first }))
+        .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+        .slice(0, 8);
+
     return { 
       total, movieCount, tvCount, totalEpisodesWatched, totalDurationFormatted, avgRating, 
-      statusData, ratingData, trendData, genreData 
+      statusData, ratingData, trendData, genreData, tagData, rewatchCount, avgDrift, driftData 
     };
-  }, [filteredMovies, timeFrame, selectedMonth, selectedYear]);
+  }, [filteredMovies, filteredLogs, timeFrame, selectedMonth, selectedYear]);
 
   const CHART_COLORS = [
     '#6366f1', '#10b981', '#f59e0b', '#ec4899', '#3b82f6', '#8b5cf6', 
     '#f43f5e', '#06b6d4', '#84cc16', '#d946ef', '#f97316', '#14b8a6',
   ];
 
-  if (movies.length === 0) return null;
+  if (entries.length === 0) return null;
 
   return (
     <div className="space-y-4 sm:space-y-6 mb-6 sm:mb-8">
@@ -446,6 +495,78 @@ export const Stats: React.FC<StatsProps> = ({ movies }) => {
             </div>
         </div>
 
+        {/* Chart F: Rewatches & Rating Drift */}
+        <div className="bg-slate-800 p-3 sm:p-4 rounded-xl border border-slate-700 shadow-lg min-h-[250px] md:col-span-2">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <div className="flex items-center gap-2">
+                    <RotateCcw size={16} className="text-pink-400" />
+                    <h3 className="text-sm font-medium text-slate-300">重看与评分变化</h3>
+                </div>
+                <div className="flex gap-4 text-xs text-slate-400">
+                    <span>重看 <span className="text-pink-400 font-bold text-sm">{rewatchCount}</span> 次</span>
+                    {avgDrift !== null && (
+                        <span>平均评分变化 <span className={`font-bold text-sm ${Number(avgDrift) >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{Number(avgDrift) > 0 ? '+' : ''}{avgDrift}</span></span>
+                    )}
+                </div>
+            </div>
+            {driftData.length > 0 ? (
+                <div className="h-[200px] w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart layout="vertical" data={driftData} margin={{ top: 5, right: 30, left: 10, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#334155" horizontal={false} />
+                            <XAxis type="number" stroke="#94a3b8" tick={{fontSize: 11}} axisLine={false} tickLine={false} allowDecimals={false} />
+                            <YAxis dataKey="name" type="category" stroke="#94a3b8" tick={{fontSize: 11}} width={90} axisLine={false} tickLine={false} />
+                            <Tooltip 
+                                cursor={{fill: '#334155'}}
+                                contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px', color: '#fff' }}
+                                formatter={(value: number, _name, item) => [`${item.payload.first}★ → ${item.payload.latest}★ (${value > 0 ? '+' : ''}${value})`, '评分变化']}
+                            />
+                            <Bar dataKey="change" radius={[0, 4, 4, 0]} barSize={12}>
+                                {driftData.map((d, index) => (
+                                    <Cell key={`cell-${index}`} fill={d.change > 0 ? '#10b981' : '#f43f5e'} />
+                                ))}
+                            </Bar>
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+            ) : (
+                <div className="h-[120px] flex items-center justify-center text-xs text-slate-500">
+                    多次评分的作品会在这里显示评分变化
+                </div>
+            )}
+        </div>
+
+        {/* Chart G: Tags */}
+        <div className="bg-slate-800 p-3 sm:p-4 rounded-xl border border-slate-700 shadow-lg min-h-[250px] md:col-span-2">
+            <div className="flex items-center gap-2 mb-4">
+                <Tag size={16} className="text-cyan-400" />
+                <h3 className="text-sm font-medium text-slate-300">标签 Top 10</h3>
+            </div>
+            {tagData.length > 0 ? (
+                <div className="h-[200px] w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart layout="vertical" data={tagData} margin={{ top: 5, right: 30, left: 10, bottom: 5 }}>
+                            <XAxis type="number" hide allowDecimals={false} />
+                            <YAxis dataKey="name" type="category" stroke="#94a3b8" tick={{fontSize: 11}} width={90} axisLine={false} tickLine={false} />
+                            <Tooltip 
+                                cursor={{fill: '#334155'}}
+                                contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px', color: '#fff' }}
+                                formatter={(value: number, _name, item) => [
+                                    item.payload.avgRating ? `${value} 部 · 平均 ${item.payload.avgRating}★` : `${value} 部`,
+                                    '数量',
+                                ]}
+                            />
+                            <Bar dataKey="value" fill="#06b6d4" radius={[0, 4, 4, 0]} barSize={12} />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+            ) : (
+                <div className="h-[120px] flex items-center justify-center text-xs text-slate-500">
+                    给作品加上标签后，会在这里看到各标签的数量和平均评分
+                </div>
+            )}
+        </div>
+
       </div>
     </div>
   );
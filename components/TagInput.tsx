@@ -0,0 +1,82 @@
+import React, { useMemo, useState } from 'react';
+import { MAX_TAG_LENGTH, TagCount, normalizeTags } from '../services/tags';
+import { X } from 'lucide-react';
+
+interface TagInputProps {
+  tags: string[];
+  suggestions: TagCount[]; // Tags already in use, most used first
+  onChange: (tags: string[]) => void;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export const TagInput: React.FC<TagInputProps> = ({ tags, suggestions, onChange }) => {
+  const [text, setText] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+
+  const matches = useMemo(() => {
+    const query = text.trim().toLowerCase();
+    const taken = new Set(tags.map(t => t.toLowerCase()));
+    return suggestions
+      .filter(s => !taken.has(s.name.toLowerCase()) && (!query || s.name.toLowerCase().includes(query)))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [text, tags, suggestions]);
+
+  const add = (tag: string) => {
+    onChange(normalizeTags([...tags, tag]));
+    setText('');
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1.5 w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 focus-within:ring-2 focus-within:ring-indigo-500">
+        {tags.map(tag => (
+          <span key={tag} className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-indigo-500/15 border border-indigo-500/40 text-xs text-indigo-200">
+            {tag}
+            <button type="button" onClick={() => onChange(tags.filter(t => t !== tag))} className="text-indigo-300/70 hover:text-white" title="移除标签">
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={text}
+          maxLength={MAX_TAG_LENGTH}
+          onChange={(e) => setText(e.target.value.replace(/[,，;；]/g, ''))}
+          onKeyDown={(e) => {
+            // Enter, a comma or a semicolon finishes a tag; backspace in an empty box takes the last one back
+            if (['Enter', ',', '，', ';', '；'].includes(e.key) && text.trim()) {
+              e.preventDefault();
+              add(text);
+            } else if (e.key === 'Enter') {
+              e.preventDefault();
+            } else if (e.key === 'Backspace' && !text && tags.length > 0) {
+              onChange(tags.slice(0, -1));
+            }
+          }}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => { setIsFocused(false); if (text.trim()) add(text); }}
+          className="flex-1 min-w-[6rem] bg-transparent text-white outline-none text-base sm:text-sm px-1"
+          placeholder={tags.length === 0 ? '例如: 影院、和女朋友看、Criterion' : ''}
+        />
+      </div>
+      {isFocused && matches.length > 0 && (
+        <div className="absolute z-10 mt-1 w-full bg-slate-800 border border-slate-700 rounded-lg shadow-xl overflow-hidden">
+          {matches.map(s => (
+            <button
+              key={s.name}
+              type="button"
+              // Keep focus in the input so the blur doesn't add the half-typed text
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => add(s.name)}
+              className="w-full flex justify-between px-3 py-2 text-sm text-slate-200 hover:bg-slate-700 text-left"
+            >
+              {s.name}
+              <span className="text-xs text-slate-500">{s.count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
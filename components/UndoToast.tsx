@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryNotice } from '../hooks/useLibraryHistory';
+import { Undo2, Redo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  notice: HistoryNotice | null;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const AUTO_HIDE_MS = 6000;
+
+export const UndoToast: React.FC<UndoToastProps> = ({ notice, onUndo, onRedo }) => {
+  const [visible, setVisible] = useState(false);
+
+  // Show again for every new notice, then fade out on its own
+  useEffect(() => {
+    if (!notice) return;
+    setVisible(true);
+    const timer = setTimeout(() => setVisible(false), AUTO_HIDE_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  if (!notice || !visible) return null;
+
+  const message = notice.kind === 'undo'
+    ? `已撤销：${notice.entry.label}`
+    : notice.kind === 'redo' ? `已重做：${notice.entry.label}` : notice.entry.label;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-slate-800 border border-slate-700 text-sm text-slate-200 rounded-xl shadow-2xl pl-4 pr-2 py-2 max-w-[90vw] animate-in fade-in slide-in-from-bottom-2 duration-200">
+        <span className="truncate">{message}</span>
+        {notice.kind === 'undo' ? (
+            <button onClick={onRedo} className="flex items-center gap-1 text-indigo-300 hover:text-white font-medium shrink-0 px-2 py-1 rounded hover:bg-slate-700">
+                <Redo2 size={14} /> 重做
+            </button>
+        ) : (
+            <button onClick={onUndo} className="flex items-center gap-1 text-indigo-300 hover:text-white font-medium shrink-0 px-2 py-1 rounded hover:bg-slate-700">
+                <Undo2 size={14} /> 撤销
+            </button>
+        )}
+        <button onClick={() => setVisible(false)} className="text-slate-500 hover:text-white p-1 shrink-0" title="关闭">
+            <X size={14} />
+        </button>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { MutableRefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { Library, Title } from '../types';
+import { EnrichmentJob, EnrichmentProposal, bestCandidate, createEnrichmentJob, proposeChanges } from '../services/enrichment';
+import { searchMetadata } from '../services/metadata';
+import { METADATA_PROVIDERS, providerOrder } from '../services/metadataProviders';
+import { getEnrichmentJob, getMetadataPick, getMetadataProviderId, setEnrichmentJob } from '../services/storage';
+
+// Minimum gap between lookups, to stay under provider rate limits
+const REQUEST_INTERVAL_MS = 4000;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class RetryableError extends Error {}
+
+type LookupOutcome = { kind: 'proposal', proposal: EnrichmentProposal } | { kind: 'skip' } | { kind: 'failed', message: string };
+
+// One lookup attempt. Throws RetryableError when trying again might help.
+const lookupTitle = async (title: Title): Promise<LookupOutcome> => {
+  const preferredId = await getMetadataProviderId().catch(() => null);
+
+  // A work the user already disambiguated in the form is looked up directly
+  const remembered = await getMetadataPick(title.title).catch(() => null);
+  const rememberedProvider = remembered && METADATA_PROVIDERS.find(p => p.id === remembered.providerId && p.isConfigured());
+  let provider = rememberedProvider || null;
+  let candidate = rememberedProvider ? remembered : undefined;
+
+  if (!provider || !candidate) {
+    const search = await searchMetadata(providerOrder(preferredId), title.title);
+    if (!search.provider) {
+      const message = search.failures.map(f => `${f.label}：${f.message}`).join('；') || '没有可用的信息来源';
+      if (search.failures.some(f => f.retryable)) throw new RetryableError(message);
+      return { kind: 'failed', message };
+    }
+    provider = search.provider;
+    candidate = bestCandidate(title, search.results);
+    if (!candidate) return { kind: 'failed', message: `${provider.label} 没有找到同类型的作品` };
+  }
+
+  let metadata;
+  try {
+    metadata = await provider.getDetails(candidate);
+  } catch (error) {
+    throw new RetryableError(error instanceof Error ? error.message : String(error));
+  }
+  const changes = proposeChanges(title, metadata);
+  if (changes === null) return { kind: 'failed', message: `匹配到的 “${metadata.title} (${metadata.year})” 可能不是同一部作品` };
+  if (changes.length === 0) return { kind: 'skip' };
+  return {
+    kind: 'proposal',
+    proposal: {
+      titleId: title.id,
+      titleName: title.title,
+      source: provider.label,
+      matched: { title: metadata.title, year: metadata.year },
+      changes,
+    },
+  };
+};
+
+/**
+ * Runs the batch enrichment job in the background: one lookup at a time,
+ * rate limited, with retries and backoff. The job is saved after every step.
+ */
+export const useEnrichmentJob = (libraryRef: MutableRefObject<Library>) => {
+  const [job, setJob] = useState<EnrichmentJob | null>(null);
+  const jobRef = useRef<EnrichmentJob | null>(null);
+  const loopRef = useRef(false);
+  const lastRequestRef = useRef(0);
+
+  const update = useCallback((change: (job: EnrichmentJob) => EnrichmentJob | null) => {
+    const next = jobRef.current ? change(jobRef.current) : null;
+    jobRef.current = next;
+    setJob(next);
+    setEnrichmentJob(next).catch(err => console.error("Failed to save enrichment job", err));
+  }, []);
+
+  const run = useCallback(async () => {
+    if (loopRef.current) return;
+    loopRef.current = true;
+    try {
+      while (jobRef.current?.status === 'running' && jobRef.current.queue.length > 0) {
+        const titleId = jobRef.current.queue[0];
+        const title = libraryRef.current.titles.find(t => t.id === titleId);
+        const done = (change: (job: EnrichmentJob) => EnrichmentJob) =>
+          update(j => change({ ...j, queue: j.queue.filter(id => id !== titleId) }));
+
+        if (!title) {
+          done(j => ({ ...j, skipped: j.skipped + 1 }));
+          continue;
+        }
+
+        let outcome: LookupOutcome | null = null;
+        for (let attempt = 1; attempt <= MAX_ATTEMPTS && !outcome; attempt++) {
+          await sleep(Math.max(0, lastRequestRef.current + REQUEST_INTERVAL_MS - Date.now()));
+          if (jobRef.current?.status !== 'running') break;
+          lastRequestRef.current = Date.now();
+          try {
+            outcome = await lookupTitle(title);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (!(error instanceof RetryableError) || attempt === MAX_ATTEMPTS) outcome = { kind: 'failed', message };
+            else await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+          }
+        }
+        if (!outcome) break; // Paused mid-title; it stays at the front of the queue
+
+        const result = outcome;
+        if (result.kind === 'proposal') done(j => ({ ...j, proposals: [...j.proposals, result.proposal] }));
+        else if (result.kind === 'skip') done(j => ({ ...j, skipped: j.skipped + 1 }));
+        else done(j => ({ ...j, failures: [...j.failures, { titleId, titleName: title.title, message: result.message }] }));
+      }
+      if (jobRef.current?.status === 'running' && jobRef.current.queue.length === 0) {
+        update(j => ({ ...j, status: 'finished' }));
+      }
+    } finally {
+      loopRef.current = false;
+    }
+  }, [libraryRef, update]);
+
+  // A job interrupted by a reload comes back paused, waiting to be resumed
+  useEffect(() => {
+    getEnrichmentJob()
+      .then(saved => {
+        if (!saved || jobRef.current) return;
+        jobRef.current = saved.status === 'running' ? { ...saved, status: 'paused' } : saved;
+        setJob(jobRef.current);
+      })
+      .catch(err => console.error("Failed to load enrichment job", err));
+  }, []);
+
+  const start = useCallback((titleIds: string[]) => {
+    const next = createEnrichmentJob(titleIds);
+    jobRef.current = next;
+    setJob(next);
+    setEnrichmentJob(next).catch(err => console.error("Failed to save enrichment job", err));
+    run();
+  }, [run]);
+
+  const pause = useCallback(() => update(j => ({ ...j, status: j.status === 'running' ? 'paused' : j.status })), [update]);
+
+  const resume = useCallback(() => {
+    update(j => ({ ...j, status: j.queue.length > 0 ? 'running' : 'finished' }));
+    run();
+  }, [run, update]);
+
+  /** Puts failed titles back in the queue and runs them again. */
+  const retryFailures = useCallback(() => {
+    update(j => ({ ...j, status: 'running', queue: [...j.queue, ...j.failures.map(f => f.titleId)], failures: [] }));
+    run();
+  }, [run, update]);
+
+  /** Marks a proposal as handled, whether its changes were applied or not. */
+  const resolveProposal = useCallback((titleId: string) => {
+    update(j => ({ ...j, proposals: j.proposals.filter(p => p.titleId !== titleId), reviewed: j.reviewed + 1 }));
+  }, [update]);
+
+  const discard = useCallback(() => update(() => null), [update]);
+
+  return { job, start, pause, resume, retryFailures, resolveProposal, discard };
+};
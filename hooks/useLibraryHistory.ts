@@ -0,0 +1,82 @@
+import { useCallback, useReducer } from 'react';
+import { Library } from '../types';
+import { EMPTY_HISTORY, HistoryEntry, HistoryState, applyHistoryEntry, diffLibraries, pushHistory } from '../services/history';
+
+// What happened last, for the undo toast
+export interface HistoryNotice {
+  kind: 'apply' | 'undo' | 'redo';
+  entry: HistoryEntry;
+}
+
+interface LibraryState {
+  library: Library;
+  history: HistoryState;
+  notice: HistoryNotice | null;
+}
+
+type LibraryAction =
+  | { type: 'load', library: Library, history: HistoryState }
+  | { type: 'apply', label: string, update: (prev: Library) => Library }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const reducer = (state: LibraryState, action: LibraryAction): LibraryState => {
+  const { past, future } = state.history;
+  switch (action.type) {
+    case 'load':
+      return { library: action.library, history: action.history, notice: null };
+    case 'apply': {
+      const next = action.update(state.library);
+      const entry = diffLibraries(state.library, next, action.label);
+      if (!entry) return state;
+      return { library: next, history: pushHistory(state.history, entry), notice: { kind: 'apply', entry } };
+    }
+    case 'undo': {
+      const entry = past[past.length - 1];
+      if (!entry) return state;
+      return {
+        library: applyHistoryEntry(state.library, entry, 'undo'),
+        history: { past: past.slice(0, -1), future: [entry, ...future] },
+        notice: { kind: 'undo', entry },
+      };
+    }
+    case 'redo': {
+      const entry = future[0];
+      if (!entry) return state;
+      return {
+        library: applyHistoryEntry(state.library, entry, 'redo'),
+        history: { past: [...past, entry], future: future.slice(1) },
+        notice: { kind: 'redo', entry },
+      };
+    }
+  }
+};
+
+/**
+ * Library state where every mutation goes through `apply` and is recorded as
+ * an undoable history entry.
+ */
+export const useLibraryHistory = () => {
+  const [state, dispatch] = useReducer(reducer, {
+    library: { titles: [], logs: [] },
+    history: EMPTY_HISTORY,
+    notice: null,
+  });
+
+  const load = useCallback((library: Library, history: HistoryState) => dispatch({ type: 'load', library, history }), []);
+  const apply = useCallback((label: string, update: (prev: Library) => Library) => dispatch({ type: 'apply', label, update }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  return {
+    library: state.library,
+    history: state.history,
+    notice: state.notice,
+    canUndo: state.history.past.length > 0,
+    canRedo: state.history.future.length > 0,
+    load,
+    apply,
+    undo,
+    redo,
+  };
+};
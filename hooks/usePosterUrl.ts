@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { getPoster } from '../services/storage';
+
+/**
+ * Resolves a poster id to an object URL for <img src>. The URL is revoked when
+ * the id changes or the component unmounts.
+ */
+export const usePosterUrl = (posterId?: string): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!posterId) {
+      setUrl(null);
+      return;
+    }
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    getPoster(posterId)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(err => console.error("Failed to load poster", err));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [posterId]);
+
+  return url;
+};
@@ -0,0 +1,12 @@
+import { useMemo, useRef } from 'react';
+import { LibraryEntry } from '../types';
+import { SearchIndex, createSearchIndex, updateSearchIndex } from '../services/searchIndex';
+
+/** A search index that follows the entries, reindexing only the ones whose text changed. */
+export const useSearchIndex = (entries: LibraryEntry[]): SearchIndex => {
+  const previous = useRef<SearchIndex>(createSearchIndex());
+  return useMemo(() => {
+    previous.current = updateSearchIndex(previous.current, entries);
+    return previous.current;
+  }, [entries]);
+};
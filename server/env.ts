@@ -0,0 +1,20 @@
+import fs from "node:fs";
+
+/**
+ * Loads KEY=value lines from the same files Vite reads. As in Vite, later
+ * files override earlier ones (.env.local wins over .env), and variables
+ * already set in the environment win over both.
+ */
+export const loadEnvFiles = (files: string[] = ['.env', '.env.local']) => {
+  const values: Record<string, string> = {};
+  files.forEach(file => {
+    if (!fs.existsSync(file)) return;
+    fs.readFileSync(file, 'utf8').split(/\r?\n/).forEach(line => {
+      const match = line.match(/^\s*(?:export\s+)?([\w.]+)\s*=\s*(.*?)\s*$/);
+      if (match) values[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    });
+  });
+  Object.entries(values).forEach(([key, value]) => {
+    if (!(key in process.env)) process.env[key] = value;
+  });
+};
@@ -0,0 +1,224 @@
+// API proxy for Gemini and TMDB. Holds the keys, validates requests, rate
+// limits each client and forwards upstream. In production it also serves the built app
+// from dist/; in development Vite proxies /api here (see vite.config.ts).
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import { loadEnvFiles } from "./env";
+import { createGeminiClient } from "./gemini";
+import { RateLimitResult, createRateLimiter } from "./rateLimit";
+import { createTmdbClient } from "./tmdb";
+import {
+  MAX_BODY_BYTES, RequestError, parseMetadataRequest, parseRecommendationRequest, parseReviewRequest, parseSearchRequest, parseTmdbRequest,
+} from "./validation";
+
+loadEnvFiles();
+
+const PORT = Number(process.env.API_PORT) || 8787;
+const API_KEY = process.env.GEMINI_API_KEY || '';
+const BASE_URL = process.env.GEMINI_BASE_URL || undefined;
+const TMDB_API_KEY = process.env.TMDB_API_KEY || '';
+const TMDB_BASE_URL = process.env.TMDB_BASE_URL || undefined;
+// Requests per client per minute, across the Gemini routes
+const RATE_LIMIT = Number(process.env.API_RATE_LIMIT) || 20;
+// TMDB lookups are cheap and a search is followed by a details request, so they get their own budget
+const TMDB_RATE_LIMIT = Number(process.env.TMDB_RATE_LIMIT) || 60;
+// Behind a reverse proxy the client address comes from X-Forwarded-For
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+const STATIC_DIR = path.resolve('dist');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+// A mock upstream needs no real key
+const gemini = API_KEY || BASE_URL ? createGeminiClient({ apiKey: API_KEY || 'mock', baseUrl: BASE_URL }) : null;
+const tmdb = TMDB_API_KEY ? createTmdbClient({ apiKey: TMDB_API_KEY, baseUrl: TMDB_BASE_URL }) : null;
+const rateLimit = createRateLimiter({ limit: RATE_LIMIT, windowMs: 60 * 1000 });
+const tmdbRateLimit = createRateLimiter({ limit: TMDB_RATE_LIMIT, windowMs: 60 * 1000 });
+
+const clientId = (req: http.IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = (req: http.IncomingMessage, maxBytes: number): Promise<unknown> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      // Drain the rest without keeping it, so the 413 still reaches the client
+      req.off('data', onData);
+      req.unpipe();
+      req.resume();
+      reject(new RequestError('请求体过大', 413));
+      return;
+    }
+    chunks.push(chunk);
+  };
+  req.on('data', onData);
+  req.on('end', () => {
+    if (size > maxBytes) return;
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new RequestError('请求体不是有效的 JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const checkRateLimit = (res: http.ServerResponse, limit: RateLimitResult): boolean => {
+  if (limit.allowed) return true;
+  const seconds = Math.ceil(limit.retryAfterMs / 1000);
+  sendJson(res, 429, { error: `请求过于频繁，请 ${seconds} 秒后再试` }, { 'Retry-After': String(seconds) });
+  return false;
+};
+
+const handleTmdb = async (req: http.IncomingMessage, res: http.ServerResponse, route: string, search: URLSearchParams) => {
+  if (req.method !== 'GET') {
+    sendJson(res, 405, { error: '只支持 GET' }, { Allow: 'GET' });
+    return;
+  }
+  if (!checkRateLimit(res, tmdbRateLimit(clientId(req)))) return;
+  if (!tmdb) {
+    sendJson(res, 503, { error: '服务器未配置 TMDB_API_KEY' });
+    return;
+  }
+  const { status, body } = await tmdb(parseTmdbRequest(route.slice('/api/tmdb'.length), search));
+  sendJson(res, status, body);
+};
+
+const handleApi = async (req: http.IncomingMessage, res: http.ServerResponse, route: string, search: URLSearchParams) => {
+  if (route === '/api/status' && req.method === 'GET') {
+    sendJson(res, 200, { gemini: !!gemini, tmdb: !!tmdb });
+    return;
+  }
+  if (route.startsWith('/api/tmdb/')) {
+    await handleTmdb(req, res, route, search);
+    return;
+  }
+  if (!['/api/metadata', '/api/review', '/api/recommendations', '/api/search'].includes(route)) {
+    sendJson(res, 404, { error: '接口不存在' });
+    return;
+  }
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: '只支持 POST' }, { Allow: 'POST' });
+    return;
+  }
+
+  if (!checkRateLimit(res, rateLimit(clientId(req)))) return;
+  if (!gemini) {
+    sendJson(res, 503, { error: '服务器未配置 GEMINI_API_KEY' });
+    return;
+  }
+
+  const body = await readJson(req, MAX_BODY_BYTES[route]);
+  if (route === '/api/metadata') {
+    sendJson(res, 200, { text: await gemini.metadata(parseMetadataRequest(body)) });
+    return;
+  }
+  if (route === '/api/search') {
+    sendJson(res, 200, { text: await gemini.searchFilter(parseSearchRequest(body)) });
+    return;
+  }
+  if (route === '/api/recommendations') {
+    sendJson(res, 200, { text: await gemini.recommendations(parseRecommendationRequest(body)) });
+    return;
+  }
+
+  // Reviews stream as plain text so the form can show them as they are written
+  const request = parseReviewRequest(body);
+  const stream = gemini.review(request);
+  const first = await stream.next(); // Upstream errors still get a proper status code
+  res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store', 'X-Accel-Buffering': 'no' });
+  let closed = false;
+  res.on('close', () => { closed = true; });
+  if (!first.done) res.write(first.value);
+  for await (const chunk of stream) {
+    if (closed) break; // The user stopped or discarded it
+    res.write(chunk);
+  }
+  res.end();
+};
+
+const serveStatic = (req: http.IncomingMessage, res: http.ServerResponse, route: string) => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(route);
+  } catch {
+    res.writeHead(400).end(); // Malformed percent-encoding
+    return;
+  }
+  const file = path.join(STATIC_DIR, path.normalize(decoded).replace(/^(\.\.[/\\])+/, ''));
+  // Unknown paths fall back to the app shell
+  const target = file.startsWith(STATIC_DIR) && fs.existsSync(file) && fs.statSync(file).isFile()
+    ? file
+    : path.join(STATIC_DIR, 'index.html');
+  if (!fs.existsSync(target)) {
+    res.writeHead(404).end();
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(target)] || 'application/octet-stream' });
+  fs.createReadStream(target)
+    .on('error', error => {
+      console.error(`${req.method} ${route} failed while reading ${target}:`, error);
+      res.end();
+    })
+    .pipe(res);
+};
+
+const server = http.createServer((req, res) => {
+  let url: URL;
+  try {
+    url = new URL(req.url || '/', 'http://localhost');
+  } catch {
+    res.writeHead(400).end(); // e.g. "//[" is not a valid path
+    return;
+  }
+  const { pathname: route, searchParams } = url;
+  if (!route.startsWith('/api/')) {
+    try {
+      serveStatic(req, res, route);
+    } catch (error) {
+      // Like API errors, a failed file lookup must not take the process down
+      console.error(`${req.method} ${route} failed:`, error);
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
+    }
+    return;
+  }
+  handleApi(req, res, route, searchParams).catch(error => {
+    if (res.headersSent) {
+      // Mid-stream: the status is already out, so just cut the text short
+      console.error(`${req.method} ${route} failed while streaming:`, error);
+      res.end();
+      return;
+    }
+    if (error instanceof RequestError) {
+      // After an oversized body the connection is closed once the answer is out, rather than kept alive
+      sendJson(res, error.status, { error: error.message }, error.status === 413 ? { Connection: 'close' } : {});
+      return;
+    }
+    console.error(`${req.method} ${route} failed:`, error);
+    sendJson(res, 502, { error: route.startsWith('/api/tmdb/') ? 'TMDB 请求失败，请稍后重试' : 'Gemini 请求失败，请稍后重试' });
+  });
+});
+
+server.listen(PORT, () => {
+  const missing = [!gemini && 'GEMINI_API_KEY', !tmdb && 'TMDB_API_KEY'].filter(Boolean);
+  console.log(`API proxy listening on http://localhost:${PORT}${missing.length > 0 ? ` (${missing.join(', ')} not set)` : ''}`);
+});
@@ -0,0 +1,90 @@
+// A stand-in for the Gemini REST API, answering from services/fixtures/metadata.json.
+// Run it with `npm run mock:gemini` and start the proxy with
+// GEMINI_BASE_URL=http://localhost:8788 to work without a real API key.
+import http from "node:http";
+import fixtures from "../services/fixtures/metadata.json";
+
+const PORT = Number(process.env.MOCK_GEMINI_PORT) || 8788;
+// Simulated latency, to see loading states and request coalescing
+const DELAY_MS = Number(process.env.MOCK_GEMINI_DELAY_MS) || 300;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s\-_：:·.,，。!！?？'"]+/g, '');
+
+const candidatesFor = (query: string) => {
+  const q = normalize(query);
+  return fixtures
+    .filter(f => [f.title, f.originalTitle || '', ...(f.aliases || [])]
+      .map(normalize)
+      .some(name => name && (name.includes(q) || q.includes(name))))
+    .map(({ id, aliases, ...metadata }) => metadata);
+};
+
+const answer = (body: any): string => {
+  const prompt: string = body?.contents?.[0]?.parts?.[0]?.text || '';
+  if (prompt.startsWith('Recommend')) {
+    const excluded = prompt.match(/already have: (.*)/)?.[1].split(' | ').map(normalize) || [];
+    const recommendations = fixtures
+      .filter(f => !excluded.includes(normalize(f.title)))
+      .map(({ id, aliases, ...metadata }) => ({ ...metadata, reason: `（模拟推荐）和你喜欢的${metadata.genre}作品风格相近。` }));
+    return JSON.stringify({ recommendations });
+  }
+  if (prompt.startsWith('Turn this search')) {
+    // Just the keywords; the app's local parser shows the structured reading
+    return JSON.stringify({ text: prompt.match(/filter: "([^"]*)"/)?.[1] || '' });
+  }
+  if (body?.generationConfig?.responseMimeType === 'application/json') {
+    const query = prompt.match(/query "([^"]*)"/)?.[1] || '';
+    return JSON.stringify({ candidates: candidatesFor(query) });
+  }
+  const draft = prompt.match(/The user's draft:\n<<<([\s\S]*)>>>/)?.[1];
+  return draft
+    ? `（模拟改写）${draft}`
+    : '（模拟影评）节奏舒服，氛围到位。看完心情不错，值得一看。';
+};
+
+const responseOf = (text: string) => ({
+  candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }],
+});
+
+// Streams the answer a few characters at a time as server-sent events, like streamGenerateContent
+const streamAnswer = (res: http.ServerResponse, text: string) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  const pieces = text.match(/[\s\S]{1,6}/g) || [];
+  const next = () => {
+    const piece = pieces.shift();
+    if (piece === undefined) {
+      res.end();
+      return;
+    }
+    res.write(`data: ${JSON.stringify(responseOf(piece))}\n\n`);
+    setTimeout(next, DELAY_MS / 4);
+  };
+  next();
+};
+
+http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    const streaming = req.url?.includes(':streamGenerateContent');
+    if (req.method !== 'POST' || (!streaming && !req.url?.includes(':generateContent'))) {
+      res.writeHead(404).end();
+      return;
+    }
+    let body: unknown;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+    setTimeout(() => {
+      if (streaming) {
+        streamAnswer(res, answer(body));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(responseOf(answer(body))));
+    }, DELAY_MS);
+  });
+}).listen(PORT, () => console.log(`Mock Gemini listening on http://localhost:${PORT}`));
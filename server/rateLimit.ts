@@ -0,0 +1,29 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+/**
+ * Fixed-window limiter keyed by client: at most `limit` requests per
+ * `windowMs`. Windows are dropped once they end, so memory stays bounded by
+ * the number of clients active in the last window.
+ */
+export const createRateLimiter = ({ limit, windowMs }: { limit: number, windowMs: number }) => {
+  const windows = new Map<string, { startedAt: number, count: number }>();
+
+  const sweep = (now: number) => {
+    windows.forEach((window, client) => {
+      if (now - window.startedAt >= windowMs) windows.delete(client);
+    });
+  };
+
+  return (client: string, now: number = Date.now()): RateLimitResult => {
+    sweep(now);
+    const window = windows.get(client) || { startedAt: now, count: 0 };
+    if (window.count >= limit) {
+      return { allowed: false, retryAfterMs: window.startedAt + windowMs - now };
+    }
+    windows.set(client, { ...window, count: window.count + 1 });
+    return { allowed: true, retryAfterMs: 0 };
+  };
+};
@@ -0,0 +1,31 @@
+import { TmdbRequest } from "./validation";
+
+const DEFAULT_BASE_URL = 'https://api.themoviedb.org/3';
+
+export interface TmdbResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * The server's only way to reach TMDB, or any server speaking the same v3
+ * REST API. Only the lookups parseTmdbRequest allows get through, with the
+ * key added here so it never reaches the browser.
+ */
+export const createTmdbClient = ({ apiKey, baseUrl }: { apiKey: string, baseUrl?: string }) => {
+  const base = (baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+  // v4 read access tokens are JWTs and go in a header; v3 keys go in the query string
+  const useBearer = apiKey.startsWith('eyJ');
+
+  return async ({ path, params }: TmdbRequest): Promise<TmdbResponse> => {
+    const url = new URL(`${base}${path}`);
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    if (!useBearer) url.searchParams.set('api_key', apiKey);
+    const response = await fetch(url, {
+      headers: useBearer ? { Authorization: `Bearer ${apiKey}` } : undefined,
+    });
+    return { status: response.status, body: await response.json().catch(() => null) };
+  };
+};
+
+export type TmdbClient = ReturnType<typeof createTmdbClient>;
@@ -0,0 +1,250 @@
+import {
+  MAX_EXAMPLE_LENGTH, MAX_REVIEW_EXAMPLES, REVIEW_MODES, REVIEW_TONES, ReviewAssistRequest, ReviewMode, ReviewTone,
+} from "../services/reviewAssistant";
+import {
+  DEFAULT_RECOMMENDATION_COUNT, MAX_EXCLUDED_TITLES, MAX_TASTE_TITLES, MAX_TRAITS, RecommendationRequest, TasteTitle, TasteTrait,
+} from "../services/tasteProfile";
+import { FilterVocabulary } from "../services/smartFilter";
+import {
+  MAX_ISSUE_REPORTS, MAX_REPORTED_CANDIDATES, METADATA_ISSUE_CODES, METADATA_ISSUE_FIELDS, MetadataIssueField, MetadataIssueReport,
+} from "../services/geminiValidation";
+import { MetadataIssueCode } from "../types";
+
+export interface MetadataRequest {
+  query: string;
+  issues?: MetadataIssueReport[]; // What was wrong with the previous answer, for a corrective retry
+}
+
+export class RequestError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+  }
+}
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_DRAFT_LENGTH = 4000;
+
+const asObject = (body: unknown): Record<string, unknown> => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw new RequestError('请求体必须是 JSON 对象');
+  return body as Record<string, unknown>;
+};
+
+const requiredText = (record: Record<string, unknown>, field: string, max: number): string => {
+  const value = record[field];
+  if (typeof value !== 'string' || !value.trim()) throw new RequestError(`缺少 ${field}`);
+  if (value.length > max) throw new RequestError(`${field} 不能超过 ${max} 个字符`);
+  return value.trim();
+};
+
+const list = <T>(value: unknown, field: string, max: number, item: (value: unknown, field: string) => T): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > max) throw new RequestError(`${field} 必须是最多 ${max} 项的数组`);
+  return value.map((v, i) => item(v, `${field}[${i}]`));
+};
+
+const issueReport = (value: unknown, field: string): MetadataIssueReport => {
+  const record = asObject(value);
+  if (!METADATA_ISSUE_FIELDS.includes(record.field as MetadataIssueField)) throw new RequestError(`${field}.field 不是已知字段`);
+  if (!METADATA_ISSUE_CODES.includes(record.code as MetadataIssueCode)) throw new RequestError(`${field}.code 不是已知问题`);
+  const report: MetadataIssueReport = { field: record.field as MetadataIssueField, code: record.code as MetadataIssueCode };
+  if (record.candidate !== undefined) {
+    const candidate = record.candidate;
+    if (typeof candidate !== 'number' || !Number.isInteger(candidate) || candidate < 0 || candidate >= MAX_REPORTED_CANDIDATES) {
+      throw new RequestError(`${field}.candidate 必须是 0 到 ${MAX_REPORTED_CANDIDATES - 1} 之间的整数`);
+    }
+    report.candidate = candidate;
+  }
+  return report;
+};
+
+export const parseMetadataRequest = (body: unknown): MetadataRequest => {
+  const record = asObject(body);
+  const request: MetadataRequest = { query: requiredText(record, 'query', MAX_QUERY_LENGTH) };
+  if (record.issues !== undefined) {
+    request.issues = list(record.issues, 'issues', MAX_ISSUE_REPORTS, issueReport);
+    if (request.issues.length === 0) throw new RequestError('issues 不能为空');
+  }
+  return request;
+};
+
+const rating = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 5) {
+    throw new RequestError(`${field} 必须是 0 到 5 之间的数字`);
+  }
+  return value;
+};
+
+const optionalText = (record: Record<string, unknown>, field: string, max: number): string => {
+  const value = record[field] ?? '';
+  if (typeof value !== 'string') throw new RequestError(`${field} 必须是文本`);
+  if (value.length > max) throw new RequestError(`${field} 不能超过 ${max} 个字符`);
+  return value.trim();
+};
+
+export const parseReviewRequest = (body: unknown): ReviewAssistRequest => {
+  const record = asObject(body);
+  const mediaType = record.mediaType ?? 'movie';
+  if (mediaType !== 'movie' && mediaType !== 'tv') throw new RequestError('mediaType 必须是 movie 或 tv');
+  const mode = record.mode ?? 'write';
+  if (!REVIEW_MODES.includes(mode as ReviewMode)) throw new RequestError(`mode 必须是 ${REVIEW_MODES.join(' / ')} 之一`);
+  const tone = record.tone ?? 'mine';
+  if (!REVIEW_TONES.includes(tone as ReviewTone)) throw new RequestError(`tone 必须是 ${REVIEW_TONES.join(' / ')} 之一`);
+
+  const draft = optionalText(record, 'draft', MAX_DRAFT_LENGTH);
+  if (mode !== 'write' && !draft) throw new RequestError('这个模式需要先写下草稿');
+
+  const examples = record.examples ?? [];
+  if (!Array.isArray(examples) || examples.length > MAX_REVIEW_EXAMPLES) {
+    throw new RequestError(`examples 必须是最多 ${MAX_REVIEW_EXAMPLES} 条的数组`);
+  }
+
+  return {
+    title: requiredText(record, 'title', MAX_QUERY_LENGTH),
+    rating: rating(record.rating, 'rating'),
+    mediaType,
+    mode: mode as ReviewMode,
+    tone: tone as ReviewTone,
+    draft,
+    examples: examples.map((example, i) => {
+      const item = asObject(example);
+      return {
+        title: requiredText(item, 'title', MAX_QUERY_LENGTH),
+        rating: rating(item.rating, `examples[${i}].rating`),
+        // Slightly over the client's cut, which appends an ellipsis
+        note: requiredText(item, 'note', MAX_EXAMPLE_LENGTH + 1),
+      };
+    }),
+  };
+};
+
+const MAX_RECOMMENDATIONS = 10;
+
+const finiteNumber = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new RequestError(`${field} 必须是数字`);
+  return value;
+};
+
+const trait = (value: unknown, field: string): TasteTrait => {
+  const record = asObject(value);
+  return {
+    name: requiredText(record, 'name', MAX_QUERY_LENGTH),
+    count: finiteNumber(record.count, `${field}.count`),
+    averageRating: rating(record.averageRating, `${field}.averageRating`),
+    score: finiteNumber(record.score, `${field}.score`),
+  };
+};
+
+const tasteTitle = (value: unknown, field: string): TasteTitle => {
+  const record = asObject(value);
+  return {
+    title: requiredText(record, 'title', MAX_QUERY_LENGTH),
+    year: optionalText(record, 'year', 20),
+    rating: rating(record.rating, `${field}.rating`),
+  };
+};
+
+export const parseRecommendationRequest = (body: unknown): RecommendationRequest => {
+  const record = asObject(body);
+  const profile = asObject(record.profile);
+  const mediaTypes = asObject(profile.mediaTypes ?? { movie: 0, tv: 0 });
+  const count = record.count ?? DEFAULT_RECOMMENDATION_COUNT;
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_RECOMMENDATIONS) {
+    throw new RequestError(`count 必须是 1 到 ${MAX_RECOMMENDATIONS} 之间的整数`);
+  }
+
+  return {
+    profile: {
+      rated: finiteNumber(profile.rated, 'profile.rated'),
+      averageRating: rating(profile.averageRating, 'profile.averageRating'),
+      genres: list(profile.genres, 'profile.genres', MAX_TRAITS, trait),
+      countries: list(profile.countries, 'profile.countries', MAX_TRAITS, trait),
+      directors: list(profile.directors, 'profile.directors', MAX_TRAITS, trait),
+      mediaTypes: {
+        movie: finiteNumber(mediaTypes.movie, 'profile.mediaTypes.movie'),
+        tv: finiteNumber(mediaTypes.tv, 'profile.mediaTypes.tv'),
+      },
+      favorites: list(profile.favorites, 'profile.favorites', MAX_TASTE_TITLES, tasteTitle),
+      disliked: list(profile.disliked, 'profile.disliked', MAX_TASTE_TITLES, tasteTitle),
+    },
+    exclude: list(record.exclude, 'exclude', MAX_EXCLUDED_TITLES, (value, field) => {
+      if (typeof value !== 'string' || value.length > MAX_QUERY_LENGTH) throw new RequestError(`${field} 必须是不超过 ${MAX_QUERY_LENGTH} 个字符的文本`);
+      return value;
+    }),
+    count,
+  };
+};
+
+export interface SearchRequest {
+  query: string;
+  vocabulary: FilterVocabulary;
+  today: string; // YYYY-MM-DD in the user's time zone, for relative dates
+}
+
+const MAX_VOCABULARY = 200;
+
+const names = (value: unknown, field: string) => list(value, field, MAX_VOCABULARY, (v, f) => {
+  if (typeof v !== 'string' || v.length > MAX_QUERY_LENGTH) throw new RequestError(`${f} 必须是不超过 ${MAX_QUERY_LENGTH} 个字符的文本`);
+  return v;
+});
+
+export const parseSearchRequest = (body: unknown): SearchRequest => {
+  const record = asObject(body);
+  const vocabulary = asObject(record.vocabulary ?? {});
+  const today = requiredText(record, 'today', 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(today)) throw new RequestError('today 必须是 YYYY-MM-DD');
+  return {
+    query: requiredText(record, 'query', MAX_QUERY_LENGTH),
+    vocabulary: {
+      countries: names(vocabulary.countries, 'vocabulary.countries'),
+      genres: names(vocabulary.genres, 'vocabulary.genres'),
+      directors: names(vocabulary.directors, 'vocabulary.directors'),
+    },
+    today,
+  };
+};
+
+export interface TmdbRequest {
+  path: string; // e.g. /search/multi or /movie/603
+  params: Record<string, string>;
+}
+
+// The lookups the app's TMDB provider makes, and nothing else
+const TMDB_PATH = /^\/(search\/multi|movie\/\d+|tv\/\d+)$/;
+const TMDB_PARAMS: Record<string, (value: string) => boolean> = {
+  query: value => !!value.trim() && value.length <= MAX_QUERY_LENGTH,
+  language: value => /^[a-z]{2}(-[A-Z]{2})?$/.test(value),
+  include_adult: value => value === 'true' || value === 'false',
+  append_to_response: value => value === 'credits',
+};
+
+export const parseTmdbRequest = (path: string, search: URLSearchParams): TmdbRequest => {
+  if (!TMDB_PATH.test(path)) throw new RequestError('接口不存在', 404);
+  const params: Record<string, string> = {};
+  search.forEach((value, key) => {
+    const valid = TMDB_PARAMS[key];
+    if (!valid) throw new RequestError(`不支持的参数 ${key}`);
+    if (!valid(value)) throw new RequestError(`无效的参数 ${key}`);
+    params[key] = value;
+  });
+  if (path === '/search/multi' && !params.query) throw new RequestError('缺少 query');
+  return { path, params };
+};
+
+// --- Body size ---
+// Each route's cap follows from its field limits, so a request the parsers
+// above would accept is never refused for its size. CJK text takes 3 bytes
+// per character in UTF-8; the allowance covers a key, a number and punctuation.
+const BYTES_PER_CHAR = 3;
+const FIELD_ALLOWANCE = 100;
+const textBytes = (chars: number, fields = 1) => chars * BYTES_PER_CHAR + fields * FIELD_ALLOWANCE;
+
+export const MAX_BODY_BYTES: Record<string, number> = {
+  '/api/metadata': textBytes(MAX_QUERY_LENGTH) + MAX_ISSUE_REPORTS * FIELD_ALLOWANCE,
+  '/api/review': textBytes(MAX_QUERY_LENGTH + MAX_DRAFT_LENGTH, 6)
+    + MAX_REVIEW_EXAMPLES * textBytes(MAX_QUERY_LENGTH + MAX_EXAMPLE_LENGTH + 1, 3),
+  '/api/recommendations': 3 * MAX_TRAITS * textBytes(MAX_QUERY_LENGTH, 4)
+    + 2 * MAX_TASTE_TITLES * textBytes(MAX_QUERY_LENGTH + 20, 3)
+    + MAX_EXCLUDED_TITLES * textBytes(MAX_QUERY_LENGTH)
+    + textBytes(0, 10),
+  '/api/search': textBytes(MAX_QUERY_LENGTH + 10, 3) + 3 * MAX_VOCABULARY * textBytes(MAX_QUERY_LENGTH),
+};
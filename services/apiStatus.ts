@@ -0,0 +1,12 @@
+// Which upstream services the API proxy (server/index.ts) holds keys for.
+// Everything is assumed available until /api/status says otherwise.
+export const apiStatus = { gemini: true, tmdb: true };
+
+fetch('/api/status')
+  .then(res => res.ok ? res.json() : null)
+  .then(status => {
+    if (!status) return;
+    apiStatus.gemini = !!status.gemini;
+    apiStatus.tmdb = !!status.tmdb;
+  })
+  .catch(() => { /* Offline or no proxy; requests will report the error */ });
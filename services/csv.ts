@@ -0,0 +1,236 @@
+import { CollectionMembership, Library, MovieStatus, Season, Title, WatchLog } from "../types";
+import { formatCollections, formatTags, parseCollections, parseTags } from "./tags";
+
+// One row per watch log, with the title's columns repeated. Titles without
+// any logs (e.g. 想看) get a single row with the log columns left empty.
+const TITLE_COLUMNS: [string, keyof Title][] = [
+  ['作品ID', 'id'],
+  ['标题', 'title'],
+  ['年份', 'year'],
+  ['国家/地区', 'country'],
+  ['类型', 'genre'],
+  ['导演', 'director'],
+  ['状态', 'status'],
+  ['媒体类型', 'mediaType'],
+  ['分季', 'seasons'],
+  ['时长', 'duration'],
+  ['标签', 'tags'],
+  ['合集', 'collections'],
+  ['添加时间', 'addedAt'],
+  ['最后更新', 'lastUpdated'],
+];
+
+const LOG_COLUMNS: [string, keyof WatchLog][] = [
+  ['记录ID', 'id'],
+  ['观看日期', 'watchedAt'],
+  ['季', 'season'],
+  ['起始集', 'episodeFrom'],
+  ['结束集', 'episodeTo'],
+  ['评分', 'rating'],
+  ['笔记', 'note'],
+  ['地点', 'location'],
+  ['平台', 'platform'],
+  ['记录更新时间', 'lastUpdated'],
+];
+
+// Headers written by builds before titles and logs were split
+const LEGACY_HEADER_MAP: Record<string, string> = {
+  'ID': 'id',
+  '标题': 'title',
+  '年份': 'year',
+  '国家/地区': 'country',
+  '类型': 'genre',
+  '导演': 'director',
+  '评分': 'rating',
+  '状态': 'status',
+  '评价': 'review',
+  '添加时间': 'addedAt',
+  '最后更新': 'lastUpdated',
+  '媒体类型': 'mediaType',
+  '当前集数': 'currentEpisode',
+  '总集数': 'totalEpisodes',
+  '时长': 'duration'
+};
+
+const NUMERIC_KEYS = new Set(['rating', 'currentEpisode', 'totalEpisodes', 'duration', 'season', 'episodeFrom', 'episodeTo']);
+const DATE_KEYS = new Set(['addedAt', 'lastUpdated', 'watchedAt']);
+
+export const escapeCsv = (value: string | number | undefined) => {
+  if (value === undefined || value === null || value === '') return '';
+  const stringValue = String(value);
+  if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
+    return `"${stringValue.replace(/"/g, '""')}"`;
+  }
+  return stringValue;
+};
+
+// CSV Parsing Helper: Handles quoted strings correctly
+export const parseCSVLine = (text: string) => {
+  const result = [];
+  let current = '';
+  let inQuote = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      if (inQuote && text[i + 1] === '"') {
+        current += '"';
+        i++; // Skip next quote
+      } else {
+        inQuote = !inQuote;
+      }
+    } else if (char === ',' && !inQuote) {
+      result.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  result.push(current);
+  return result;
+};
+
+/**
+ * Splits CSV content into rows of cells. Unlike splitting on newlines first,
+ * this keeps quoted multi-line notes in one row.
+ */
+export const parseCSV = (content: string): string[][] => {
+  const text = content.charCodeAt(0) === 0xFEFF ? content.slice(1) : content; // Remove BOM if present
+  const rows: string[] = [];
+  let current = '';
+  let inQuote = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') inQuote = !inQuote;
+    if ((char === '\n' || char === '\r') && !inQuote) {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  rows.push(current);
+  return rows.filter(line => line.trim() !== '').map(parseCSVLine);
+};
+
+// Seasons are written as "季:集数[:单集时长[:状态]]" separated by semicolons, e.g. "1:10:45; 2:8::弃坑"
+const formatSeasons = (seasons: Season[]) => seasons
+  .map(s => [s.number, s.episodeCount, s.episodeDuration ?? '', s.status ?? ''].join(':').replace(/:+$/, ''))
+  .join('; ');
+
+const parseSeasons = (value: string): Season[] => value
+  .split(';')
+  .map(part => part.trim().split(':'))
+  .filter(([number]) => parseInt(number) > 0)
+  .map(([number, count, runtime, status]) => {
+    const season: Season = { number: parseInt(number), episodeCount: parseInt(count) || 0 };
+    if (parseInt(runtime) > 0) season.episodeDuration = parseInt(runtime);
+    if ((Object.values(MovieStatus) as string[]).includes(status)) season.status = status as MovieStatus;
+    return season;
+  });
+
+const formatCell = (key: string, value: unknown): string | number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (key === 'seasons') return formatSeasons(value as Season[]);
+  if (key === 'tags') return formatTags(value as string[]);
+  if (key === 'collections') return formatCollections(value as CollectionMembership[]);
+  if (DATE_KEYS.has(key)) return new Date(value as number).toLocaleString('zh-CN');
+  if (key === 'mediaType') return value === 'tv' ? '电视剧' : '电影';
+  return value as string | number;
+};
+
+const parseCell = (key: string, value: string): unknown => {
+  const val = value.trim();
+  if (NUMERIC_KEYS.has(key)) return val ? parseFloat(val) : undefined;
+  if (DATE_KEYS.has(key)) {
+    // Unreadable dates are left out; callers pick a fallback from the record itself
+    const ts = Date.parse(val);
+    return isNaN(ts) ? undefined : ts;
+  }
+  if (key === 'mediaType') return val === '电视剧' ? 'tv' : 'movie';
+  if (key === 'seasons') return parseSeasons(val);
+  if (key === 'tags') return parseTags(val);
+  if (key === 'collections') return parseCollections(val);
+  return val;
+};
+
+export const libraryToCSV = (library: Library) => {
+  const headers = [...TITLE_COLUMNS, ...LOG_COLUMNS].map(([header]) => header);
+  const logsByTitle = new Map<string, WatchLog[]>();
+  library.logs.forEach(l => logsByTitle.set(l.titleId, [...(logsByTitle.get(l.titleId) || []), l]));
+
+  const rows: string[] = [];
+  library.titles.forEach(t => {
+    const titleCells = TITLE_COLUMNS.map(([, key]) => escapeCsv(formatCell(key, t[key])));
+    const logs = (logsByTitle.get(t.id) || []).sort((a, b) => a.watchedAt - b.watchedAt);
+    if (logs.length === 0) {
+      rows.push([...titleCells, ...LOG_COLUMNS.map(() => '')].join(','));
+    }
+    logs.forEach(l => {
+      const logCells = LOG_COLUMNS.map(([, key]) => escapeCsv(formatCell(key, l[key])));
+      rows.push([...titleCells, ...logCells].join(','));
+    });
+  });
+
+  return [headers.join(','), ...rows].join('\n');
+};
+
+/**
+ * Parses a CSV export into a raw library document for migrateLibrary. Files
+ * from older builds (one row per viewing, no 作品ID column) come back as a
+ * bare array so the regular migrations merge them into titles.
+ */
+export const parseLibraryCSV = (content: string): unknown => {
+  const [headerRow, ...dataRows] = parseCSV(content);
+  if (!headerRow) return [];
+  const rows = dataRows.filter(values => values.length >= 2); // Skip empty rows
+
+  if (!headerRow.includes('作品ID')) {
+    const keyIndex: Record<number, string> = {};
+    headerRow.forEach((h, i) => {
+      if (LEGACY_HEADER_MAP[h]) keyIndex[i] = LEGACY_HEADER_MAP[h];
+    });
+    return rows.map(values => {
+      const movie: any = { posterColor: '#4f46e5' }; // Default color if missing
+      Object.entries(keyIndex).forEach(([idx, key]) => {
+        movie[key] = parseCell(key, values[Number(idx)] || '');
+      });
+      if (!movie.id) movie.id = crypto.randomUUID();
+      return movie;
+    });
+  }
+
+  const indexOf = (header: string) => headerRow.indexOf(header);
+  // Exports from before seasons have a flat 总集数 column, which the v5 migration converts
+  const version = headerRow.includes('标签') || headerRow.includes('合集') ? 6 : headerRow.includes('分季') ? 5 : 4;
+  const legacyTotalIdx = indexOf('总集数');
+  const titles = new Map<string, any>();
+  const logs: any[] = [];
+
+  rows.forEach(values => {
+    const title: any = { posterColor: '#4f46e5' };
+    TITLE_COLUMNS.forEach(([header, key]) => {
+      const idx = indexOf(header);
+      if (idx >= 0 && values[idx] !== undefined && values[idx].trim() !== '') title[key] = parseCell(key, values[idx]);
+    });
+    if (!title.id) return;
+    if (title.year === undefined) title.year = '';
+    if (title.genre === undefined) title.genre = '';
+    // Never default to now: an old file would then beat newer local edits on import
+    if (title.lastUpdated === undefined) title.lastUpdated = title.addedAt ?? 0;
+    if (title.addedAt === undefined) title.addedAt = Date.now();
+    if (version === 4 && legacyTotalIdx >= 0) title.totalEpisodes = parseCell('totalEpisodes', values[legacyTotalIdx] || '');
+    if (!titles.has(title.id)) titles.set(title.id, title);
+
+    const log: any = { titleId: title.id, note: '', rating: 0 };
+    LOG_COLUMNS.forEach(([header, key]) => {
+      const idx = indexOf(header);
+      if (idx >= 0 && values[idx] !== undefined && values[idx].trim() !== '') log[key] = parseCell(key, values[idx]);
+    });
+    if (log.lastUpdated === undefined) log.lastUpdated = log.watchedAt ?? 0;
+    if (log.id) logs.push(log);
+  });
+
+  // Later migrations take it from the version this column layout was introduced with
+  return { schemaVersion: version, titles: Array.from(titles.values()), logs };
+};
@@ -0,0 +1,84 @@
+// Thin promise wrappers around IndexedDB. Keep this free of app logic so the
+// repository in storage.ts stays readable.
+
+const DB_NAME = 'cinelog';
+const DB_VERSION = 3;
+
+export const STORES = {
+  // Legacy per-viewing records (schema v3). Emptied once migrated to titles/logs.
+  movies: 'movies',
+  titles: 'titles',
+  logs: 'logs',
+  posters: 'posters',
+  quarantine: 'quarantine',
+  meta: 'meta',
+  // Provider responses, keyed by provider and query or id (see metadataCache.ts)
+  metadataCache: 'metadataCache',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('当前浏览器不支持 IndexedDB'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.movies)) db.createObjectStore(STORES.movies, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(STORES.titles)) db.createObjectStore(STORES.titles, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(STORES.logs)) {
+        db.createObjectStore(STORES.logs, { keyPath: 'id' }).createIndex('titleId', 'titleId');
+      }
+      if (!db.objectStoreNames.contains(STORES.posters)) db.createObjectStore(STORES.posters, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(STORES.quarantine)) db.createObjectStore(STORES.quarantine, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(STORES.meta)) db.createObjectStore(STORES.meta, { keyPath: 'key' });
+      if (!db.objectStoreNames.contains(STORES.metadataCache)) db.createObjectStore(STORES.metadataCache, { keyPath: 'key' });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onblocked = () => console.warn("IndexedDB upgrade blocked by another open tab");
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Runs `work` inside a single transaction and resolves once it commits, so a
+ * failed write (e.g. QuotaExceededError) rejects instead of vanishing.
+ */
+export const runTransaction = async <T>(
+  storeNames: StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => T | Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('事务已中止'));
+  });
+  const result = await work(tx);
+  await done;
+  return result;
+};
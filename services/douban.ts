@@ -0,0 +1,231 @@
+import { MovieStatus } from "../types";
+import { parseCSV } from "./csv";
+import { SCHEMA_VERSION } from "./schema";
+import { normalizeTags } from "./tags";
+
+// One marked item from a Douban collection, whatever the export looked like
+interface DoubanItem {
+  subjectId?: string;
+  title: string;
+  year: string;
+  country: string;
+  genre: string;
+  director: string;
+  status: MovieStatus;
+  mediaType: 'movie' | 'tv';
+  episodes?: number;
+  rating: number; // 0 to 5
+  tags: string[];
+  comment: string;
+  markedAt?: number;
+}
+
+// Column names used by the common export tools (豆伴, doumark, ...) and Douban's own pages
+const HEADER_ALIASES: Record<string, string[]> = {
+  title: ['标题', '片名', '名称', '中文名', 'title'],
+  rating: ['个人评分', '我的评分', '评分', '星级', 'my rating'],
+  markedAt: ['打分日期', '标记日期', '标记时间', '创建时间', '日期', 'date'],
+  comment: ['我的短评', '短评', '评论', '评语', 'comment'],
+  tags: ['我的标签', '标签', 'tags'],
+  status: ['状态', '标记状态'],
+  link: ['条目链接', '链接', 'url', 'link'],
+  year: ['上映日期', '首播', '年份', 'year'],
+  country: ['制片国家', '制片国家/地区', '国家/地区', '地区'],
+  genre: ['类型', 'genre'],
+  director: ['导演', 'director'],
+  type: ['条目类型', '媒体类型', '种类', 'type'],
+  episodes: ['集数', 'episodes'],
+  intro: ['简介', '信息', 'intro'],
+};
+
+const STATUS_MAP: Record<string, MovieStatus> = {
+  '看过': MovieStatus.WATCHED,
+  '已看': MovieStatus.WATCHED,
+  '想看': MovieStatus.PLANNING,
+  '在看': MovieStatus.WATCHING,
+};
+
+// Douban's rating labels, worst to best
+const RATING_LABELS = ['很差', '较差', '还行', '推荐', '力荐'];
+
+const SUBJECT_RE = /douban\.com\/subject\/(\d+)/;
+
+const parseRating = (value: string): number => {
+  const text = value.trim();
+  if (!text) return 0;
+  const stars = (text.match(/★/g) || []).length;
+  if (stars > 0) return stars;
+  const label = RATING_LABELS.indexOf(text);
+  if (label >= 0) return label + 1;
+  const rating = parseFloat(text.match(/\d+(\.\d+)?/)?.[0] || '');
+  if (!Number.isFinite(rating) || rating <= 0) return 0;
+  return rating > 5 ? Math.round(rating) / 2 : rating; // Some tools write the 10-point scale
+};
+
+const parseDate = (value: string): number | undefined => {
+  const match = value.match(/(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})/);
+  if (!match) return undefined;
+  const [, y, m, d] = match;
+  return new Date(Number(y), Number(m) - 1, Number(d), 12).getTime();
+};
+
+const splitList = (value: string) => value
+  .replace(/^标签[:：]\s*/, '')
+  .split(/[,，/、\s]+/)
+  .map(s => s.trim())
+  .filter(Boolean);
+
+// Douban shows "中文名 / Original Title"; keep the first name
+const primaryTitle = (value: string) => value.split(' / ')[0].trim();
+
+const isTvHint = (text: string) => /电视剧|剧集|综艺|动画剧|纪录剧|第[一二三四五六七八九十\d]+季|Season\s*\d|\d+\s*集|\btv\b/i.test(text);
+
+// "1994-09-10(多伦多电影节) / 美国 / 弗兰克·德拉邦特 / 142分钟 / 剧情 / 犯罪" style summaries
+const parseIntro = (intro: string) => {
+  return {
+    year: intro.match(/(19|20)\d{2}/)?.[0] || '',
+    episodes: parseInt(intro.match(/(\d+)\s*集/)?.[1] || '') || undefined,
+    isTv: isTvHint(intro),
+  };
+};
+
+/** Which shelf a page heading or export file name refers to (看过 unless it says otherwise). */
+export const doubanShelf = (text: string): MovieStatus =>
+  text.includes('想看') || /wish/i.test(text) ? MovieStatus.PLANNING
+    : text.includes('在看') || /\bdo\b/i.test(text) ? MovieStatus.WATCHING
+    : MovieStatus.WATCHED;
+
+const stableId = (item: DoubanItem) => item.subjectId ? `douban-${item.subjectId}` : crypto.randomUUID();
+
+/**
+ * Turns parsed items into a raw library document for migrateLibrary. Ids come
+ * from the Douban subject so importing the same export twice matches by id.
+ */
+const toDocument = (items: DoubanItem[]) => {
+  const now = Date.now();
+  const titles: any[] = [];
+  const logs: any[] = [];
+  items.forEach(item => {
+    const id = stableId(item);
+    const addedAt = item.markedAt ?? now;
+    const genre = splitList(item.genre).join(' / ');
+    titles.push({
+      id,
+      title: item.title,
+      year: item.year,
+      country: item.country,
+      genre,
+      director: item.director,
+      status: item.status,
+      posterColor: '#4f46e5',
+      mediaType: item.mediaType,
+      ...(item.mediaType === 'tv' ? { seasons: [{ number: 1, episodeCount: item.episodes || 0 }] } : {}),
+      ...(item.tags.length > 0 ? { tags: normalizeTags(item.tags) } : {}),
+      addedAt,
+      lastUpdated: addedAt,
+    });
+    // Only marked viewings become logs; 想看 has nothing to log
+    if (item.status !== MovieStatus.PLANNING && (item.markedAt || item.rating || item.comment)) {
+      logs.push({
+        id: `${id}-log`,
+        titleId: id,
+        watchedAt: addedAt,
+        rating: item.rating,
+        note: item.comment,
+        lastUpdated: addedAt,
+      });
+    }
+  });
+  return { schemaVersion: SCHEMA_VERSION, titles, logs };
+};
+
+const findColumns = (header: string[]) => {
+  const normalized = header.map(h => h.trim().toLowerCase());
+  const columns: Record<string, number> = {};
+  Object.entries(HEADER_ALIASES).forEach(([key, aliases]) => {
+    const idx = aliases.map(a => normalized.indexOf(a.toLowerCase())).find(i => i >= 0);
+    if (idx !== undefined) columns[key] = idx;
+  });
+  return columns;
+};
+
+/** Whether a CSV looks like a Douban collection export rather than one of ours. */
+export const isDoubanCSV = (content: string): boolean => {
+  const [header] = parseCSV(content.slice(0, 4096));
+  if (!header || header.includes('作品ID') || header.includes('ID')) return false;
+  const columns = findColumns(header);
+  return columns.title !== undefined && (columns.link !== undefined || columns.markedAt !== undefined || columns.comment !== undefined);
+};
+
+/**
+ * Parses a Douban collection CSV. Exports usually come one file per
+ * shelf (看过 / 想看 / 在看); without a status column `defaultStatus` applies,
+ * typically taken from the file name via doubanShelf.
+ */
+export const parseDoubanCSV = (content: string, defaultStatus: MovieStatus = MovieStatus.WATCHED): unknown => {
+  const [header, ...rows] = parseCSV(content);
+  if (!header) return toDocument([]);
+  const columns = findColumns(header);
+  const cell = (values: string[], key: string) => columns[key] !== undefined ? (values[columns[key]] || '').trim() : '';
+
+  const items = rows
+    .filter(values => cell(values, 'title'))
+    .map((values): DoubanItem => {
+      const intro = parseIntro(cell(values, 'intro'));
+      const rawTitle = cell(values, 'title');
+      const typeHint = `${cell(values, 'type')} ${rawTitle}`;
+      const episodes = parseInt(cell(values, 'episodes')) || intro.episodes;
+      return {
+        subjectId: cell(values, 'link').match(SUBJECT_RE)?.[1],
+        title: primaryTitle(rawTitle),
+        year: cell(values, 'year').match(/\d{4}/)?.[0] || intro.year,
+        country: cell(values, 'country'),
+        genre: cell(values, 'genre'),
+        director: cell(values, 'director'),
+        status: STATUS_MAP[cell(values, 'status')] || defaultStatus,
+        mediaType: isTvHint(typeHint) || intro.isTv || !!episodes ? 'tv' : 'movie',
+        episodes,
+        rating: parseRating(cell(values, 'rating')),
+        tags: splitList(cell(values, 'tags')),
+        comment: cell(values, 'comment'),
+        markedAt: parseDate(cell(values, 'markedAt')),
+      };
+    });
+  return toDocument(items);
+};
+
+/**
+ * Parses a saved Douban collection page (people/<id>/collect, wish or do,
+ * in list or grid mode). The shelf is read from the page itself.
+ */
+export const parseDoubanHTML = (content: string): unknown => {
+  const doc = new DOMParser().parseFromString(content, 'text/html');
+  const shelf = doubanShelf(`${doc.title} ${doc.querySelector('h1')?.textContent || ''}`);
+
+  const items = Array.from(doc.querySelectorAll('.item'))
+    .map((el): DoubanItem | null => {
+      const link = el.querySelector<HTMLAnchorElement>('a[href*="/subject/"]');
+      const rawTitle = (el.querySelector('.title em, .title a, em')?.textContent || link?.textContent || '').trim();
+      if (!rawTitle) return null;
+      const intro = parseIntro(el.querySelector('.intro')?.textContent || '');
+      const ratingClass = el.querySelector('[class^="rating"], [class*=" rating"]')?.className || '';
+      const text = (selector: string) => (el.querySelector(selector)?.textContent || '').trim();
+      return {
+        subjectId: link?.getAttribute('href')?.match(SUBJECT_RE)?.[1],
+        title: primaryTitle(rawTitle),
+        year: intro.year,
+        country: '',
+        genre: '',
+        director: '',
+        status: shelf,
+        mediaType: intro.isTv || isTvHint(rawTitle) ? 'tv' : 'movie',
+        episodes: intro.episodes,
+        rating: parseInt(ratingClass.match(/rating(\d)/)?.[1] || '') || 0,
+        tags: splitList(text('.tags')),
+        comment: text('.comment'),
+        markedAt: parseDate(text('.date')),
+      };
+    })
+    .filter((item): item is DoubanItem => item !== null);
+  return toDocument(items);
+};
@@ -0,0 +1,164 @@
+import { Library, Season, SeasonMetadata, Title, TitleMetadata } from "../types";
+import { isTrashed } from "./library";
+import { MetadataSearchResult } from "./metadata";
+
+// The color imports and quick adds fall back to; treated as "no color chosen"
+export const DEFAULT_POSTER_COLOR = '#4f46e5';
+
+export type EnrichField = Extract<keyof Title, 'year' | 'country' | 'genre' | 'director' | 'duration' | 'seasons' | 'posterColor'>;
+
+export const ENRICH_FIELD_LABELS: Record<EnrichField, string> = {
+  year: '年份',
+  country: '国家/地区',
+  genre: '类型',
+  director: '导演',
+  duration: '时长',
+  seasons: '分季',
+  posterColor: '海报颜色',
+};
+
+export interface FieldChange {
+  field: EnrichField;
+  before: Title[EnrichField];
+  after: Title[EnrichField];
+}
+
+// Proposed changes for one title, waiting for the user to accept or reject them
+export interface EnrichmentProposal {
+  titleId: string;
+  titleName: string;
+  source: string; // Provider label
+  matched: { title: string, year: string }; // What the provider thinks it found
+  changes: FieldChange[];
+}
+
+export interface EnrichmentFailure {
+  titleId: string;
+  titleName: string;
+  message: string;
+}
+
+/**
+ * A batch run over incomplete titles. Persisted after every step so a reload
+ * picks up where it stopped; a job that was running comes back paused.
+ */
+export interface EnrichmentJob {
+  id: string;
+  createdAt: number;
+  status: 'running' | 'paused' | 'finished';
+  total: number;
+  queue: string[]; // Title ids still to look up, in order
+  proposals: EnrichmentProposal[];
+  failures: EnrichmentFailure[];
+  skipped: number; // Looked up but nothing to add, or no longer incomplete
+  reviewed: number; // Proposals accepted or rejected
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '' || value === 0;
+
+/** Fields of a title that are empty or still at their defaults. */
+export const missingFields = (title: Title): EnrichField[] => {
+  const missing: EnrichField[] = [];
+  if (isBlank(title.year)) missing.push('year');
+  if (isBlank(title.country)) missing.push('country');
+  if (isBlank(title.genre)) missing.push('genre');
+  if (isBlank(title.director)) missing.push('director');
+  if (isBlank(title.duration)) missing.push('duration');
+  if (title.mediaType === 'tv' && (!title.seasons || title.seasons.length === 0 || title.seasons.some(s => !s.episodeCount))) {
+    missing.push('seasons');
+  }
+  if (title.posterColor.toLowerCase() === DEFAULT_POSTER_COLOR) missing.push('posterColor');
+  return missing;
+};
+
+/** Titles outside the trash with at least one missing field, oldest first. */
+export const findIncompleteTitles = (library: Library): Title[] => library.titles
+  .filter(t => !isTrashed(t) && missingFields(t).length > 0)
+  .sort((a, b) => a.addedAt - b.addedAt);
+
+export const createEnrichmentJob = (titleIds: string[], now: number = Date.now()): EnrichmentJob => ({
+  id: crypto.randomUUID(),
+  createdAt: now,
+  status: 'running',
+  total: titleIds.length,
+  queue: titleIds,
+  proposals: [],
+  failures: [],
+  skipped: 0,
+  reviewed: 0,
+});
+
+/** The search result most likely to be this title: same media type, then same year. */
+export const bestCandidate = (title: Title, results: MetadataSearchResult[]): MetadataSearchResult | undefined => {
+  const sameType = results.filter(r => r.mediaType === title.mediaType);
+  return sameType.find(r => title.year && r.year === title.year) || sameType[0];
+};
+
+/** Known season lengths win; fetched ones fill unknown counts and add missing seasons. */
+const mergeSeasons = (existing: Season[] = [], fetched: SeasonMetadata[]): Season[] => {
+  const byNumber = new Map(existing.map(s => [s.number, s]));
+  fetched.forEach(f => {
+    const current = byNumber.get(f.number);
+    if (!current) {
+      byNumber.set(f.number, { number: f.number, episodeCount: f.episodeCount, ...(f.episodeDuration ? { episodeDuration: f.episodeDuration } : {}) });
+    } else if (!current.episodeCount && f.episodeCount) {
+      byNumber.set(f.number, { ...current, episodeCount: f.episodeCount });
+    }
+  });
+  return Array.from(byNumber.values()).sort((a, b) => a.number - b.number);
+};
+
+/**
+ * Changes that would fill the title's missing fields from `metadata`.
+ * Fields that already have a value are never touched. Returns null when the
+ * match looks like a different work (other media type or year).
+ */
+export const proposeChanges = (title: Title, metadata: TitleMetadata): FieldChange[] | null => {
+  if (metadata.mediaType !== title.mediaType) return null;
+  const year = parseInt(title.year);
+  const fetchedYear = parseInt(metadata.year);
+  if (year && fetchedYear && Math.abs(year - fetchedYear) > 1) return null;
+
+  const changes: FieldChange[] = [];
+  const propose = <F extends EnrichField>(field: F, after: Title[F] | undefined) => {
+    if (!isBlank(after) && JSON.stringify(after) !== JSON.stringify(title[field])) {
+      changes.push({ field, before: title[field], after: after as Title[EnrichField] });
+    }
+  };
+
+  missingFields(title).forEach(field => {
+    switch (field) {
+      case 'year': return propose('year', metadata.year);
+      case 'country': return propose('country', metadata.country);
+      case 'genre': return propose('genre', metadata.genre);
+      case 'director': return propose('director', metadata.director);
+      case 'duration': return propose('duration', metadata.duration);
+      case 'posterColor': return propose('posterColor', metadata.suggestedColorHex);
+      case 'seasons':
+        if (metadata.seasons && metadata.seasons.length > 0) propose('seasons', mergeSeasons(title.seasons, metadata.seasons));
+        return;
+    }
+  });
+  return changes;
+};
+
+const setField = <K extends keyof Title>(title: Title, field: K, value: Title[K]) => {
+  title[field] = value;
+};
+
+/**
+ * Applies the accepted fields of a proposal. A field is only written while
+ * it still holds the value the proposal was made against, so edits made in
+ * the meantime are not overwritten.
+ */
+export const applyProposal = (library: Library, proposal: EnrichmentProposal, fields: EnrichField[], now: number = Date.now()): Library => ({
+  ...library,
+  titles: library.titles.map(t => {
+    if (t.id !== proposal.titleId) return t;
+    const accepted = proposal.changes.filter(c => fields.includes(c.field) && JSON.stringify(t[c.field]) === JSON.stringify(c.before));
+    if (accepted.length === 0) return t;
+    const next: Title = { ...t, lastUpdated: now };
+    accepted.forEach(c => setField(next, c.field, c.after));
+    return next;
+  }),
+});
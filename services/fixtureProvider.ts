@@ -0,0 +1,66 @@
+import { TitleMetadata } from "../types";
+import { MetadataProvider, MetadataSearchResult, fetchPosterBlob } from "./metadata";
+import defaultFixtures from "./fixtures/metadata.json";
+
+// A fixture is a full metadata record plus what it can be found by
+export interface MetadataFixture extends TitleMetadata {
+  id: string;
+  aliases?: string[];
+  posterUrl?: string;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s\-_：:·.,，。!！?？'"]+/g, '');
+
+/**
+ * Metadata served from a local list of records, with no network access.
+ * Useful offline and for exercising the form without API keys.
+ */
+export const createFixtureProvider = (fixtures: MetadataFixture[] = defaultFixtures as MetadataFixture[]): MetadataProvider => {
+  const byId = new Map(fixtures.map(f => [f.id, f]));
+
+  const find = (result: MetadataSearchResult) => {
+    const fixture = byId.get(result.externalId);
+    if (!fixture) throw new Error(`本地数据中没有 ${result.title}`);
+    return fixture;
+  };
+
+  return {
+    id: 'fixtures',
+    label: '本地数据',
+    isConfigured: () => fixtures.length > 0,
+
+    search: async query => {
+      const q = normalize(query);
+      if (!q) return [];
+      return fixtures
+        .map(f => {
+          const names = [f.title, f.originalTitle || '', ...(f.aliases || [])].map(normalize).filter(Boolean);
+          // Exact names first, then partial matches
+          const score = names.includes(q) ? 2 : names.some(n => n.includes(q) || q.includes(n)) ? 1 : 0;
+          return { f, score };
+        })
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map(({ f }) => ({
+          providerId: 'fixtures',
+          externalId: f.id,
+          title: f.title,
+          originalTitle: f.originalTitle,
+          year: f.year,
+          mediaType: f.mediaType,
+          director: f.director,
+          overview: f.summary,
+          posterUrl: f.posterUrl,
+        }));
+    },
+
+    getDetails: async result => {
+      const { id, aliases, posterUrl, ...metadata } = find(result);
+      return metadata;
+    },
+
+    getSeasons: async result => find(result).seasons || [],
+
+    getPoster: result => fetchPosterBlob(result.posterUrl),
+  };
+};
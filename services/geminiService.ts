@@ -1,63 +1,199 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { GeminiMovieResponse } from "../types";
+import { GeminiMovieResponse, MetadataFieldIssue, TitleMetadata } from "../types";
+import {
+  MAX_ISSUE_REPORTS, MAX_REPORTED_CANDIDATES, MetadataIssueReport, describeIssues, toIssueReports, validateGeminiResponse,
+} from "./geminiValidation";
+import { MetadataProvider, MetadataSearchResult } from "./metadata";
+import { ReviewAssistRequest } from "./reviewAssistant";
+import { Recommendation, RecommendationRequest } from "./tasteProfile";
+import { FilterVocabulary, LibraryFilter, sanitizeFilter, toDateString } from "./smartFilter";
+import { apiStatus } from "./apiStatus";
 
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
+// Gemini is reached through our own server (server/index.ts), which holds the API key
+const API_BASE = '/api';
 
-export const fetchMovieMetadata = async (title: string): Promise<GeminiMovieResponse | null> => {
-  if (!apiKey) {
-    console.warn("No API Key provided");
-    return null;
+const postApi = async (route: string, body: unknown): Promise<string> => {
+  const res = await fetch(`${API_BASE}/${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error || `服务器错误 (${res.status})`);
+  return data?.text || '';
+};
+
+// Extra attempts with a corrective prompt when the answer breaks the schema
+const MAX_REPAIR_ATTEMPTS = 1;
+
+interface ValidCandidate {
+  response: GeminiMovieResponse;
+  issues: MetadataFieldIssue[];
+}
+
+const requestCandidates = async (query: string): Promise<ValidCandidate[]> => {
+  let problems = '';
+  let reports: MetadataIssueReport[] = [];
+  // The best answer so far, in case the retry comes back worse
+  let usable: ValidCandidate[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    // The server builds the prompt; on a retry it adds what was wrong last time
+    const text = await postApi('metadata', attempt === 0 ? { query } : { query, issues: reports });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      parsed = undefined;
+    }
+    const raw = (parsed as { candidates?: unknown } | undefined)?.candidates;
+    if (!Array.isArray(raw)) {
+      problems = '- candidates: 回答不是包含 candidates 数组的 JSON';
+      reports = [{ field: 'candidates', code: 'not-array' }];
+    } else {
+      const results = raw.map(validateGeminiResponse);
+      const valid = results
+        .filter(r => r.value !== null)
+        .map(r => ({ response: r.value!, issues: r.issues }));
+      // Unusable records and fields that had to be dropped both count as schema violations
+      const violations = results.map(r => [...r.fatal, ...r.issues]);
+      if (violations.every(list => list.length === 0)) return valid;
+      if (valid.length > 0) usable = valid;
+      problems = describeIssues(violations.flatMap((list, i) => list.map(issue => ({ ...issue, field: `candidates[${i}].${issue.field}` }))));
+      reports = violations
+        .slice(0, MAX_REPORTED_CANDIDATES)
+        .flatMap((list, i) => toIssueReports(i, list))
+        .slice(0, MAX_ISSUE_REPORTS);
+    }
+  }
+
+  // Out of retries: what didn't validate is dropped and reported on each record, as long as something is left
+  if (usable.length > 0) return usable;
+  throw new Error(`Gemini 返回的数据不符合格式：\n${problems}`);
+};
+
+// Gemini answers with full details straight away, so search keeps them for getDetails
+const answers = new Map<string, TitleMetadata>();
+
+const toMetadata = ({ response: data, issues }: ValidCandidate): TitleMetadata => ({
+  title: data.title,
+  ...(data.originalTitle ? { originalTitle: data.originalTitle } : {}),
+  year: data.year,
+  country: data.country || '',
+  genre: data.genre,
+  director: data.director,
+  summary: data.summary,
+  mediaType: data.mediaType,
+  suggestedColorHex: data.suggestedColorHex,
+  ...(data.mediaType === 'tv'
+    ? { seasons: data.seasons && data.seasons.length > 0 ? data.seasons : [{ number: 1, episodeCount: data.totalEpisodes || 0 }] }
+    : {}),
+  ...(data.duration ? { duration: data.duration } : {}),
+  ...(issues.length > 0 ? { rejected: issues } : {}),
+});
+
+const externalIdOf = (metadata: TitleMetadata) => `${metadata.mediaType}:${metadata.title}:${metadata.year}`;
+
+// A remembered pick from an earlier session is no longer cached, so ask again for exactly that work
+const detailsFor = async (result: MetadataSearchResult): Promise<TitleMetadata> => {
+  const cached = answers.get(result.externalId);
+  if (cached) return cached;
+  const candidates = (await requestCandidates(`${result.title} (${result.year}, ${result.mediaType === 'tv' ? 'TV series' : 'movie'})`)).map(toMetadata);
+  const match = candidates.find(c => externalIdOf(c) === result.externalId) || candidates[0];
+  if (!match) throw new Error(`Gemini 找不到 ${result.title}`);
+  return match;
+};
+
+export const geminiProvider: MetadataProvider = {
+  id: 'gemini',
+  label: 'Gemini AI',
+  isConfigured: () => apiStatus.gemini,
+
+  search: async query => (await requestCandidates(query)).map(toMetadata).map(metadata => {
+    const externalId = externalIdOf(metadata);
+    answers.set(externalId, metadata);
+    return {
+      providerId: 'gemini',
+      externalId,
+      title: metadata.title,
+      originalTitle: metadata.originalTitle,
+      year: metadata.year,
+      mediaType: metadata.mediaType,
+      director: metadata.director,
+      overview: metadata.summary,
+    };
+  }),
+
+  getDetails: result => detailsFor(result),
+
+  getSeasons: async result => (await detailsFor(result)).seasons || [],
+
+  // Gemini cannot return images
+  getPoster: async () => null,
+};
+
+/** A structured filter for a natural-language search, as the model reads it. */
+export const requestSearchFilter = async (query: string, vocabulary: FilterVocabulary): Promise<LibraryFilter> => {
+  const text = await postApi('search', { query, vocabulary, today: toDateString(new Date()) });
+  try {
+    return sanitizeFilter(JSON.parse(text));
+  } catch {
+    throw new Error('Gemini 返回的筛选条件格式不正确');
   }
+};
 
+/** Suggestions from the model for the given taste profile. Invalid entries are dropped. */
+export const requestRecommendations = async (request: RecommendationRequest): Promise<Recommendation[]> => {
+  const text = await postApi('recommendations', request);
+  let raw: unknown;
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Provide metadata for the media title "${title}". Identify if it is a "movie" or "tv" series. Return JSON. ensure the summary, genre, country and director are in Chinese (Simplified). If it is a TV series, estimate the total number of episodes and the average runtime per episode (in minutes). If it is a movie, provide the runtime (in minutes).`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING, description: "Official Chinese title if available, otherwise original title" },
-            year: { type: Type.STRING },
-            country: { type: Type.STRING, description: "Country or region of origin in Chinese (e.g. 美国, 中国大陆)" },
-            genre: { type: Type.STRING, description: "Primary genre in Chinese (e.g., 科幻, 剧情)" },
-            director: { type: Type.STRING, description: "Director or Creator name in Chinese" },
-            summary: { type: Type.STRING, description: "A very short one-sentence plot summary in Chinese." },
-            suggestedColorHex: { type: Type.STRING, description: "A hex color code representing the mood." },
-            mediaType: { type: Type.STRING, enum: ["movie", "tv"], description: "Whether it is a movie or tv series" },
-            totalEpisodes: { type: Type.INTEGER, description: "Total episodes if TV series, otherwise 0 or null" },
-            duration: { type: Type.INTEGER, description: "Runtime in minutes (per episode for TV)" }
-          },
-          required: ["title", "year", "country", "genre", "director", "summary", "suggestedColorHex", "mediaType"],
-        },
-      },
-    });
-
-    if (response.text) {
-      return JSON.parse(response.text) as GeminiMovieResponse;
-    }
-    return null;
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    return null;
+    raw = (JSON.parse(text) as { recommendations?: unknown }).recommendations;
+  } catch {
+    raw = undefined;
   }
+  if (!Array.isArray(raw)) throw new Error('Gemini 返回的推荐格式不正确');
+
+  return raw.flatMap((item: unknown): Recommendation[] => {
+    const { value, issues } = validateGeminiResponse(item);
+    const reason = (item as { reason?: unknown })?.reason;
+    if (!value) return [];
+    return [{ metadata: toMetadata({ response: value, issues }), reason: typeof reason === 'string' ? reason.trim() : '', source: 'ai' }];
+  });
 };
 
-export const generateAiReview = async (title: string, rating: number, mediaType: string = 'movie'): Promise<string> => {
-    if (!apiKey) return "缺少 API Key。";
-    
-    const typeText = mediaType === 'tv' ? "TV series" : "movie";
-    
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: `Write a short, casual, 2-sentence review for the ${typeText} "${title}" in Chinese (Simplified) giving it a rating of ${rating}/5 stars. Focus on the vibe.`
-        });
-        return response.text || "";
-    } catch (error) {
-        console.error("Gemini Review Error:", error);
-        return "无法生成影评。";
-    }
-}
\ No newline at end of file
+/**
+ * Streams a review from the assistant, calling `onText` with the text so far
+ * after each piece arrives. Resolves with the full text; rejects on errors
+ * and when `signal` aborts.
+ */
+export const streamAiReview = async (
+  request: ReviewAssistRequest,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  if (!apiStatus.gemini) throw new Error('服务器未配置 Gemini');
+  const res = await fetch(`${API_BASE}/review`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    const data = await res.json().catch(() => null);
+    throw new Error(data?.error || `服务器错误 (${res.status})`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+    onText(text);
+  }
+  text += decoder.decode();
+  if (!text.trim()) throw new Error('没有生成内容，请重试');
+  onText(text);
+  return text;
+};
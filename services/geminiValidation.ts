@@ -0,0 +1,200 @@
+import { GeminiMovieResponse, MediaType, MetadataFieldIssue, MetadataIssueCode, SeasonMetadata } from "../types";
+
+export interface ValidatedResponse {
+  value: GeminiMovieResponse | null; // null when the record cannot be used at all
+  issues: MetadataFieldIssue[]; // Fields that were dropped or could not be used as given
+  fatal: MetadataFieldIssue[]; // Problems that make the record unusable; worth a retry
+}
+
+// Earliest film year we accept; the upper bound allows announced titles
+const MIN_YEAR = 1870;
+const MAX_YEAR_AHEAD = 5;
+// Nothing we track runs longer than this many minutes per film or episode
+const MAX_DURATION = 1000;
+const MAX_EPISODES = 10000;
+
+// Spellings the model sometimes uses instead of the names the prompt asks for
+const COUNTRY_ALIASES: Record<string, string> = {
+  'usa': '美国', 'us': '美国', 'united states': '美国', 'united states of america': '美国', '美國': '美国',
+  'china': '中国大陆', 'mainland china': '中国大陆', '中国': '中国大陆', '中國': '中国大陆', '大陆': '中国大陆',
+  'hong kong': '中国香港', '香港': '中国香港',
+  'taiwan': '中国台湾', '台湾': '中国台湾', '台灣': '中国台湾',
+  'uk': '英国', 'united kingdom': '英国', 'england': '英国', '英國': '英国',
+  'south korea': '韩国', 'korea': '韩国', '南韩': '韩国', '韓國': '韩国',
+  'japan': '日本',
+  'france': '法国', '法國': '法国',
+  'germany': '德国', '德國': '德国',
+  'india': '印度',
+  'italy': '意大利',
+  'spain': '西班牙',
+  'canada': '加拿大',
+  'australia': '澳大利亚',
+  'thailand': '泰国',
+};
+
+const MEDIA_TYPE_ALIASES: Record<string, MediaType> = {
+  'movie': 'movie', 'film': 'movie', '电影': 'movie',
+  'tv': 'tv', 'series': 'tv', 'tv series': 'tv', 'show': 'tv', '电视剧': 'tv', '剧集': 'tv',
+};
+
+const describe = (value: unknown) => {
+  const text = typeof value === 'string' ? `“${value}”` : JSON.stringify(value);
+  return text && text.length > 40 ? `${text.slice(0, 40)}…` : String(text);
+};
+
+/** "1994", 1994, "1994年", "1994-2008" → "1994"; null when there is no plausible year. */
+export const normalizeYear = (value: unknown): string | null => {
+  const match = String(value ?? '').match(/\d{4}/);
+  if (!match) return null;
+  const year = Number(match[0]);
+  return year >= MIN_YEAR && year <= new Date().getFullYear() + MAX_YEAR_AHEAD ? match[0] : null;
+};
+
+/** "#abc", "abc", "#AABBCC" → "#aabbcc"; null for anything else. */
+export const normalizeHexColor = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const hex = value.trim().replace(/^#/, '').toLowerCase();
+  if (/^[0-9a-f]{6}$/.test(hex)) return `#${hex}`;
+  if (/^[0-9a-f]{3}$/.test(hex)) return `#${hex.split('').map(c => c + c).join('')}`;
+  return null;
+};
+
+/** Maps common English or traditional spellings to the names used in the library, joined with " / ". */
+export const normalizeCountry = (value: string): string => value
+  .split(/[,，/、;；]+/)
+  .map(part => part.trim())
+  .filter(Boolean)
+  .map(part => COUNTRY_ALIASES[part.toLowerCase()] || part)
+  .filter((part, i, all) => all.indexOf(part) === i)
+  .join(' / ');
+
+/** Whole minutes or counts: 45, "45", "45分钟", 44.6 → 45; null when not a number in (0, max]. */
+const positiveInt = (value: unknown, max: number): number | null => {
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^\d.-]/g, ''));
+  if (!Number.isFinite(number)) return null;
+  const rounded = Math.round(number);
+  return rounded > 0 && rounded <= max ? rounded : null;
+};
+
+/**
+ * Checks one record from the model and repairs what can be repaired.
+ * Fields that cannot be used are dropped and listed in `issues`; a missing
+ * title or media type makes the whole record unusable (`fatal`).
+ */
+export const validateGeminiResponse = (raw: unknown): ValidatedResponse => {
+  const issues: MetadataFieldIssue[] = [];
+  const fatal: MetadataFieldIssue[] = [];
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    fatal.push({ field: 'record', code: 'not-object', value: raw, reason: '不是对象' });
+    return { value: null, issues, fatal };
+  }
+  const record = raw as Record<string, unknown>;
+  const reject = (field: string, code: MetadataIssueCode, reason: string) =>
+    issues.push({ field, code, value: record[field], reason: `${describe(record[field])} ${reason}` });
+
+  const title = typeof record.title === 'string' ? record.title.trim() : '';
+  if (!title) fatal.push({ field: 'title', code: 'missing', value: record.title, reason: '缺少标题' });
+  const mediaType = MEDIA_TYPE_ALIASES[String(record.mediaType ?? '').trim().toLowerCase()];
+  if (!mediaType) fatal.push({ field: 'mediaType', code: 'invalid', value: record.mediaType, reason: `${describe(record.mediaType)} 不是 movie 或 tv` });
+  if (fatal.length > 0) return { value: null, issues, fatal };
+
+  const text = (field: string): string => {
+    const value = record[field];
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string') return value.trim();
+    reject(field, 'not-text', '不是文本');
+    return '';
+  };
+
+  const year = normalizeYear(record.year);
+  if (year === null && record.year !== undefined && record.year !== '') reject('year', 'invalid', '不是有效年份');
+
+  const color = normalizeHexColor(record.suggestedColorHex);
+  if (color === null && record.suggestedColorHex !== undefined) reject('suggestedColorHex', 'invalid', '不是有效的十六进制颜色');
+
+  const duration = record.duration === undefined || record.duration === null || record.duration === 0
+    ? null
+    : positiveInt(record.duration, MAX_DURATION);
+  if (duration === null && record.duration !== undefined && record.duration !== null && record.duration !== 0) reject('duration', 'invalid', '不是有效的时长');
+
+  const value: GeminiMovieResponse = {
+    title,
+    year: year || '',
+    country: normalizeCountry(text('country')),
+    genre: text('genre'),
+    director: text('director'),
+    summary: text('summary'),
+    suggestedColorHex: color || '',
+    mediaType,
+  };
+  const originalTitle = text('originalTitle');
+  if (originalTitle) value.originalTitle = originalTitle;
+  if (duration) value.duration = duration;
+
+  if (mediaType === 'tv') {
+    if (record.totalEpisodes !== undefined && record.totalEpisodes !== null && record.totalEpisodes !== 0) {
+      const total = positiveInt(record.totalEpisodes, MAX_EPISODES);
+      if (total) value.totalEpisodes = total;
+      else reject('totalEpisodes', 'invalid', '不是有效的集数');
+    }
+
+    if (Array.isArray(record.seasons)) {
+      const seasons: SeasonMetadata[] = [];
+      record.seasons.forEach((season: any, i) => {
+        const field = `seasons[${i}]`;
+        const number = positiveInt(season?.number, 1000);
+        if (!number || !Number.isInteger(Number(season?.number)) || seasons.some(s => s.number === number)) {
+          issues.push({ field: `${field}.number`, code: 'invalid', value: season?.number, reason: `${describe(season?.number)} 不是有效或唯一的季号` });
+          return;
+        }
+        const episodeCount = season.episodeCount === 0 ? 0 : positiveInt(season.episodeCount, MAX_EPISODES);
+        if (episodeCount === null) {
+          issues.push({ field: `${field}.episodeCount`, code: 'invalid', value: season.episodeCount, reason: `${describe(season.episodeCount)} 不是有效的集数` });
+        }
+        const result: SeasonMetadata = { number, episodeCount: episodeCount ?? 0 };
+        if (season.episodeDuration !== undefined && season.episodeDuration !== null && season.episodeDuration !== 0) {
+          const runtime = positiveInt(season.episodeDuration, MAX_DURATION);
+          if (runtime) result.episodeDuration = runtime;
+          else issues.push({ field: `${field}.episodeDuration`, code: 'invalid', value: season.episodeDuration, reason: `${describe(season.episodeDuration)} 不是有效的时长` });
+        }
+        seasons.push(result);
+      });
+      value.seasons = seasons.sort((a, b) => a.number - b.number);
+    } else if (record.seasons !== undefined && record.seasons !== null) {
+      reject('seasons', 'not-array', '不是数组');
+    }
+  }
+
+  return { value, issues, fatal };
+};
+
+/** What was wrong with the previous answer, for the console and error messages. */
+export const describeIssues = (issues: MetadataFieldIssue[]): string =>
+  issues.map(issue => `- ${issue.field}: ${issue.reason}`).join('\n');
+
+// --- Corrective retries ---
+// The client only says which field of which candidate broke which rule; the
+// server words the corrective prompt itself, so no client text reaches it.
+
+export const METADATA_ISSUE_CODES: MetadataIssueCode[] = ['missing', 'invalid', 'not-text', 'not-array', 'not-object'];
+
+export const METADATA_ISSUE_FIELDS = [
+  'candidates', 'record', 'title', 'originalTitle', 'mediaType', 'year', 'country', 'genre', 'director', 'summary',
+  'suggestedColorHex', 'duration', 'totalEpisodes', 'seasons', 'seasons.number', 'seasons.episodeCount', 'seasons.episodeDuration',
+] as const;
+export type MetadataIssueField = typeof METADATA_ISSUE_FIELDS[number];
+
+export interface MetadataIssueReport {
+  candidate?: number; // Index in the candidates array; absent when the answer as a whole was wrong
+  field: MetadataIssueField;
+  code: MetadataIssueCode;
+}
+
+export const MAX_ISSUE_REPORTS = 50;
+export const MAX_REPORTED_CANDIDATES = 10;
+
+/** One candidate's issues as reports; season indices are dropped since the rule is the same for each. */
+export const toIssueReports = (candidate: number, issues: MetadataFieldIssue[]): MetadataIssueReport[] => issues
+  .map(issue => ({ candidate, field: issue.field.replace(/\[\d+\]/g, '') as MetadataIssueField, code: issue.code }))
+  .filter(report => METADATA_ISSUE_FIELDS.includes(report.field))
+  .filter((report, i, all) => all.findIndex(r => r.field === report.field && r.code === report.code) === i);
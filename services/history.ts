@@ -0,0 +1,96 @@
+import { Library, Title, WatchLog } from "../types";
+
+// Oldest entries are dropped beyond this many undo steps
+export const MAX_HISTORY = 50;
+
+// A record before and after a command. A missing side means the record did
+// not exist then (added, or deleted).
+export interface RecordChange<T> {
+  id: string;
+  before?: T;
+  after?: T;
+}
+
+// One undoable command, e.g. "删除 3 部作品"
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  at: number;
+  titles: RecordChange<Title>[];
+  logs: RecordChange<WatchLog>[];
+}
+
+export interface HistoryState {
+  past: HistoryEntry[]; // Oldest first
+  future: HistoryEntry[]; // Next redo first
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const diffRecords = <T extends { id: string }>(prev: T[], next: T[]): RecordChange<T>[] => {
+  const prevById = new Map(prev.map(r => [r.id, r]));
+  const nextById = new Map(next.map(r => [r.id, r]));
+  const changes: RecordChange<T>[] = [];
+  next.forEach(r => {
+    const before = prevById.get(r.id);
+    if (before !== r) changes.push({ id: r.id, before, after: r });
+  });
+  prev.forEach(r => {
+    if (!nextById.has(r.id)) changes.push({ id: r.id, before: r });
+  });
+  return changes;
+};
+
+/**
+ * Describes the difference between two snapshots as a history entry, or
+ * returns null when nothing changed. Records are compared by reference.
+ */
+export const diffLibraries = (prev: Library, next: Library, label: string, at: number = Date.now()): HistoryEntry | null => {
+  const titles = diffRecords(prev.titles, next.titles);
+  const logs = diffRecords(prev.logs, next.logs);
+  if (titles.length === 0 && logs.length === 0) return null;
+  return { id: crypto.randomUUID(), label, at, titles, logs };
+};
+
+const applyRecords = <T extends { id: string }>(records: T[], changes: RecordChange<T>[], side: 'before' | 'after'): T[] => {
+  const targets = new Map(changes.map(c => [c.id, c[side]]));
+  const result: T[] = [];
+  records.forEach(r => {
+    if (!targets.has(r.id)) result.push(r);
+    else {
+      const target = targets.get(r.id);
+      if (target) result.push(target);
+      targets.delete(r.id);
+    }
+  });
+  // Records that did not exist in the current snapshot (e.g. restored deletions)
+  targets.forEach(target => { if (target) result.push(target); });
+  return result;
+};
+
+/** Rolls a library back to before `entry` ('undo') or forward to after it ('redo'). */
+export const applyHistoryEntry = (library: Library, entry: HistoryEntry, direction: 'undo' | 'redo'): Library => {
+  const side = direction === 'undo' ? 'before' : 'after';
+  return {
+    titles: applyRecords(library.titles, entry.titles, side),
+    logs: applyRecords(library.logs, entry.logs, side),
+  };
+};
+
+/** Records a new command. Redo steps are discarded, as in any editor. */
+export const pushHistory = (history: HistoryState, entry: HistoryEntry): HistoryState => ({
+  past: [...history.past, entry].slice(-MAX_HISTORY),
+  future: [],
+});
+
+/** Posters that undoing or redoing some entry could bring back, so they must not be deleted yet. */
+export const historyPosterIds = (history: HistoryState): Set<string> => {
+  const ids = new Set<string>();
+  [...history.past, ...history.future].forEach(entry => {
+    entry.titles.forEach(c => {
+      if (c.before?.posterId) ids.add(c.before.posterId);
+      if (c.after?.posterId) ids.add(c.after.posterId);
+    });
+  });
+  return ids;
+};
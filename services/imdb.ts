@@ -0,0 +1,125 @@
+import { Library, MovieStatus } from "../types";
+import { buildEntries } from "./library";
+import { escapeCsv, parseCSV } from "./csv";
+import { SCHEMA_VERSION } from "./schema";
+import { ratingLogId } from "./importPlan";
+
+// Columns of IMDb's ratings export; the watchlist export has the same layout without 'Your Rating'
+const EXPORT_HEADERS = ['Const', 'Your Rating', 'Date Rated', 'Title', 'URL', 'Title Type', 'Runtime (mins)', 'Year', 'Genres', 'Directors'];
+
+const ID_PREFIX = 'imdb-';
+
+// Rows without a Const (e.g. our own export of titles that didn't come from
+// IMDb) are keyed by name and year instead, as Letterboxd rows are
+const fallbackId = (name: string, year: string) =>
+  `${ID_PREFIX}${name.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '')}-${year}`;
+
+// The tt-id of a title imported from IMDb, or '' for any other title
+const imdbConst = (titleId: string) => {
+  const constId = titleId.startsWith(ID_PREFIX) ? titleId.slice(ID_PREFIX.length) : '';
+  return /^tt\d+$/.test(constId) ? constId : '';
+};
+
+const toDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const parseDay = (value: string | undefined): number | undefined => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return undefined;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 12).getTime();
+};
+
+const isTvType = (type: string) => /tv series|tv mini|tvseries|tvminiseries/i.test(type);
+
+/** Whether a CSV is an IMDb ratings or watchlist export. */
+export const isImdbCSV = (content: string): boolean => {
+  const [header] = parseCSV(content.slice(0, 4096));
+  return !!header && header.includes('Const') && header.includes('Title Type');
+};
+
+/**
+ * Parses an IMDb ratings (or watchlist) export into a raw library document
+ * for migrateLibrary. Ratings are out of 10 and are halved onto our 5-star
+ * scale; each rating becomes one viewing on the day it was rated.
+ */
+export const parseImdbCSV = (content: string): unknown => {
+  const [header, ...rows] = parseCSV(content);
+  if (!header) return { schemaVersion: SCHEMA_VERSION, titles: [], logs: [] };
+  const col = (values: string[], name: string) => {
+    const idx = header.indexOf(name);
+    return idx >= 0 ? (values[idx] || '').trim() : '';
+  };
+  const now = Date.now();
+  const titles: any[] = [];
+  const logs: any[] = [];
+
+  rows.forEach(values => {
+    const constId = col(values, 'Const');
+    const name = col(values, 'Title');
+    if (!name) return;
+    const year = col(values, 'Year');
+    const id = constId ? `${ID_PREFIX}${constId}` : fallbackId(name, year);
+    const score = parseFloat(col(values, 'Your Rating'));
+    const rated = Number.isFinite(score) && score > 0;
+    const addedAt = parseDay(col(values, 'Date Rated')) ?? parseDay(col(values, 'Created')) ?? now;
+    const mediaType = isTvType(col(values, 'Title Type')) ? 'tv' : 'movie';
+    const runtime = parseInt(col(values, 'Runtime (mins)'));
+
+    titles.push({
+      id,
+      title: name,
+      year,
+      genre: col(values, 'Genres').split(',').map(g => g.trim()).filter(Boolean).join(' / '),
+      director: col(values, 'Directors'),
+      status: rated ? MovieStatus.WATCHED : MovieStatus.PLANNING,
+      posterColor: '#4f46e5',
+      mediaType,
+      ...(mediaType === 'tv' ? { seasons: [{ number: 1, episodeCount: 0 }] } : {}),
+      ...(runtime > 0 ? { duration: runtime } : {}),
+      addedAt,
+      lastUpdated: addedAt,
+    });
+    if (rated) {
+      logs.push({
+        id: ratingLogId(id),
+        titleId: id,
+        watchedAt: addedAt,
+        rating: Math.min(5, Math.round(score) / 2),
+        note: '',
+        lastUpdated: addedAt,
+      });
+    }
+  });
+
+  return { schemaVersion: SCHEMA_VERSION, titles, logs };
+};
+
+/**
+ * Writes rated titles in the layout of IMDb's ratings export, with ratings
+ * doubled onto the 10-point scale. Titles imported from IMDb keep their
+ * tt-id; others leave Const empty and are matched by name and year when the
+ * file is read back.
+ */
+export const libraryToImdbCSV = (library: Library): string => {
+  const rows = buildEntries(library)
+    .filter(entry => entry.rating > 0)
+    .map(({ title, rating, logs, lastWatchedAt }) => {
+      const constId = imdbConst(title.id);
+      const ratedAt = logs.find(l => l.rating > 0)?.watchedAt ?? lastWatchedAt ?? title.addedAt;
+      return [
+        constId,
+        Math.round(rating * 2),
+        toDay(ratedAt),
+        title.title,
+        constId ? `https://www.imdb.com/title/${constId}/` : '',
+        title.mediaType === 'tv' ? 'TV Series' : 'Movie',
+        title.mediaType === 'movie' ? title.duration : undefined,
+        title.year,
+        title.genre.split(/[,，/、]+/).map(g => g.trim()).filter(Boolean).join(', '),
+        title.director,
+      ].map(escapeCsv).join(',');
+    });
+  return [EXPORT_HEADERS.join(','), ...rows].join('\n');
+};
@@ -0,0 +1,261 @@
+import { Library, Title, WatchLog } from "../types";
+import { LibraryDocument, PosterData, QuarantinedRecord } from "./schema";
+import { groupLogsByTitle, isTrashed } from "./library";
+
+// new: not in the library yet (or only brings new viewings of a known title)
+// identical: nothing would change
+// conflict: the library already has this title with different details
+export type ImportRowKind = 'new' | 'identical' | 'conflict';
+
+export type ConflictResolution = 'local' | 'incoming' | 'newer' | 'merge';
+
+export const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  local: '保留本地',
+  incoming: '使用导入',
+  newer: '保留较新',
+  merge: '逐字段合并',
+};
+
+// Title fields compared when deciding whether two records disagree. Ids,
+// timestamps and poster fields are bookkeeping and never count as conflicts.
+export const COMPARED_FIELDS = ['title', 'year', 'country', 'genre', 'director', 'status', 'mediaType', 'seasons', 'duration', 'tags', 'collections'] as const;
+export type ComparedField = typeof COMPARED_FIELDS[number];
+
+export const FIELD_LABELS: Record<ComparedField, string> = {
+  title: '标题',
+  year: '年份',
+  country: '国家/地区',
+  genre: '类型',
+  director: '导演',
+  status: '状态',
+  mediaType: '媒体类型',
+  seasons: '分季',
+  duration: '时长',
+  tags: '标签',
+  collections: '合集',
+};
+
+const LOG_FIELDS = ['watchedAt', 'season', 'episodeFrom', 'episodeTo', 'rating', 'note', 'location', 'platform'] as const;
+
+// Ratings exports (IMDb, Letterboxd's ratings.csv) say what a film was rated
+// and when, not when it was watched. Their logs get this id so an import can
+// put the rating on a viewing the library already has instead of adding one.
+const RATING_LOG_SUFFIX = '-rating';
+export const ratingLogId = (titleId: string) => `${titleId}${RATING_LOG_SUFFIX}`;
+export const isRatingOnlyLog = (log: WatchLog) => log.id.endsWith(RATING_LOG_SUFFIX);
+
+export interface LogMatch {
+  incoming: WatchLog;
+  local?: WatchLog;
+  differs: boolean;
+  replacesRating?: boolean; // A dated viewing taking the place of a local rating-only log
+}
+
+export interface ImportRow {
+  key: string; // The incoming title's id
+  kind: ImportRowKind;
+  incoming: Title;
+  local?: Title;
+  matchedBy?: 'id' | 'title';
+  diffFields: ComparedField[];
+  logs: LogMatch[];
+}
+
+export interface ImportPlan {
+  rows: ImportRow[];
+  invalid: QuarantinedRecord[];
+  posters: PosterData[];
+}
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const sameValue = (a: unknown, b: unknown) => (isBlank(a) && isBlank(b)) || JSON.stringify(a) === JSON.stringify(b);
+
+// Same work in another library: media type, title and year, ignoring case
+const titleKey = (t: Title) => `${t.mediaType}|${t.title.trim().toLowerCase()}|${t.year.trim()}`;
+
+const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`;
+};
+
+// Same viewing with a different id (e.g. re-imported from a legacy CSV): same day and episodes
+const logKey = (l: WatchLog) => `${dayKey(l.watchedAt)}|${l.season || ''}|${l.episodeFrom || ''}|${l.episodeTo || ''}`;
+
+const logDiffers = (local: WatchLog, incoming: WatchLog) =>
+  LOG_FIELDS.some(f => f === 'watchedAt' ? dayKey(local.watchedAt) !== dayKey(incoming.watchedAt) : !sameValue(local[f], incoming[f]));
+
+/**
+ * Compares an incoming (already migrated) document with the library. Titles
+ * are matched by id first, then by media type + title + year, so files whose
+ * ids were regenerated still line up with what is already there.
+ */
+export const buildImportPlan = (current: Library, doc: LibraryDocument, invalid: QuarantinedRecord[] = []): ImportPlan => {
+  const localById = new Map(current.titles.map(t => [t.id, t]));
+  const localByKey = new Map<string, Title>();
+  current.titles.forEach(t => {
+    // Prefer live titles over trashed ones with the same name
+    const existing = localByKey.get(titleKey(t));
+    if (!existing || (isTrashed(existing) && !isTrashed(t))) localByKey.set(titleKey(t), t);
+  });
+  const localLogsByTitle = groupLogsByTitle(current.logs);
+  const incomingLogsByTitle = groupLogsByTitle(doc.logs);
+  // A local title can only absorb one incoming title
+  const claimed = new Set<string>();
+
+  const rows = doc.titles.map((incoming): ImportRow => {
+    const incomingLogs = incomingLogsByTitle.get(incoming.id) || [];
+    let local = localById.get(incoming.id);
+    let matchedBy: ImportRow['matchedBy'] = 'id';
+    if (!local) {
+      local = localByKey.get(titleKey(incoming));
+      matchedBy = 'title';
+    }
+    if (!local || claimed.has(local.id)) {
+      return { key: incoming.id, kind: 'new', incoming, diffFields: [], logs: incomingLogs.map(l => ({ incoming: l, differs: false })) };
+    }
+    claimed.add(local.id);
+
+    const localLogs = localLogsByTitle.get(local.id) || [];
+    const localLogById = new Map(localLogs.map(l => [l.id, l]));
+    const localLogByKey = new Map(localLogs.map(l => [logKey(l), l]));
+    const logs: LogMatch[] = incomingLogs.map(l => ({ incoming: l, local: localLogById.get(l.id) || localLogByKey.get(logKey(l)), differs: false }));
+
+    // A rating-only log pairs with the latest viewing on the other side, whichever side it is on
+    const matched = new Set(logs.map(m => m.local?.id));
+    const latestFirst = [...localLogs].sort((a, b) => b.watchedAt - a.watchedAt);
+    logs
+      .filter(m => !m.local)
+      .sort((a, b) => b.incoming.watchedAt - a.incoming.watchedAt)
+      .forEach(m => {
+        const ratingOnly = isRatingOnlyLog(m.incoming);
+        const pair = latestFirst.find(l => !matched.has(l.id) && (ratingOnly || isRatingOnlyLog(l)));
+        if (!pair) return;
+        matched.add(pair.id);
+        m.local = pair;
+        m.replacesRating = !ratingOnly;
+      });
+
+    logs.forEach(m => {
+      if (!m.local || m.replacesRating) return;
+      m.differs = isRatingOnlyLog(m.incoming) ? m.local.rating !== m.incoming.rating : logDiffers(m.local, m.incoming);
+    });
+
+    const diffFields = COMPARED_FIELDS.filter(f => !sameValue(local![f], incoming[f]));
+    const kind = diffFields.length > 0 || logs.some(m => m.differs)
+      ? 'conflict'
+      : logs.some(m => !m.local || m.replacesRating) ? 'new' : 'identical';
+    return { key: incoming.id, kind, incoming, local, matchedBy, diffFields, logs };
+  });
+
+  return { rows, invalid, posters: doc.posters || [] };
+};
+
+/**
+ * Settles one conflicting record. `fields` are the ones the incoming side may
+ * overwrite; everything else (ids, addedAt, trash state) stays local.
+ */
+const resolveRecord = <T extends { lastUpdated: number }>(
+  local: T,
+  incoming: T,
+  fields: readonly (keyof T)[],
+  resolution: ConflictResolution,
+  now: number
+): T => {
+  const incomingIsNewer = incoming.lastUpdated > local.lastUpdated;
+  const takeIncoming = () => {
+    const next = { ...local };
+    fields.forEach(f => { next[f] = incoming[f]; });
+    return { ...next, lastUpdated: now };
+  };
+
+  switch (resolution) {
+    case 'local':
+      return local;
+    case 'incoming':
+      return takeIncoming();
+    case 'newer':
+      return incomingIsNewer ? takeIncoming() : local;
+    case 'merge': {
+      // Fill blanks from either side; where both have a value, the newer record wins
+      const next = { ...local };
+      fields.forEach(f => {
+        if (isBlank(incoming[f])) return;
+        if (isBlank(local[f]) || incomingIsNewer) next[f] = incoming[f];
+      });
+      return { ...next, lastUpdated: now };
+    }
+  }
+};
+
+/**
+ * Applies a plan to the library. Conflicts without an explicit choice keep
+ * the newer record. Returns the ids of posters the result references that
+ * still have to be written from the plan's inline posters.
+ */
+export const applyImportPlan = (
+  current: Library,
+  plan: ImportPlan,
+  resolutions: Record<string, ConflictResolution>,
+  now: number = Date.now()
+): { library: Library, posterIds: Set<string> } => {
+  const localTitleIds = new Set(current.titles.map(t => t.id));
+  const localLogIds = new Set(current.logs.map(l => l.id));
+  const localPosterIds = new Set(current.titles.map(t => t.posterId).filter(Boolean));
+  const newTitles: Title[] = [];
+  const newLogs: WatchLog[] = [];
+  const replacedTitles = new Map<string, Title>();
+  const replacedLogs = new Map<string, WatchLog>();
+  const absorbedLogIds = new Set<string>();
+
+  // Ids that would collide with an unrelated local record get a fresh one
+  const freshLogId = (id: string) => localLogIds.has(id) ? crypto.randomUUID() : id;
+
+  plan.rows.forEach(row => {
+    if (row.kind === 'identical') return;
+    const local = row.local;
+    if (!local) {
+      const id = localTitleIds.has(row.incoming.id) ? crypto.randomUUID() : row.incoming.id;
+      newTitles.push({ ...row.incoming, id });
+      row.logs.forEach(m => newLogs.push({ ...m.incoming, id: freshLogId(m.incoming.id), titleId: id }));
+      return;
+    }
+
+    const resolution = resolutions[row.key] || 'newer';
+    if (row.diffFields.length > 0) {
+      // Only take the incoming poster when the file actually carries one
+      const fields: (keyof Title)[] = row.incoming.posterId ? [...COMPARED_FIELDS, 'posterId', 'posterColor'] : [...COMPARED_FIELDS];
+      const resolved = resolveRecord(local, row.incoming, fields, resolution, now);
+      if (resolved !== local) replacedTitles.set(local.id, resolved);
+    }
+
+    row.logs.forEach(m => {
+      if (!m.local) {
+        newLogs.push({ ...m.incoming, id: freshLogId(m.incoming.id), titleId: local.id });
+      } else if (m.replacesRating) {
+        // The viewing keeps the rating if it doesn't bring its own
+        absorbedLogIds.add(m.local.id);
+        newLogs.push({ ...m.incoming, id: freshLogId(m.incoming.id), titleId: local.id, rating: m.incoming.rating || m.local.rating });
+      } else if (m.differs) {
+        const incoming = { ...m.incoming, id: m.local.id, titleId: local.id };
+        // A rating-only log may only change the rating, never the viewing's date or details
+        const fields = isRatingOnlyLog(m.incoming) ? ['rating'] as const : LOG_FIELDS;
+        const resolved = resolveRecord(m.local, incoming, fields, resolution, now);
+        if (resolved !== m.local) replacedLogs.set(m.local.id, resolved);
+      }
+    });
+  });
+
+  const titles = [...newTitles, ...current.titles.map(t => replacedTitles.get(t.id) || t)];
+  const posterIds = new Set(
+    titles.map(t => t.posterId).filter((id): id is string => !!id && !localPosterIds.has(id))
+  );
+  return {
+    library: {
+      titles,
+      logs: [...current.logs.filter(l => !absorbedLogIds.has(l.id)).map(l => replacedLogs.get(l.id) || l), ...newLogs],
+    },
+    posterIds,
+  };
+};
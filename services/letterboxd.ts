@@ -0,0 +1,148 @@
+import { Library, MovieStatus } from "../types";
+import { escapeCsv, parseCSV } from "./csv";
+import { SCHEMA_VERSION } from "./schema";
+import { ratingLogId } from "./importPlan";
+import { normalizeTags } from "./tags";
+
+// Headers of the import format Letterboxd accepts (letterboxd.com/import)
+const EXPORT_HEADERS = ['Title', 'Year', 'Directors', 'WatchedDate', 'Rating', 'Rewatch', 'Review', 'Tags'];
+
+const toDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const parseDay = (value: string | undefined): number | undefined => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return undefined;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 12).getTime();
+};
+
+// Letterboxd ratings are half stars from 0.5 to 5, the same scale as ours
+const parseRating = (value: string | undefined) => {
+  const rating = parseFloat(value || '');
+  return Number.isFinite(rating) ? Math.min(5, Math.max(0, Math.round(rating * 2) / 2)) : 0;
+};
+
+// Diary URIs point at the diary entry rather than the film, so titles are keyed by name and year
+const titleId = (name: string, year: string) =>
+  `letterboxd-${name.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '')}-${year}`;
+
+/** Whether a CSV is one of Letterboxd's account exports. */
+export const isLetterboxdCSV = (content: string): boolean => {
+  const [header] = parseCSV(content.slice(0, 4096));
+  return !!header && header.includes('Letterboxd URI') && header.includes('Name');
+};
+
+/**
+ * Parses diary.csv, reviews.csv, ratings.csv or watchlist.csv into a raw
+ * library document for migrateLibrary. Each diary row becomes a viewing;
+ * ratings.csv gives one rating-only log per film, which lands on a logged
+ * viewing when there is one; the watchlist becomes 想看 titles without viewings.
+ */
+export const parseLetterboxdCSV = (content: string): unknown => {
+  const [header, ...rows] = parseCSV(content);
+  if (!header) return { schemaVersion: SCHEMA_VERSION, titles: [], logs: [] };
+  const col = (values: string[], name: string) => {
+    const idx = header.indexOf(name);
+    return idx >= 0 ? (values[idx] || '').trim() : '';
+  };
+  const isWatchlist = !header.includes('Rating');
+  // ratings.csv has no watched dates, only when each rating was given
+  const isRatings = !isWatchlist && !header.includes('Watched Date');
+  const now = Date.now();
+
+  const titles = new Map<string, any>();
+  const logs: any[] = [];
+  const logCountByDay = new Map<string, number>();
+
+  rows.forEach(values => {
+    const name = col(values, 'Name');
+    if (!name) return;
+    const year = col(values, 'Year');
+    const id = titleId(name, year);
+    const addedAt = parseDay(col(values, 'Date')) ?? now;
+    const tags = normalizeTags(col(values, 'Tags').split(','));
+
+    const existing = titles.get(id);
+    if (!existing) {
+      titles.set(id, {
+        id,
+        title: name,
+        year,
+        genre: '',
+        ...(tags.length > 0 ? { tags } : {}),
+        status: isWatchlist ? MovieStatus.PLANNING : MovieStatus.WATCHED,
+        posterColor: '#4f46e5',
+        mediaType: 'movie',
+        addedAt,
+        lastUpdated: addedAt,
+      });
+    } else {
+      existing.addedAt = Math.min(existing.addedAt, addedAt);
+    }
+    if (isWatchlist) return;
+
+    if (isRatings) {
+      logs.push({
+        id: ratingLogId(id),
+        titleId: id,
+        watchedAt: addedAt,
+        rating: parseRating(col(values, 'Rating')),
+        note: '',
+        lastUpdated: addedAt,
+      });
+      return;
+    }
+
+    const watchedAt = parseDay(col(values, 'Watched Date')) ?? addedAt;
+    // Several viewings on one day are rare but valid; number them so ids stay stable across imports
+    const dayKey = `${id}-${toDay(watchedAt)}`;
+    const n = (logCountByDay.get(dayKey) || 0) + 1;
+    logCountByDay.set(dayKey, n);
+    logs.push({
+      id: n > 1 ? `${dayKey}-${n}` : dayKey,
+      titleId: id,
+      watchedAt,
+      rating: parseRating(col(values, 'Rating')),
+      note: col(values, 'Review'),
+      lastUpdated: addedAt,
+    });
+  });
+
+  return { schemaVersion: SCHEMA_VERSION, titles: Array.from(titles.values()), logs };
+};
+
+/**
+ * Writes the library in Letterboxd's import format, one row per viewing.
+ * Letterboxd only knows films, so TV titles and 想看 entries are left out.
+ */
+export const libraryToLetterboxdCSV = (library: Library): string => {
+  const titleById = new Map(library.titles.map(t => [t.id, t]));
+  const seen = new Set<string>();
+  const rows: string[] = [];
+
+  [...library.logs].sort((a, b) => a.watchedAt - b.watchedAt).forEach(log => {
+    const title = titleById.get(log.titleId);
+    if (!title || title.mediaType !== 'movie') return;
+    const rewatch = seen.has(title.id);
+    seen.add(title.id);
+    rows.push([
+      title.title,
+      title.year,
+      title.director,
+      toDay(log.watchedAt),
+      log.rating > 0 ? Math.round(log.rating * 2) / 2 : '',
+      rewatch ? 'Yes' : '',
+      log.note,
+      (title.tags || []).join(', '),
+    ].map(escapeCsv).join(','));
+  });
+
+  // Films marked 已看 without any logged viewing still carry over, undated
+  library.titles
+    .filter(t => t.mediaType === 'movie' && t.status === MovieStatus.WATCHED && !seen.has(t.id))
+    .forEach(t => rows.push([t.title, t.year, t.director, '', '', '', '', (t.tags || []).join(', ')].map(escapeCsv).join(',')));
+
+  return [EXPORT_HEADERS.join(','), ...rows].join('\n');
+};
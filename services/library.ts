@@ -0,0 +1,270 @@
+import { EntryDraft, Library, LibraryEntry, MovieStatus, SeasonProgress, Title, WatchLog } from "../types";
+
+// Guard against absurd ranges (typos like 1-100000) when expanding episodes
+const MAX_EPISODES_PER_LOG = 2000;
+
+/** Episode numbers covered by a log, or an empty list for movie logs. */
+export const logEpisodes = (log: WatchLog): number[] => {
+  if (!log.episodeTo) return [];
+  const from = Math.max(1, log.episodeFrom || log.episodeTo);
+  const to = Math.min(log.episodeTo, from + MAX_EPISODES_PER_LOG);
+  const episodes: number[] = [];
+  for (let ep = from; ep <= to; ep++) episodes.push(ep);
+  return episodes;
+};
+
+export const logSeason = (log: WatchLog): number => log.season || 1;
+
+/** Runtime of one episode in a season, falling back to the title's default. */
+export const episodeDuration = (title: Title, season: number): number =>
+  title.seasons?.find(s => s.number === season)?.episodeDuration ?? title.duration ?? 0;
+
+const deriveSeasonStatus = (title: Title, watched: number, episodeCount: number): MovieStatus => {
+  if (episodeCount > 0 ? watched >= episodeCount : watched > 0 && title.status === MovieStatus.WATCHED) {
+    return MovieStatus.WATCHED;
+  }
+  if (watched === 0) return MovieStatus.PLANNING;
+  return title.status === MovieStatus.DROPPED ? MovieStatus.DROPPED : MovieStatus.WATCHING;
+};
+
+/**
+ * Progress through each season of a TV title. Seasons that only appear in logs
+ * (e.g. the season list was never filled in) are included with an unknown length.
+ */
+export const seasonProgress = (title: Title, logs: WatchLog[]): SeasonProgress[] => {
+  if (title.mediaType !== 'tv') return [];
+  const watched = new Map<number, Set<number>>();
+  logs.forEach(l => {
+    const episodes = logEpisodes(l);
+    if (episodes.length === 0) return;
+    const set = watched.get(logSeason(l)) || new Set<number>();
+    episodes.forEach(ep => set.add(ep));
+    watched.set(logSeason(l), set);
+  });
+
+  const numbers = new Set([...(title.seasons || []).map(s => s.number), ...watched.keys()]);
+  return Array.from(numbers).sort((a, b) => a - b).map(number => {
+    const season = title.seasons?.find(s => s.number === number);
+    const episodes = watched.get(number) || new Set<number>();
+    const episodeCount = season?.episodeCount || 0;
+    return {
+      number,
+      episodeCount,
+      watchedEpisodes: episodes.size,
+      lastEpisode: episodes.size > 0 ? Math.max(...episodes) : 0,
+      status: season?.status || deriveSeasonStatus(title, episodes.size, episodeCount),
+    };
+  });
+};
+
+export const groupLogsByTitle = (logs: WatchLog[]): Map<string, WatchLog[]> => {
+  const map = new Map<string, WatchLog[]>();
+  logs.forEach(log => {
+    const list = map.get(log.titleId);
+    if (list) list.push(log);
+    else map.set(log.titleId, [log]);
+  });
+  map.forEach(list => list.sort((a, b) => b.watchedAt - a.watchedAt));
+  return map;
+};
+
+export const buildEntry = (title: Title, logs: WatchLog[]): LibraryEntry => {
+  const rated = logs.find(l => l.rating > 0);
+  const reviewed = logs.find(l => l.note.trim().length > 0);
+  const seasons = seasonProgress(title, logs);
+  return {
+    title,
+    logs,
+    rating: rated ? rated.rating : 0,
+    review: reviewed ? reviewed.note : '',
+    lastWatchedAt: logs[0]?.watchedAt,
+    seasons,
+    watchedEpisodes: seasons.reduce((sum, s) => sum + s.watchedEpisodes, 0),
+    totalEpisodes: seasons.reduce((sum, s) => sum + s.episodeCount, 0),
+  };
+};
+
+/** Joins titles with their logs. Logs inside each entry are newest first. */
+export const buildEntries = (library: Library): LibraryEntry[] => {
+  const byTitle = groupLogsByTitle(library.logs);
+  return library.titles.map(t => buildEntry(t, byTitle.get(t.id) || []));
+};
+
+/** The date an entry is filed under: its latest viewing, or when it was added. */
+export const entryDate = (entry: LibraryEntry): number => entry.lastWatchedAt ?? entry.title.addedAt;
+
+/**
+ * The episode to suggest for the next viewing of a TV title: the one after the
+ * most recent log, rolling over into the next season once a season is finished.
+ */
+export const nextEpisode = (entry: LibraryEntry): { season: number, episode: number } | null => {
+  const latest = entry.logs.find(l => l.episodeTo);
+  if (entry.title.mediaType !== 'tv' || !latest || !latest.episodeTo) return null;
+  const season = logSeason(latest);
+  const episodeCount = entry.seasons.find(s => s.number === season)?.episodeCount || 0;
+  if (episodeCount > 0 && latest.episodeTo >= episodeCount) {
+    const following = entry.seasons.find(s => s.number > season);
+    if (following) return { season: following.number, episode: 1 };
+  }
+  return { season, episode: latest.episodeTo + 1 };
+};
+
+/** Permanently deletes titles and their logs. */
+export const removeTitles = (library: Library, ids: Set<string>): Library => ({
+  titles: library.titles.filter(t => !ids.has(t.id)),
+  logs: library.logs.filter(l => !ids.has(l.titleId)),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isTrashed = (title: Title): boolean => title.deletedAt !== undefined;
+
+/** Moves titles to the trash. Their logs stay put so a restore brings everything back. */
+export const trashTitles = (library: Library, ids: Set<string>, now: number = Date.now()): Library => ({
+  ...library,
+  titles: library.titles.map(t => ids.has(t.id) && !isTrashed(t) ? { ...t, deletedAt: now, lastUpdated: now } : t),
+});
+
+export const restoreTitles = (library: Library, ids: Set<string>, now: number = Date.now()): Library => ({
+  ...library,
+  titles: library.titles.map(t => {
+    if (!ids.has(t.id) || !isTrashed(t)) return t;
+    const { deletedAt, ...rest } = t;
+    return { ...rest, lastUpdated: now };
+  }),
+});
+
+/** Ids of titles that have been in the trash longer than `retentionDays`. 0 keeps them forever. */
+export const expiredTrash = (library: Library, retentionDays: number, now: number = Date.now()): Set<string> => {
+  if (retentionDays <= 0) return new Set();
+  const cutoff = now - retentionDays * DAY_MS;
+  return new Set(library.titles.filter(t => t.deletedAt !== undefined && t.deletedAt < cutoff).map(t => t.id));
+};
+
+/** The library minus trashed titles and their logs, for exports. */
+export const withoutTrash = (library: Library): Library => {
+  const trashed = new Set(library.titles.filter(isTrashed).map(t => t.id));
+  return trashed.size === 0 ? library : removeTitles(library, trashed);
+};
+
+/**
+ * Creates or updates a title and optionally records a viewing against it.
+ * Returns the new library and the id of the title that was saved.
+ */
+export const saveEntry = (
+  library: Library,
+  draft: EntryDraft,
+  now: number = Date.now()
+): { library: Library, titleId: string } => {
+  let { titles, logs } = library;
+  const titleId = draft.titleId || crypto.randomUUID();
+
+  if (draft.titleId) {
+    titles = titles.map(t => t.id === titleId ? { ...t, ...draft.title, lastUpdated: now } : t);
+  } else {
+    titles = [{ ...draft.title, id: titleId, addedAt: now, lastUpdated: now }, ...titles];
+  }
+
+  if (draft.deletedLogIds && draft.deletedLogIds.length > 0) {
+    const deleted = new Set(draft.deletedLogIds);
+    logs = logs.filter(l => !deleted.has(l.id));
+  }
+
+  if (draft.log) {
+    const { id, ...fields } = draft.log;
+    if (id) {
+      logs = logs.map(l => l.id === id ? { ...l, ...fields, lastUpdated: now } : l);
+    } else {
+      logs = [...logs, { ...fields, id: crypto.randomUUID(), titleId, lastUpdated: now }];
+    }
+  }
+
+  return { library: completeIfFinished({ titles, logs }, titleId, now), titleId };
+};
+
+/**
+ * Moves a TV title that is being watched (or planned) to 已看 once every
+ * episode of every season has been logged. Seasons of unknown length never
+ * count as finished.
+ */
+export const completeIfFinished = (library: Library, titleId: string, now: number = Date.now()): Library => {
+  const title = library.titles.find(t => t.id === titleId);
+  if (!title || title.mediaType !== 'tv') return library;
+  if (title.status !== MovieStatus.WATCHING && title.status !== MovieStatus.PLANNING) return library;
+
+  const seasons = seasonProgress(title, library.logs.filter(l => l.titleId === titleId));
+  const finished = seasons.length > 0 && seasons.every(s => s.episodeCount > 0 && s.watchedEpisodes >= s.episodeCount);
+  if (!finished) return library;
+
+  return {
+    ...library,
+    titles: library.titles.map(t => t.id === titleId ? { ...t, status: MovieStatus.WATCHED, lastUpdated: now } : t),
+  };
+};
+
+/**
+ * Logs the episode after the last one watched as a single-episode viewing at
+ * `now`. Returns null when there is nothing left to watch.
+ */
+export const markNextEpisodeWatched = (
+  library: Library,
+  titleId: string,
+  now: number = Date.now()
+): { library: Library, log: WatchLog } | null => {
+  const title = library.titles.find(t => t.id === titleId);
+  if (!title || title.mediaType !== 'tv') return null;
+  const entry = buildEntry(title, groupLogsByTitle(library.logs.filter(l => l.titleId === titleId)).get(titleId) || []);
+
+  const next = nextEpisode(entry) || { season: entry.seasons[0]?.number || 1, episode: 1 };
+  const episodeCount = entry.seasons.find(s => s.number === next.season)?.episodeCount || 0;
+  if (episodeCount > 0 && next.episode > episodeCount) return null;
+
+  const log: WatchLog = {
+    id: crypto.randomUUID(),
+    titleId,
+    watchedAt: now,
+    season: next.season,
+    episodeFrom: next.episode,
+    episodeTo: next.episode,
+    rating: 0,
+    note: '',
+    lastUpdated: now,
+  };
+  const updated = { ...library, logs: [...library.logs, log] };
+  return { library: completeIfFinished(updated, titleId, now), log };
+};
+
+export const updateLogNote = (library: Library, logId: string, note: string, now: number = Date.now()): Library => ({
+  ...library,
+  logs: library.logs.map(l => l.id === logId ? { ...l, note, lastUpdated: now } : l),
+});
+
+export interface RewatchInfo {
+  // Viewings that repeated something already seen (movie re-viewings, or TV
+  // logs whose episodes were all covered by earlier logs)
+  rewatchLogIds: Set<string>;
+  // First and latest rating, when at least two viewings were rated
+  ratingDrift?: { first: number, latest: number };
+}
+
+export const rewatchInfo = (entry: LibraryEntry): RewatchInfo => {
+  const chronological = [...entry.logs].sort((a, b) => a.watchedAt - b.watchedAt);
+  const rewatchLogIds = new Set<string>();
+
+  if (entry.title.mediaType === 'movie') {
+    chronological.slice(1).forEach(l => rewatchLogIds.add(l.id));
+  } else {
+    const seen = new Set<string>();
+    chronological.forEach(l => {
+      const episodes = logEpisodes(l).map(ep => `${logSeason(l)}:${ep}`);
+      if (episodes.length > 0 && episodes.every(ep => seen.has(ep))) rewatchLogIds.add(l.id);
+      episodes.forEach(ep => seen.add(ep));
+    });
+  }
+
+  const rated = chronological.filter(l => l.rating > 0);
+  return {
+    rewatchLogIds,
+    ratingDrift: rated.length >= 2 ? { first: rated[0].rating, latest: rated[rated.length - 1].rating } : undefined,
+  };
+};
@@ -0,0 +1,105 @@
+import { MediaType, SeasonMetadata, TitleMetadata } from "../types";
+
+// A candidate returned by a provider's search, before details are fetched
+export interface MetadataSearchResult {
+  providerId: string;
+  externalId: string; // The provider's own id for the title
+  title: string;
+  originalTitle?: string;
+  year: string;
+  mediaType: MediaType;
+  director?: string; // When the search response already has it
+  overview?: string;
+  posterUrl?: string;
+}
+
+/**
+ * A source of title metadata (an LLM, a REST API, local fixtures). Methods
+ * throw on failure rather than returning null, so callers can say why and
+ * move on to the next provider.
+ */
+export interface MetadataProvider {
+  id: string;
+  label: string;
+  // False when the provider cannot work here, e.g. its API key is missing
+  isConfigured: () => boolean;
+  search: (query: string) => Promise<MetadataSearchResult[]>;
+  getDetails: (result: MetadataSearchResult) => Promise<TitleMetadata>;
+  getSeasons: (result: MetadataSearchResult) => Promise<SeasonMetadata[]>;
+  getPoster: (result: MetadataSearchResult) => Promise<Blob | null>;
+}
+
+export interface ProviderFailure {
+  providerId: string;
+  label: string;
+  message: string;
+  retryable: boolean; // The provider errored, as opposed to being unconfigured or finding nothing
+}
+
+export interface MetadataLookup {
+  provider: MetadataProvider;
+  result: MetadataSearchResult;
+  metadata: TitleMetadata;
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+/** Downloads a poster image, or null when there is none or it cannot be fetched. */
+export const fetchPosterBlob = async (url: string | undefined): Promise<Blob | null> => {
+  if (!url) return null;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return blob.type.startsWith('image/') ? blob : null;
+  } catch (error) {
+    console.error("Poster download failed:", error);
+    return null;
+  }
+};
+
+/**
+ * Searches with each provider in turn and returns the ranked candidates of
+ * the first one that finds anything. Failures, including "no results", are
+ * collected so the caller can report them when every provider fails.
+ */
+export const searchMetadata = async (
+  providers: MetadataProvider[],
+  query: string
+): Promise<{ provider: MetadataProvider | null, results: MetadataSearchResult[], failures: ProviderFailure[] }> => {
+  const failures: ProviderFailure[] = [];
+  for (const provider of providers) {
+    const fail = (message: string, retryable = false) => failures.push({ providerId: provider.id, label: provider.label, message, retryable });
+    if (!provider.isConfigured()) {
+      fail('未配置');
+      continue;
+    }
+    try {
+      const results = await provider.search(query);
+      if (results.length > 0) return { provider, results, failures };
+      fail('没有找到结果');
+    } catch (error) {
+      console.error(`Metadata provider ${provider.id} failed:`, error);
+      fail(errorMessage(error), true);
+    }
+  }
+  return { provider: null, results: [], failures };
+};
+
+/** Details of the top candidate from the first provider that finds the title. */
+export const lookupMetadata = async (
+  providers: MetadataProvider[],
+  query: string
+): Promise<{ lookup: MetadataLookup | null, failures: ProviderFailure[] }> => {
+  const { provider, results, failures } = await searchMetadata(providers, query);
+  if (!provider) return { lookup: null, failures };
+  try {
+    return { lookup: { provider, result: results[0], metadata: await provider.getDetails(results[0]) }, failures };
+  } catch (error) {
+    console.error(`Metadata provider ${provider.id} failed:`, error);
+    return { lookup: null, failures: [...failures, { providerId: provider.id, label: provider.label, message: errorMessage(error), retryable: true }] };
+  }
+};
+
+/** Key under which a picked candidate is remembered for a search query. */
+export const pickKey = (query: string) => query.trim().toLowerCase().replace(/\s+/g, ' ');
@@ -0,0 +1,114 @@
+import { TitleMetadata } from "../types";
+import { MetadataProvider, MetadataSearchResult, pickKey } from "./metadata";
+import { MetadataCacheRecord, getCachedMetadata, listCachedMetadata, putCachedMetadata } from "./storage";
+
+// Cached answers are refetched after this long, but still used when offline or the provider fails
+export const METADATA_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const isExpired = (record: MetadataCacheRecord, now: number = Date.now()) =>
+  now - record.cachedAt > METADATA_CACHE_TTL_MS;
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Requests currently running, so repeated clicks share one call instead of firing several
+const inFlight = new Map<string, Promise<unknown>>();
+
+const cachedCall = <T>(
+  record: Omit<MetadataCacheRecord, 'value' | 'cachedAt'>,
+  fetcher: () => Promise<T>,
+  shouldStore: (value: T) => boolean = () => true
+): Promise<T> => {
+  const pending = inFlight.get(record.key);
+  if (pending) return pending as Promise<T>;
+
+  const run = (async () => {
+    const cached = await getCachedMetadata(record.key).catch(() => null);
+    if (cached && (!isExpired(cached) || isOffline())) return cached.value as T;
+    try {
+      const value = await fetcher();
+      if (shouldStore(value)) {
+        putCachedMetadata({ ...record, value, cachedAt: Date.now() }).catch(err => console.error(err));
+      }
+      return value;
+    } catch (error) {
+      // Stale data beats none when the provider is down or unreachable
+      if (cached) {
+        console.warn(`Using stale metadata for ${record.key}:`, error);
+        return cached.value as T;
+      }
+      throw error;
+    }
+  })();
+
+  inFlight.set(record.key, run);
+  run.then(() => inFlight.delete(record.key), () => inFlight.delete(record.key));
+  return run;
+};
+
+/**
+ * Wraps a provider so searches (by normalized query) and details (by the
+ * provider's id) are cached in IndexedDB and concurrent identical calls are
+ * coalesced. Posters are not cached here; saved posters live with the title.
+ */
+export const withMetadataCache = (provider: MetadataProvider): MetadataProvider => ({
+  ...provider,
+
+  search: query => cachedCall(
+    { key: `search:${provider.id}:${pickKey(query)}`, providerId: provider.id, kind: 'search', label: query.trim() },
+    () => provider.search(query),
+    results => results.length > 0 // A miss may be a typo; do not remember it
+  ),
+
+  getDetails: result => cachedCall(
+    { key: `details:${provider.id}:${result.externalId}`, providerId: provider.id, kind: 'details', label: result.year ? `${result.title} (${result.year})` : result.title },
+    () => provider.getDetails(result)
+  ),
+});
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s\-_：:·.,，。!！?？'"]+/g, '');
+
+/**
+ * Searches everything any provider has returned before, ignoring expiry.
+ * Last in the fallback order, so the form can still fill in titles offline.
+ */
+export const cacheProvider: MetadataProvider = {
+  id: 'cache',
+  label: '本地缓存',
+  isConfigured: () => true,
+
+  search: async query => {
+    const q = normalize(query);
+    if (!q) return [];
+    const records = await listCachedMetadata();
+    return records
+      .filter(r => r.kind === 'details')
+      .filter(r => {
+        const metadata = r.value as TitleMetadata;
+        return [metadata.title, metadata.originalTitle || ''].map(normalize).some(name => name && (name.includes(q) || q.includes(name)));
+      })
+      .sort((a, b) => b.cachedAt - a.cachedAt)
+      .map((r): MetadataSearchResult => {
+        const metadata = r.value as TitleMetadata;
+        return {
+          providerId: 'cache',
+          externalId: r.key,
+          title: metadata.title,
+          originalTitle: metadata.originalTitle,
+          year: metadata.year,
+          mediaType: metadata.mediaType,
+          director: metadata.director,
+          overview: metadata.summary,
+        };
+      });
+  },
+
+  getDetails: async result => {
+    const record = await getCachedMetadata(result.externalId);
+    if (!record) throw new Error('缓存已被清除');
+    return record.value as TitleMetadata;
+  },
+
+  getSeasons: async result => (await cacheProvider.getDetails(result)).seasons || [],
+
+  getPoster: async () => null,
+};
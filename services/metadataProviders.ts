@@ -0,0 +1,23 @@
+import { MetadataProvider } from "./metadata";
+import { geminiProvider } from "./geminiService";
+import { createTmdbProvider } from "./tmdbProvider";
+import { createFixtureProvider } from "./fixtureProvider";
+import { cacheProvider, withMetadataCache } from "./metadataCache";
+import { apiStatus } from "./apiStatus";
+
+const tmdbProvider = createTmdbProvider({ isConfigured: () => apiStatus.tmdb });
+
+// Default fallback order: structured APIs first, then the LLM, then offline data.
+// Network providers are cached; the fixtures are local already.
+export const METADATA_PROVIDERS: MetadataProvider[] = [
+  withMetadataCache(tmdbProvider),
+  withMetadataCache(geminiProvider),
+  createFixtureProvider(),
+  cacheProvider,
+];
+
+/** All providers, with the preferred one moved to the front. */
+export const providerOrder = (preferredId: string | null): MetadataProvider[] => {
+  const preferred = METADATA_PROVIDERS.find(p => p.id === preferredId);
+  return preferred ? [preferred, ...METADATA_PROVIDERS.filter(p => p !== preferred)] : METADATA_PROVIDERS;
+};
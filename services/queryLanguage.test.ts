@@ -0,0 +1,240 @@
+import { describe, expect, it } from "vitest";
+import { Library, MovieStatus, Title, WatchLog } from "../types";
+import { buildEntries } from "./library";
+import { QueryNode, evaluateQuery, looksLikeQuery, parseQuery } from "./queryLanguage";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12).getTime();
+
+const title = (id: string, fields: Partial<Title>): Title => ({
+  id,
+  title: id,
+  year: '2010',
+  genre: '',
+  status: MovieStatus.WATCHED,
+  posterColor: '#4f46e5',
+  mediaType: 'movie',
+  addedAt: 0,
+  lastUpdated: 0,
+  ...fields,
+});
+
+const log = (titleId: string, watchedAt: number, rating: number, note = ''): WatchLog => ({
+  id: `${titleId}-${watchedAt}`,
+  titleId,
+  watchedAt,
+  rating,
+  note,
+  lastUpdated: watchedAt,
+});
+
+const library: Library = {
+  titles: [
+    title('inception', { title: '盗梦空间', year: '2010', genre: '科幻 / 悬疑', director: '诺兰', country: '美国', tags: ['影院'] }),
+    title('interstellar', { title: '星际穿越', year: '2014', genre: '科幻', director: '诺兰', country: '美国' }),
+    title('endgame', { title: '复仇者联盟：终局之战', year: '2019', genre: '动作', director: '罗素兄弟', country: '美国' }),
+    title('midnight', { title: '深夜食堂', year: '2009', genre: '剧情', country: '日本', mediaType: 'tv', status: MovieStatus.DROPPED }),
+    title('parasite', { title: '寄生虫', year: '2019', genre: '剧情', director: '奉俊昊', country: '韩国', status: MovieStatus.PLANNING }),
+  ],
+  logs: [
+    log('inception', day(2022, 3, 1), 5, 'IMAX 重映'),
+    log('interstellar', day(2023, 6, 15), 4.5),
+    log('endgame', day(2023, 12, 31), 3),
+    log('midnight', day(2024, 1, 1), 2),
+  ],
+};
+const entries = buildEntries(library);
+
+// Plain substring matching keeps these tests independent of the fuzzy matcher
+const includes = (text: string | undefined, search: string) => (text || '').toLowerCase().includes(search.toLowerCase());
+
+const parse = (query: string): QueryNode => {
+  const { node, error } = parseQuery(query);
+  if (!node) throw new Error(`${query}: ${error.message}`);
+  return node;
+};
+
+const search = (query: string) => {
+  const node = parse(query);
+  return entries.filter(entry => evaluateQuery(node, entry, includes)).map(entry => entry.title.id);
+};
+
+const errorOf = (query: string) => {
+  const { error } = parseQuery(query);
+  if (!error) throw new Error(`${query} parsed without an error`);
+  return error;
+};
+
+describe('parseQuery', () => {
+  it('ANDs terms by default and groups OR below AND', () => {
+    expect(parse('director:诺兰 year:2014')).toEqual({
+      kind: 'and',
+      children: [
+        { kind: 'match', field: 'director', value: '诺兰', exact: false },
+        { kind: 'range', field: 'year', range: { min: 2014, max: 2014 } },
+      ],
+    });
+    expect(parse('a b OR c')).toEqual({
+      kind: 'or',
+      children: [
+        { kind: 'and', children: [{ kind: 'text', value: 'a', exact: false }, { kind: 'text', value: 'b', exact: false }] },
+        { kind: 'text', value: 'c', exact: false },
+      ],
+    });
+    expect(parse('a AND b')).toEqual(parse('a b'));
+  });
+
+  it('negates with NOT and a leading minus', () => {
+    const negated = { kind: 'not', child: { kind: 'status', status: MovieStatus.DROPPED } };
+    expect(parse('NOT status:弃坑')).toEqual(negated);
+    expect(parse('-status:弃坑')).toEqual(negated);
+    // A minus inside a word is just part of it
+    expect(parse('spider-man')).toEqual({ kind: 'text', value: 'spider-man', exact: false });
+  });
+
+  it('groups with ASCII and full-width parentheses', () => {
+    const grouped = {
+      kind: 'and',
+      children: [
+        { kind: 'or', children: [{ kind: 'type', mediaType: 'tv' }, { kind: 'match', field: 'country', value: '日本', exact: false }] },
+        { kind: 'text', value: '食堂', exact: false },
+      ],
+    };
+    expect(parse('(type:tv OR country:日本) 食堂')).toEqual(grouped);
+    expect(parse('（type:tv OR country:日本） 食堂')).toEqual(grouped);
+  });
+
+  it('keeps quoted phrases whole and exact', () => {
+    expect(parse('"星际 穿越"')).toEqual({ kind: 'text', value: '星际 穿越', exact: true });
+    expect(parse('title:"复仇者联盟：终局"')).toEqual({ kind: 'match', field: 'title', value: '复仇者联盟：终局', exact: true });
+  });
+
+  it('reads comparisons and ranges on year, rating and watched', () => {
+    expect(parse('year:>2010')).toEqual({ kind: 'range', field: 'year', range: { min: 2011 } });
+    expect(parse('year:>=2010')).toEqual({ kind: 'range', field: 'year', range: { min: 2010 } });
+    expect(parse('year:<2010')).toEqual({ kind: 'range', field: 'year', range: { max: 2009 } });
+    expect(parse('year:2010..2020')).toEqual({ kind: 'range', field: 'year', range: { min: 2010, max: 2020 } });
+    expect(parse('year:2010..')).toEqual({ kind: 'range', field: 'year', range: { min: 2010 } });
+
+    expect(parse('rating:>4')).toEqual({ kind: 'range', field: 'rating', range: { min: 4.5 } });
+    expect(parse('rating:>=3.5')).toEqual({ kind: 'range', field: 'rating', range: { min: 3.5 } });
+    expect(parse('rating:<3')).toEqual({ kind: 'range', field: 'rating', range: { max: 2.5 } });
+    expect(parse('rating:..2')).toEqual({ kind: 'range', field: 'rating', range: { max: 2 } });
+
+    // Dates cover the whole year, month or day
+    expect(parse('watched:2023')).toEqual({
+      kind: 'range', field: 'watched', range: { min: new Date(2023, 0, 1).getTime(), max: new Date(2024, 0, 1).getTime() - 1 },
+    });
+    expect(parse('watched:>2023-06')).toEqual({ kind: 'range', field: 'watched', range: { min: new Date(2023, 6, 1).getTime() } });
+    expect(parse('watched:>=2023-06')).toEqual({ kind: 'range', field: 'watched', range: { min: new Date(2023, 5, 1).getTime() } });
+    expect(parse('watched:<2023-06-15')).toEqual({ kind: 'range', field: 'watched', range: { max: new Date(2023, 5, 15).getTime() - 1 } });
+    expect(parse('watched:2023-01-01..2023-03-31')).toEqual({
+      kind: 'range', field: 'watched', range: { min: new Date(2023, 0, 1).getTime(), max: new Date(2023, 3, 1).getTime() - 1 },
+    });
+  });
+
+  it('accepts Chinese field names and values', () => {
+    expect(parse('导演：诺兰')).toEqual({ kind: 'match', field: 'director', value: '诺兰', exact: false });
+    expect(parse('状态:想看')).toEqual({ kind: 'status', status: MovieStatus.PLANNING });
+    expect(parse('type:剧')).toEqual({ kind: 'type', mediaType: 'tv' });
+  });
+
+  it('reads a colon in a title as part of the title', () => {
+    expect(parse('复仇者联盟：终局之战')).toEqual({ kind: 'text', value: '复仇者联盟：终局之战', exact: false });
+    expect(parse('复仇者联盟:终局之战 year:2019')).toEqual({
+      kind: 'and',
+      children: [
+        { kind: 'text', value: '复仇者联盟:终局之战', exact: false },
+        { kind: 'range', field: 'year', range: { min: 2019, max: 2019 } },
+      ],
+    });
+  });
+
+  it('reports unknown fields and bad values on their span', () => {
+    expect(errorOf('dirctor:诺兰')).toMatchObject({ start: 0, end: 7 });
+    expect(errorOf('dirctor:诺兰').message).toContain('未知字段');
+    expect(errorOf('year:abc')).toMatchObject({ start: 5, end: 8 });
+    expect(errorOf('rating:6')).toMatchObject({ start: 7, end: 8 });
+    expect(errorOf('status:whenever')).toMatchObject({ start: 7, end: 15 });
+    expect(errorOf('director:')).toMatchObject({ start: 0, end: 9 });
+  });
+
+  it('reports unclosed quotes and brackets where they start', () => {
+    expect(errorOf('星际 "穿越')).toEqual({ message: '引号没有闭合', start: 3, end: 6 });
+    expect(errorOf('title:"穿越')).toEqual({ message: '引号没有闭合', start: 6, end: 9 });
+    expect(errorOf('诺兰 (type:tv')).toEqual({ message: '括号没有闭合', start: 3, end: 4 });
+    expect(errorOf('type:tv)')).toEqual({ message: '多余的右括号', start: 7, end: 8 });
+    expect(errorOf('()')).toEqual({ message: '括号里是空的', start: 0, end: 2 });
+  });
+
+  it('reports operators without an operand', () => {
+    expect(errorOf('诺兰 OR')).toMatchObject({ start: 3, end: 5 });
+    expect(errorOf('OR 诺兰')).toMatchObject({ start: 0, end: 2 });
+    expect(errorOf('诺兰 NOT')).toMatchObject({ start: 3, end: 6 });
+  });
+});
+
+describe('looksLikeQuery', () => {
+  it('spots fields, operators, quotes, brackets and negation', () => {
+    expect(looksLikeQuery('director:诺兰')).toBe(true);
+    expect(looksLikeQuery('导演：诺兰')).toBe(true);
+    expect(looksLikeQuery('(诺兰)')).toBe(true);
+    expect(looksLikeQuery('"星际穿越"')).toBe(true);
+    expect(looksLikeQuery('诺兰 -科幻')).toBe(true);
+    expect(looksLikeQuery('诺兰 OR 昆汀')).toBe(true);
+    // Typed field names get reported rather than searched for
+    expect(looksLikeQuery('dirctor:诺兰')).toBe(true);
+  });
+
+  it('leaves plain words and titles with colons to the plain search', () => {
+    expect(looksLikeQuery('星际穿越')).toBe(false);
+    expect(looksLikeQuery('spider-man')).toBe(false);
+    expect(looksLikeQuery('or and not')).toBe(false);
+    expect(looksLikeQuery('复仇者联盟：终局之战')).toBe(false);
+    expect(looksLikeQuery('复仇者联盟:终局之战')).toBe(false);
+    expect(looksLikeQuery('Star Wars: A New Hope')).toBe(false);
+  });
+});
+
+describe('evaluateQuery', () => {
+  it('combines AND, OR and NOT', () => {
+    expect(search('director:诺兰 year:2014')).toEqual(['interstellar']);
+    expect(search('country:日本 OR country:韩国')).toEqual(['midnight', 'parasite']);
+    expect(search('country:美国 -director:诺兰')).toEqual(['endgame']);
+    expect(search('NOT (director:诺兰 OR type:tv)')).toEqual(['endgame', 'parasite']);
+  });
+
+  it('filters on status and type', () => {
+    expect(search('status:弃坑')).toEqual(['midnight']);
+    expect(search('type:movie status:想看')).toEqual(['parasite']);
+  });
+
+  it('filters on year, rating and watched ranges', () => {
+    expect(search('year:>2010')).toEqual(['interstellar', 'endgame', 'parasite']);
+    expect(search('year:<2010')).toEqual(['midnight']);
+    expect(search('rating:>=4.5')).toEqual(['inception', 'interstellar']);
+    expect(search('rating:<3')).toEqual(['midnight', 'parasite']);
+    expect(search('watched:2023')).toEqual(['interstellar', 'endgame']);
+    expect(search('watched:>2023-06')).toEqual(['endgame', 'midnight']);
+    expect(search('watched:2023-06-15')).toEqual(['interstellar']);
+  });
+
+  it('matches notes, tags and free text in title or genre', () => {
+    expect(search('note:imax')).toEqual(['inception']);
+    expect(search('tag:影院')).toEqual(['inception']);
+    expect(search('科幻')).toEqual(['inception', 'interstellar']);
+    expect(search('复仇者联盟：终局之战')).toEqual(['endgame']);
+  });
+
+  it('sends unquoted text to the fuzzy matcher and matches quoted text as is', () => {
+    const calls: string[] = [];
+    const anything = (_text: string | undefined, value: string) => {
+      calls.push(value);
+      return true;
+    };
+    const [inception] = entries;
+    expect(evaluateQuery(parse('盗空'), inception, anything)).toBe(true);
+    expect(calls).toContain('盗空');
+    expect(evaluateQuery(parse('"盗空"'), inception, anything)).toBe(false);
+    expect(evaluateQuery(parse('"盗梦"'), inception, anything)).toBe(true);
+  });
+});
@@ -0,0 +1,425 @@
+import { LibraryEntry, MediaType, MovieStatus } from "../types";
+
+// Field-qualified search, e.g.
+//   director:诺兰 rating:>=4 year:2010..2020 -status:弃坑 (type:tv OR country:日本) "星际穿越"
+// Terms are ANDed unless joined with OR; NOT or a leading "-" negates.
+
+export type MatchField = 'title' | 'genre' | 'country' | 'director' | 'note' | 'tag' | 'collection';
+export type RangeField = 'year' | 'rating' | 'watched';
+export type QueryField = MatchField | RangeField | 'status' | 'type';
+
+// Inclusive bounds; watched ranges are timestamps
+export interface QueryRange {
+  min?: number;
+  max?: number;
+}
+
+export type QueryNode =
+  | { kind: 'and', children: QueryNode[] }
+  | { kind: 'or', children: QueryNode[] }
+  | { kind: 'not', child: QueryNode }
+  | { kind: 'text', value: string, exact: boolean } // Free text: fuzzy, or exact when quoted
+  | { kind: 'match', field: MatchField, value: string, exact: boolean }
+  | { kind: 'range', field: RangeField, range: QueryRange }
+  | { kind: 'status', status: MovieStatus }
+  | { kind: 'type', mediaType: MediaType };
+
+export interface QuerySyntaxError {
+  message: string;
+  start: number; // Offsets into the query, for highlighting
+  end: number;
+}
+
+export type QueryParseResult =
+  | { node: QueryNode, error: null }
+  | { node: null, error: QuerySyntaxError };
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  title: 'title', t: 'title', 标题: 'title', 片名: 'title',
+  genre: 'genre', g: 'genre', 类型: 'genre',
+  country: 'country', c: 'country', 地区: 'country', 国家: 'country',
+  director: 'director', d: 'director', 导演: 'director',
+  note: 'note', review: 'note', 笔记: 'note', 评价: 'note',
+  tag: 'tag', 标签: 'tag',
+  collection: 'collection', 合集: 'collection',
+  year: 'year', y: 'year', 年份: 'year',
+  rating: 'rating', r: 'rating', 评分: 'rating',
+  status: 'status', s: 'status', 状态: 'status',
+  type: 'type', 影视: 'type',
+  watched: 'watched', w: 'watched', 观看: 'watched',
+};
+
+export const QUERY_FIELDS = Array.from(new Set(Object.keys(FIELD_ALIASES).filter(name => name.length > 1 && /^[a-z]+$/.test(name))));
+
+const STATUS_ALIASES: Record<string, MovieStatus> = {
+  watched: MovieStatus.WATCHED, done: MovieStatus.WATCHED, 看过: MovieStatus.WATCHED,
+  planning: MovieStatus.PLANNING, plan: MovieStatus.PLANNING, todo: MovieStatus.PLANNING,
+  watching: MovieStatus.WATCHING, 追: MovieStatus.WATCHING,
+  dropped: MovieStatus.DROPPED, 弃: MovieStatus.DROPPED,
+  ...Object.fromEntries(Object.values(MovieStatus).map(s => [s, s])),
+};
+
+const TYPE_ALIASES: Record<string, MediaType> = {
+  movie: 'movie', film: 'movie', 电影: 'movie', 片: 'movie',
+  tv: 'tv', series: 'tv', show: 'tv', 电视剧: 'tv', 剧: 'tv', 剧集: 'tv',
+};
+
+// --- Tokenizer ---
+
+type TokenType = 'word' | 'phrase' | 'field' | 'lparen' | 'rparen' | 'and' | 'or' | 'not';
+
+interface Token {
+  type: TokenType;
+  value: string; // Word or phrase text; the field value for field tokens
+  field?: string; // Field name as typed
+  quoted?: boolean; // Field value was quoted
+  start: number;
+  end: number;
+  valueStart?: number; // Where a field's value begins
+}
+
+class SyntaxError_ extends Error {
+  constructor(message: string, readonly start: number, readonly end: number) {
+    super(message);
+  }
+}
+
+const isSpace = (c: string) => /\s/.test(c);
+const isParen = (c: string) => c === '(' || c === ')' || c === '（' || c === '）';
+const isColon = (c: string | undefined) => c === ':' || c === '：';
+
+const fieldFor = (name: string): QueryField | undefined => FIELD_ALIASES[name.toLowerCase()] ?? FIELD_ALIASES[name];
+
+// Known field names always start a field. Other Latin words do too when an
+// ASCII colon and a value follow ("dirctor:诺兰"), so typos get reported
+// rather than searched for; anything else with a colon is an ordinary title.
+const isFieldPrefix = (word: string, colon: string, next: string | undefined) =>
+  !!fieldFor(word) || (colon === ':' && /^[a-z]+$/i.test(word) && !!next && !isSpace(next));
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (from: number): { value: string, end: number } => {
+    const close = input.indexOf('"', from + 1);
+    if (close === -1) throw new SyntaxError_('引号没有闭合', from, input.length);
+    return { value: input.slice(from + 1, close), end: close + 1 };
+  };
+
+  while (i < input.length) {
+    const c = input[i];
+    if (isSpace(c)) {
+      i++;
+      continue;
+    }
+    if (c === '(' || c === '（') {
+      tokens.push({ type: 'lparen', value: c, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (c === ')' || c === '）') {
+      tokens.push({ type: 'rparen', value: c, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (c === '"') {
+      const { value, end } = readQuoted(i);
+      tokens.push({ type: 'phrase', value, start: i, end });
+      i = end;
+      continue;
+    }
+    // A leading minus negates the term right after it
+    if (c === '-' && i + 1 < input.length && !isSpace(input[i + 1]) && !isParen(input[i + 1])) {
+      tokens.push({ type: 'not', value: c, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const readWord = () => {
+      while (i < input.length && !isSpace(input[i]) && !isParen(input[i]) && input[i] !== '"' && !isColon(input[i])) i++;
+    };
+    readWord();
+    let word = input.slice(start, i);
+    // A colon that doesn't follow a field name is part of the word, as in 复仇者联盟：终局之战
+    while (word && isColon(input[i]) && !isFieldPrefix(word, input[i], input[i + 1])) {
+      i++;
+      readWord();
+      word = input.slice(start, i);
+    }
+
+    if (i < input.length && isColon(input[i]) && word) {
+      const valueStart = i + 1;
+      if (input[valueStart] === '"') {
+        const { value, end } = readQuoted(valueStart);
+        tokens.push({ type: 'field', field: word, value, quoted: true, start, end, valueStart });
+        i = end;
+      } else {
+        i = valueStart;
+        while (i < input.length && !isSpace(input[i]) && !isParen(input[i])) i++;
+        tokens.push({ type: 'field', field: word, value: input.slice(valueStart, i), start, end: i, valueStart });
+      }
+      continue;
+    }
+    if (!word) {
+      // A colon with nothing before it
+      throw new SyntaxError_('冒号前缺少字段名', i, i + 1);
+    }
+
+    if (word === 'OR' || word === '|' || word === '||') tokens.push({ type: 'or', value: word, start, end: i });
+    else if (word === 'AND' || word === '&&') tokens.push({ type: 'and', value: word, start, end: i });
+    else if (word === 'NOT') tokens.push({ type: 'not', value: word, start, end: i });
+    else tokens.push({ type: 'word', value: word, start, end: i });
+  }
+  return tokens;
+};
+
+// --- Field values ---
+
+const NUMBER = /^\d+(?:\.\d+)?$/;
+
+/** "4", ">=4", "<3", "2010..2020", "2010..", "..2020" → inclusive bounds, via `parse` for each side. */
+const parseRangeValue = (
+  text: string,
+  parse: (value: string, side: 'min' | 'max') => number | null,
+  // The next or previous representable value, to turn > and < into inclusive bounds
+  step: (value: number, direction: 1 | -1) => number
+): QueryRange | null => {
+  const comparison = text.match(/^(>=|<=|>|<|=)(.+)$/);
+  if (comparison) {
+    const [, op, raw] = comparison;
+    const min = parse(raw, 'min');
+    const max = parse(raw, 'max');
+    if (min === null || max === null) return null;
+    if (op === '>=') return { min };
+    if (op === '>') return { min: step(max, 1) };
+    if (op === '<=') return { max };
+    if (op === '<') return { max: step(min, -1) };
+    return { min, max };
+  }
+  const dots = text.indexOf('..');
+  if (dots !== -1) {
+    const low = text.slice(0, dots);
+    const high = text.slice(dots + 2);
+    if (!low && !high) return null;
+    const min = low ? parse(low, 'min') : undefined;
+    const max = high ? parse(high, 'max') : undefined;
+    if (min === null || max === null) return null;
+    return { ...(min !== undefined ? { min } : {}), ...(max !== undefined ? { max } : {}) };
+  }
+  const min = parse(text, 'min');
+  const max = parse(text, 'max');
+  return min === null || max === null ? null : { min, max };
+};
+
+const parseNumber = (lowest: number, highest: number) => (value: string) => {
+  if (!NUMBER.test(value)) return null;
+  const number = Number(value);
+  return number >= lowest && number <= highest ? number : null;
+};
+
+// "2023", "2023-05", "2023-05-01" cover a year, month or day; 'min' is its first moment, 'max' its last
+const parseDateValue = (value: string, side: 'min' | 'max'): number | null => {
+  const match = value.match(/^(\d{4})(?:[-/.](\d{1,2})(?:[-/.](\d{1,2}))?)?$/);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month !== null && (month < 0 || month > 11)) return null;
+  if (day !== null && (day < 1 || day > 31)) return null;
+  if (side === 'min') return new Date(year, month ?? 0, day ?? 1).getTime();
+  if (day !== null) return new Date(year, month!, day + 1).getTime() - 1;
+  if (month !== null) return new Date(year, month + 1, 1).getTime() - 1;
+  return new Date(year + 1, 0, 1).getTime() - 1;
+};
+
+const RANGE_PARSERS: Record<RangeField, {
+  parse: (value: string, side: 'min' | 'max') => number | null,
+  step: (value: number, direction: 1 | -1) => number,
+  hint: string,
+}> = {
+  year: { parse: parseNumber(1800, 3000), step: (v, d) => v + d, hint: '例如 year:2019、year:>=2010、year:2010..2020' },
+  // Ratings go in half stars
+  rating: { parse: parseNumber(0, 5), step: (v, d) => v + d * 0.5, hint: '例如 rating:4、rating:>=3.5、rating:3..5' },
+  // A period's last moment +1 ms is the next period's first
+  watched: { parse: parseDateValue, step: (v, d) => v + d, hint: '例如 watched:2023、watched:>=2023-06、watched:2023-01-01..2023-03-31' },
+};
+
+const fieldNode = (token: Token): QueryNode => {
+  const name = token.field!;
+  const field = fieldFor(name);
+  if (!field) {
+    throw new SyntaxError_(`未知字段 “${name}”，可用：${QUERY_FIELDS.join('、')}`, token.start, token.valueStart! - 1);
+  }
+  const value = token.value.trim();
+  const valueEnd = token.end;
+  if (!value) throw new SyntaxError_(`${name}: 后面缺少值`, token.start, valueEnd);
+  const invalid = (hint: string) => new SyntaxError_(`“${value}” 不是有效的 ${name} 值，${hint}`, token.valueStart!, valueEnd);
+
+  switch (field) {
+    case 'year':
+    case 'rating':
+    case 'watched': {
+      const { parse, step, hint } = RANGE_PARSERS[field];
+      const range = parseRangeValue(value, parse, step);
+      if (!range) throw invalid(hint);
+      return { kind: 'range', field, range };
+    }
+    case 'status': {
+      const status = STATUS_ALIASES[value.toLowerCase()] ?? STATUS_ALIASES[value];
+      if (!status) throw invalid(`可用：${Object.values(MovieStatus).join('、')}`);
+      return { kind: 'status', status };
+    }
+    case 'type': {
+      const mediaType = TYPE_ALIASES[value.toLowerCase()] ?? TYPE_ALIASES[value];
+      if (!mediaType) throw invalid('可用：movie、tv、电影、剧');
+      return { kind: 'type', mediaType };
+    }
+    default:
+      return { kind: 'match', field, value, exact: !!token.quoted };
+  }
+};
+
+// --- Parser ---
+
+/**
+ * Parses a query into a tree. Never throws: syntax problems come back as an
+ * error with the offending span, for highlighting in the search box.
+ */
+export const parseQuery = (input: string): QueryParseResult => {
+  try {
+    const tokens = tokenize(input);
+    let pos = 0;
+    const peek = () => tokens[pos];
+
+    const flatten = (kind: 'and' | 'or', children: QueryNode[]): QueryNode =>
+      children.length === 1 ? children[0] : { kind, children };
+
+    const parseOr = (): QueryNode => {
+      const children = [parseAnd()];
+      while (peek()?.type === 'or') {
+        const op = tokens[pos++];
+        if (!peek() || peek().type === 'rparen' || peek().type === 'or') {
+          throw new SyntaxError_(`${op.value} 后面缺少条件`, op.start, op.end);
+        }
+        children.push(parseAnd());
+      }
+      return flatten('or', children);
+    };
+
+    const parseAnd = (): QueryNode => {
+      const children = [parseUnary()];
+      while (peek() && peek().type !== 'or' && peek().type !== 'rparen') {
+        if (peek().type === 'and') {
+          const op = tokens[pos++];
+          if (!peek() || peek().type === 'rparen' || peek().type === 'or') {
+            throw new SyntaxError_(`${op.value} 后面缺少条件`, op.start, op.end);
+          }
+        }
+        children.push(parseUnary());
+      }
+      return flatten('and', children);
+    };
+
+    const parseUnary = (): QueryNode => {
+      const token = peek();
+      if (!token) throw new SyntaxError_('缺少条件', input.length, input.length);
+      if (token.type === 'not') {
+        pos++;
+        if (!peek() || peek().type === 'rparen' || peek().type === 'or' || peek().type === 'and') {
+          throw new SyntaxError_(`${token.value} 后面缺少条件`, token.start, token.end);
+        }
+        return { kind: 'not', child: parseUnary() };
+      }
+      return parsePrimary();
+    };
+
+    const parsePrimary = (): QueryNode => {
+      const token = tokens[pos++];
+      switch (token.type) {
+        case 'lparen': {
+          if (peek()?.type === 'rparen') throw new SyntaxError_('括号里是空的', token.start, peek().end);
+          if (!peek()) throw new SyntaxError_('括号没有闭合', token.start, token.end);
+          const node = parseOr();
+          if (peek()?.type !== 'rparen') throw new SyntaxError_('括号没有闭合', token.start, token.end);
+          pos++;
+          return node;
+        }
+        case 'rparen':
+          throw new SyntaxError_('多余的右括号', token.start, token.end);
+        case 'and':
+        case 'or':
+          throw new SyntaxError_(`${token.value} 前面缺少条件`, token.start, token.end);
+        case 'field':
+          return fieldNode(token);
+        case 'phrase':
+          return { kind: 'text', value: token.value, exact: true };
+        default:
+          return { kind: 'text', value: token.value, exact: false };
+      }
+    };
+
+    if (tokens.length === 0) return { node: { kind: 'and', children: [] }, error: null };
+    const node = parseOr();
+    if (pos < tokens.length) {
+      const extra = tokens[pos];
+      throw new SyntaxError_(extra.type === 'rparen' ? '多余的右括号' : '无法理解这里', extra.start, extra.end);
+    }
+    return { node, error: null };
+  } catch (error) {
+    if (error instanceof SyntaxError_) {
+      return { node: null, error: { message: error.message, start: error.start, end: Math.max(error.end, error.start + 1) } };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Whether the search box text uses any query syntax. Plain words keep the
+ * original whole-string fuzzy search.
+ */
+export const looksLikeQuery = (input: string): boolean =>
+  /["()（）]|(^|\s)-\S|(^|\s)(OR|AND|NOT)(\s|$)/.test(input) ||
+  input.split(/\s+/).some(word => {
+    const colon = word.search(/[:：]/);
+    return colon > 0 && isFieldPrefix(word.slice(0, colon), word[colon], word[colon + 1]);
+  });
+
+// --- Evaluation ---
+
+const inRange = (value: number, { min, max }: QueryRange) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+const exactIncludes = (text: string | undefined, value: string) => (text || '').toLowerCase().includes(value.toLowerCase());
+
+/**
+ * Whether an entry satisfies the query. Unquoted text goes through
+ * `textMatch` (the library's fuzzy matcher); quoted text must appear as is.
+ */
+export const evaluateQuery = (
+  node: QueryNode,
+  entry: LibraryEntry,
+  textMatch: (text: string | undefined, search: string) => boolean
+): boolean => {
+  const { title } = entry;
+  const matches = (text: string | undefined, value: string, exact: boolean) =>
+    exact ? exactIncludes(text, value) : textMatch(text, value);
+
+  switch (node.kind) {
+    case 'and': return node.children.every(child => evaluateQuery(child, entry, textMatch));
+    case 'or': return node.children.some(child => evaluateQuery(child, entry, textMatch));
+    case 'not': return !evaluateQuery(node.child, entry, textMatch);
+    case 'text': return matches(title.title, node.value, node.exact) || matches(title.genre, node.value, node.exact);
+    case 'match':
+      if (node.field === 'note') return entry.logs.some(log => matches(log.note, node.value, node.exact));
+      if (node.field === 'tag') return (title.tags || []).some(tag => matches(tag, node.value, node.exact));
+      if (node.field === 'collection') return (title.collections || []).some(c => matches(c.name, node.value, node.exact));
+      return matches(title[node.field], node.value, node.exact);
+    case 'status': return title.status === node.status;
+    case 'type': return title.mediaType === node.mediaType;
+    case 'range':
+      if (node.field === 'watched') return entry.logs.some(log => inRange(log.watchedAt, node.range));
+      if (node.field === 'rating') return inRange(entry.rating, node.range);
+      return !!parseInt(title.year) && inRange(parseInt(title.year), node.range);
+  }
+};
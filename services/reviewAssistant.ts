@@ -0,0 +1,68 @@
+import { LibraryEntry, MediaType } from "../types";
+
+// What to do with the draft in the review box
+export type ReviewMode = 'write' | 'expand' | 'polish' | 'shorten' | 'spoilerFree';
+export type ReviewTone = 'mine' | 'casual' | 'thoughtful' | 'humorous' | 'sharp';
+
+export const REVIEW_MODES: ReviewMode[] = ['write', 'expand', 'polish', 'shorten', 'spoilerFree'];
+export const REVIEW_TONES: ReviewTone[] = ['mine', 'casual', 'thoughtful', 'humorous', 'sharp'];
+
+export const REVIEW_MODE_LABELS: Record<ReviewMode, string> = {
+  write: '帮我写',
+  expand: '扩写',
+  polish: '润色',
+  shorten: '精简',
+  spoilerFree: '去剧透',
+};
+
+export const REVIEW_TONE_LABELS: Record<ReviewTone, string> = {
+  mine: '我的风格',
+  casual: '轻松',
+  thoughtful: '认真',
+  humorous: '幽默',
+  sharp: '犀利',
+};
+
+// One of the user's earlier reviews, shown to the model as a style sample
+export interface ReviewExample {
+  title: string;
+  rating: number;
+  note: string;
+}
+
+export interface ReviewAssistRequest {
+  title: string;
+  rating: number;
+  mediaType: MediaType;
+  mode: ReviewMode;
+  tone: ReviewTone;
+  draft: string;
+  examples: ReviewExample[];
+}
+
+export const MAX_REVIEW_EXAMPLES = 5;
+export const MAX_EXAMPLE_LENGTH = 300;
+// Notes shorter than this say too little about how the user writes
+const MIN_EXAMPLE_LENGTH = 15;
+
+/** Modes that make sense for the current draft: writing from scratch, or reworking what is there. */
+export const modesFor = (draft: string): ReviewMode[] =>
+  draft.trim() ? REVIEW_MODES.filter(m => m !== 'write') : ['write'];
+
+/**
+ * The user's own notes on other titles, to match their voice. Notes given a
+ * similar rating come first, since tone follows how much they liked a work;
+ * ties go to the most recent.
+ */
+export const pickToneExamples = (entries: LibraryEntry[], excludeTitleId: string | null, rating: number): ReviewExample[] => entries
+  .filter(e => e.title.id !== excludeTitleId)
+  .flatMap(e => e.logs
+    .filter(log => log.note.trim().length >= MIN_EXAMPLE_LENGTH)
+    .map(log => ({ title: e.title.title, rating: log.rating, note: log.note.trim(), watchedAt: log.watchedAt })))
+  .sort((a, b) => (rating > 0 ? Math.abs(a.rating - rating) - Math.abs(b.rating - rating) : 0) || b.watchedAt - a.watchedAt)
+  .slice(0, MAX_REVIEW_EXAMPLES)
+  .map(({ title, rating, note }) => ({
+    title,
+    rating,
+    note: note.length > MAX_EXAMPLE_LENGTH ? `${note.slice(0, MAX_EXAMPLE_LENGTH)}…` : note,
+  }));
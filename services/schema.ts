@@ -0,0 +1,480 @@
+import { Title, WatchLog, MovieStatus, MediaType } from "../types";
+import { normalizeCollections, normalizeTags } from "./tags";
+
+// Bump this whenever the persisted shape changes and append a migration below.
+export const SCHEMA_VERSION = 6;
+
+// Posters travel inside documents (legacy data, JSON backups) as data URLs and
+// are split out into Blobs by the storage layer.
+export interface PosterData {
+  id: string;
+  dataUrl: string;
+}
+
+export interface LibraryDocument {
+  schemaVersion: number;
+  titles: Title[];
+  logs: WatchLog[];
+  posters?: PosterData[];
+}
+
+export interface QuarantinedRecord {
+  id: string;
+  record: unknown;
+  reason: string;
+  fromVersion: number;
+  quarantinedAt: number;
+}
+
+export interface MigrationResult {
+  document: LibraryDocument;
+  quarantined: QuarantinedRecord[];
+  migrated: boolean;
+}
+
+type Reject = (record: unknown, reason: string) => void;
+
+interface Migration {
+  // The version this migration upgrades *to*
+  version: number;
+  description: string;
+  up: (doc: any, reject: Reject) => any;
+}
+
+const DEFAULT_POSTER_COLOR = '#4f46e5';
+
+// Status values seen in the wild: the enum's own labels plus its key names,
+// which older builds and hand-edited exports sometimes contain.
+const STATUS_ALIASES: Record<string, MovieStatus> = {
+  WATCHED: MovieStatus.WATCHED,
+  PLANNING: MovieStatus.PLANNING,
+  DROPPED: MovieStatus.DROPPED,
+  WATCHING: MovieStatus.WATCHING,
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const n = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const toTimestamp = (value: unknown): number | undefined => {
+  const n = toNumber(value);
+  if (n !== undefined) return n;
+  if (typeof value === 'string') {
+    const ts = Date.parse(value);
+    return isNaN(ts) ? undefined : ts;
+  }
+  return undefined;
+};
+
+const normalizeStatus = (value: unknown): MovieStatus | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  if ((Object.values(MovieStatus) as string[]).includes(trimmed)) return trimmed as MovieStatus;
+  return STATUS_ALIASES[trimmed.toUpperCase()];
+};
+
+const normalizeMediaType = (value: unknown): MediaType => {
+  if (value === 'tv' || value === '电视剧') return 'tv';
+  return 'movie';
+};
+
+const normalizeTitleKey = (title: string) => title.trim().toLowerCase();
+
+// Titles as written by the v4 migration, before seasons replaced the flat episode count
+type TitleV4 = Omit<Title, 'seasons'> & { totalEpisodes?: number };
+
+/**
+ * Groups v3 records that describe the same work. Records share a work when
+ * their media type and title match; a differing release year splits them
+ * (remakes), while records without a year join the most recent group.
+ */
+const groupLegacyRecords = (records: any[]): any[][] => {
+  const byName = new Map<string, any[]>();
+  records.forEach(r => {
+    const key = `${r.mediaType}|${normalizeTitleKey(String(r.title))}`;
+    const list = byName.get(key);
+    if (list) list.push(r);
+    else byName.set(key, [r]);
+  });
+
+  const groups: any[][] = [];
+  byName.forEach(list => {
+    const byYear = new Map<string, any[]>();
+    const undated: any[] = [];
+    list.forEach(r => {
+      const year = String(r.year || '').trim();
+      if (!year) {
+        undated.push(r);
+        return;
+      }
+      const yearList = byYear.get(year);
+      if (yearList) yearList.push(r);
+      else byYear.set(year, [r]);
+    });
+
+    const yearGroups = Array.from(byYear.values());
+    if (yearGroups.length === 0) {
+      groups.push(undated);
+      return;
+    }
+    if (undated.length > 0) {
+      const newest = (g: any[]) => Math.max(...g.map(r => r.addedAt));
+      yearGroups.sort((a, b) => newest(b) - newest(a))[0].push(...undated);
+    }
+    groups.push(...yearGroups);
+  });
+  return groups;
+};
+
+/**
+ * Turns one group of v3 records into a title plus one log per viewing. The
+ * oldest record's id becomes the title id and every record keeps its id as a
+ * log id, so migrating the same legacy backup twice yields the same ids.
+ */
+const mergeLegacyGroup = (group: any[]): { title: TitleV4, logs: WatchLog[] } => {
+  const oldestFirst = [...group].sort((a, b) => a.addedAt - b.addedAt);
+  const newestFirst = [...oldestFirst].reverse();
+  const latest = newestFirst[0];
+  const pick = (key: string) => newestFirst.find(r => r[key] !== undefined && r[key] !== null && r[key] !== '')?.[key];
+
+  const title: TitleV4 = {
+    id: oldestFirst[0].id,
+    title: latest.title,
+    year: pick('year') || '',
+    country: pick('country'),
+    genre: pick('genre') || '',
+    director: pick('director'),
+    status: latest.status,
+    posterColor: pick('posterColor') || DEFAULT_POSTER_COLOR,
+    posterId: pick('posterId'),
+    mediaType: latest.mediaType,
+    totalEpisodes: latest.mediaType === 'tv'
+      ? group.reduce((max, r) => Math.max(max, r.totalEpisodes || 0), 0) || undefined
+      : undefined,
+    duration: pick('duration'),
+    addedAt: oldestFirst[0].addedAt,
+    lastUpdated: Math.max(...group.map(r => r.lastUpdated)),
+  };
+
+  const logs: WatchLog[] = [];
+  let lastEpisode = 0;
+  oldestFirst.forEach(r => {
+    const episode = title.mediaType === 'tv' ? (r.currentEpisode || 0) : 0;
+    const hasContent = r.rating > 0 || (r.review || '').trim() || episode > 0;
+    // A bare "want to watch" record is not a viewing
+    if (r.status === MovieStatus.PLANNING && !hasContent) return;
+
+    const log: WatchLog = {
+      id: r.id,
+      titleId: title.id,
+      watchedAt: r.addedAt,
+      rating: r.rating || 0,
+      note: r.review || '',
+      lastUpdated: r.lastUpdated,
+    };
+    if (episode > 0) {
+      log.episodeFrom = episode > lastEpisode ? lastEpisode + 1 : episode;
+      log.episodeTo = episode;
+      lastEpisode = Math.max(lastEpisode, episode);
+    }
+    logs.push(log);
+  });
+
+  return { title, logs };
+};
+
+// Ordered list of migrations. Each receives the document at `version - 1`.
+const migrations: Migration[] = [
+  {
+    version: 2,
+    description: 'Wrap the bare array in a versioned document and backfill fields added over time',
+    up: (doc, reject) => {
+      const movies: any[] = [];
+      (doc.movies as any[]).forEach(raw => {
+        if (!raw || typeof raw !== 'object') {
+          reject(raw, '记录不是对象');
+          return;
+        }
+        const mediaType = normalizeMediaType(raw.mediaType);
+        const addedAt = toTimestamp(raw.addedAt) ?? Date.now();
+        const status = normalizeStatus(raw.status);
+        if (!status) {
+          reject(raw, `未知的状态值: ${String(raw.status)}`);
+          return;
+        }
+        movies.push({
+          ...raw,
+          id: raw.id !== undefined && raw.id !== null ? String(raw.id) : crypto.randomUUID(),
+          title: typeof raw.title === 'string' ? raw.title.trim() : raw.title,
+          year: raw.year !== undefined && raw.year !== null ? String(raw.year) : '',
+          genre: raw.genre || '',
+          review: raw.review || '',
+          rating: toNumber(raw.rating) ?? 0,
+          status,
+          posterColor: raw.posterColor || DEFAULT_POSTER_COLOR,
+          addedAt,
+          lastUpdated: toTimestamp(raw.lastUpdated) ?? addedAt,
+          mediaType,
+          currentEpisode: mediaType === 'tv' ? toNumber(raw.currentEpisode) : undefined,
+          totalEpisodes: mediaType === 'tv' ? toNumber(raw.totalEpisodes) : undefined,
+          duration: toNumber(raw.duration),
+        });
+      });
+      return { schemaVersion: 2, movies };
+    },
+  },
+  {
+    version: 3,
+    description: 'Move inline base64 posters out of the records and reference them by id',
+    up: (doc) => {
+      const posters: PosterData[] = [...(doc.posters || [])];
+      const movies = (doc.movies as any[]).map(raw => {
+        const { posterImage, ...rest } = raw;
+        if (typeof posterImage === 'string' && posterImage.startsWith('data:image/')) {
+          const posterId = crypto.randomUUID();
+          posters.push({ id: posterId, dataUrl: posterImage });
+          return { ...rest, posterId };
+        }
+        return rest;
+      });
+      return { schemaVersion: 3, movies, posters };
+    },
+  },
+  {
+    version: 4,
+    description: 'Split per-viewing movie records into titles and watch logs, merging same-title records',
+    up: (doc) => {
+      const titles: TitleV4[] = [];
+      const logs: WatchLog[] = [];
+      groupLegacyRecords(doc.movies as any[]).forEach(group => {
+        const { title, logs: groupLogs } = mergeLegacyGroup(group);
+        titles.push(title);
+        logs.push(...groupLogs);
+      });
+      return { schemaVersion: 4, titles, logs, posters: doc.posters || [] };
+    },
+  },
+  {
+    version: 5,
+    description: 'Replace the flat TV episode count with seasons and file existing episode logs under season 1',
+    up: (doc) => {
+      const tvIds = new Set<string>();
+      const titles = ((doc.titles || []) as any[]).map(raw => {
+        if (!raw || typeof raw !== 'object') return raw;
+        const { totalEpisodes, ...rest } = raw;
+        if (rest.mediaType !== 'tv') return rest;
+        tvIds.add(rest.id);
+        return { ...rest, seasons: [{ number: 1, episodeCount: toNumber(totalEpisodes) || 0 }] };
+      });
+      const logs = ((doc.logs || []) as any[]).map(raw => {
+        if (!raw || typeof raw !== 'object' || !tvIds.has(raw.titleId) || raw.episodeTo === undefined) return raw;
+        return { ...raw, season: 1 };
+      });
+      return { ...doc, schemaVersion: 5, titles, logs };
+    },
+  },
+  {
+    version: 6,
+    description: 'Add user tags and collection memberships to titles, tidying any written by hand',
+    up: (doc) => {
+      const titles = ((doc.titles || []) as any[]).map(raw => {
+        if (!raw || typeof raw !== 'object') return raw;
+        const { tags, collections, ...rest } = raw;
+        const cleanTags = normalizeTags(tags);
+        const cleanCollections = normalizeCollections(collections);
+        return {
+          ...rest,
+          ...(cleanTags.length > 0 ? { tags: cleanTags } : {}),
+          ...(cleanCollections.length > 0 ? { collections: cleanCollections } : {}),
+        };
+      });
+      return { ...doc, schemaVersion: 6, titles };
+    },
+  },
+];
+
+const isNonNegative = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Returns a list of problems with a title in the current schema, or an empty
+ * list when it is valid.
+ */
+export const validateTitle = (record: any): string[] => {
+  const errors: string[] = [];
+  if (!record || typeof record !== 'object') return ['记录不是对象'];
+
+  if (typeof record.id !== 'string' || !record.id) errors.push('缺少 id');
+  if (typeof record.title !== 'string' || !record.title.trim()) errors.push('缺少标题');
+  if (typeof record.year !== 'string') errors.push('year 必须是字符串');
+  if (typeof record.genre !== 'string') errors.push('genre 必须是字符串');
+  if (!(Object.values(MovieStatus) as string[]).includes(record.status)) errors.push(`无效的状态: ${record.status}`);
+  if (record.mediaType !== 'movie' && record.mediaType !== 'tv') errors.push(`无效的媒体类型: ${record.mediaType}`);
+  if (!Number.isFinite(record.addedAt)) errors.push('无效的添加时间');
+  if (!Number.isFinite(record.lastUpdated)) errors.push('无效的更新时间');
+  if (typeof record.posterColor !== 'string') errors.push('缺少海报颜色');
+  if (record.posterId !== undefined && typeof record.posterId !== 'string') errors.push('无效的海报引用');
+  if (record.deletedAt !== undefined && !Number.isFinite(record.deletedAt)) errors.push('无效的删除时间');
+
+  if (record.duration !== undefined && !isNonNegative(record.duration)) errors.push(`无效的 duration: ${record.duration}`);
+
+  if (record.tags !== undefined && (!Array.isArray(record.tags) || record.tags.some((tag: unknown) => typeof tag !== 'string' || !tag.trim()))) {
+    errors.push('tags 必须是非空字符串数组');
+  }
+  if (record.collections !== undefined) {
+    if (!Array.isArray(record.collections)) {
+      errors.push('collections 必须是数组');
+    } else {
+      record.collections.forEach((c: any) => {
+        if (!c || typeof c.name !== 'string' || !c.name.trim() || !Number.isInteger(c.position) || c.position < 1) {
+          errors.push(`无效的合集: ${JSON.stringify(c)}`);
+        }
+      });
+    }
+  }
+
+  if (record.seasons !== undefined) {
+    if (!Array.isArray(record.seasons)) {
+      errors.push('seasons 必须是数组');
+    } else {
+      const numbers = new Set<number>();
+      record.seasons.forEach((season: any) => {
+        if (!season || !Number.isInteger(season.number) || season.number < 1) {
+          errors.push(`无效的季: ${JSON.stringify(season)}`);
+          return;
+        }
+        if (numbers.has(season.number)) errors.push(`重复的季: ${season.number}`);
+        numbers.add(season.number);
+        if (!isNonNegative(season.episodeCount)) errors.push(`第 ${season.number} 季的集数无效: ${season.episodeCount}`);
+        if (season.episodeDuration !== undefined && !isNonNegative(season.episodeDuration)) {
+          errors.push(`第 ${season.number} 季的单集时长无效: ${season.episodeDuration}`);
+        }
+        if (season.status !== undefined && !(Object.values(MovieStatus) as string[]).includes(season.status)) {
+          errors.push(`第 ${season.number} 季的状态无效: ${season.status}`);
+        }
+      });
+    }
+  }
+
+  return errors;
+};
+
+/** Same as validateTitle, for watch logs. */
+export const validateLog = (record: any): string[] => {
+  const errors: string[] = [];
+  if (!record || typeof record !== 'object') return ['记录不是对象'];
+
+  if (typeof record.id !== 'string' || !record.id) errors.push('缺少 id');
+  if (typeof record.titleId !== 'string' || !record.titleId) errors.push('缺少作品 id');
+  if (!Number.isFinite(record.watchedAt)) errors.push('无效的观看时间');
+  if (!Number.isFinite(record.lastUpdated)) errors.push('无效的更新时间');
+  if (typeof record.rating !== 'number' || record.rating < 0 || record.rating > 5) errors.push(`无效的评分: ${record.rating}`);
+  if (typeof record.note !== 'string') errors.push('note 必须是字符串');
+  if (record.location !== undefined && typeof record.location !== 'string') errors.push('location 必须是字符串');
+  if (record.platform !== undefined && typeof record.platform !== 'string') errors.push('platform 必须是字符串');
+  if (record.season !== undefined && (!Number.isInteger(record.season) || record.season < 1)) errors.push(`无效的季: ${record.season}`);
+
+  (['episodeFrom', 'episodeTo'] as const).forEach(key => {
+    const value = record[key];
+    if (value !== undefined && !isNonNegative(value)) errors.push(`无效的 ${key}: ${value}`);
+  });
+  if (record.episodeFrom !== undefined && record.episodeTo !== undefined && record.episodeFrom > record.episodeTo) {
+    errors.push(`无效的集数范围: ${record.episodeFrom}-${record.episodeTo}`);
+  }
+
+  return errors;
+};
+
+/**
+ * Detects the version of raw persisted data. Builds before the versioned
+ * document stored a bare array, which we treat as version 1.
+ */
+const detectVersion = (raw: unknown): number => {
+  if (Array.isArray(raw)) return 1;
+  if (raw && typeof raw === 'object' && typeof (raw as any).schemaVersion === 'number') {
+    return (raw as any).schemaVersion;
+  }
+  return 0;
+};
+
+/**
+ * Upgrades raw persisted data to the current schema. Records that cannot be
+ * migrated or fail validation are returned separately instead of being dropped.
+ */
+export const migrateLibrary = (raw: unknown): MigrationResult => {
+  const quarantined: QuarantinedRecord[] = [];
+  const fromVersion = detectVersion(raw);
+
+  const quarantine = (record: unknown, reason: string) => {
+    quarantined.push({
+      id: crypto.randomUUID(),
+      record,
+      reason,
+      fromVersion,
+      quarantinedAt: Date.now(),
+    });
+  };
+
+  if (fromVersion === 0 || fromVersion > SCHEMA_VERSION) {
+    quarantine(raw, fromVersion === 0 ? '无法识别的数据格式' : `数据版本 ${fromVersion} 高于当前支持的版本 ${SCHEMA_VERSION}`);
+    return { document: { schemaVersion: SCHEMA_VERSION, titles: [], logs: [], posters: [] }, quarantined, migrated: false };
+  }
+
+  let doc: any = fromVersion === 1 ? { schemaVersion: 1, movies: raw } : raw;
+
+  migrations
+    .filter(m => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .forEach(m => {
+      try {
+        doc = m.up(doc, quarantine);
+      } catch (error) {
+        console.error(`Migration to v${m.version} failed:`, error);
+        throw new Error(`数据迁移失败 (v${m.version}: ${m.description})`);
+      }
+    });
+
+  // Validate every record, whether or not it needed migrating
+  const titles: Title[] = [];
+  const titleIds = new Set<string>();
+  (Array.isArray(doc.titles) ? doc.titles : []).forEach((record: any) => {
+    const errors = validateTitle(record);
+    if (errors.length > 0) {
+      quarantine(record, errors.join('；'));
+    } else if (titleIds.has(record.id)) {
+      quarantine(record, `重复的 id: ${record.id}`);
+    } else {
+      titleIds.add(record.id);
+      titles.push(record);
+    }
+  });
+
+  const logs: WatchLog[] = [];
+  const logIds = new Set<string>();
+  (Array.isArray(doc.logs) ? doc.logs : []).forEach((record: any) => {
+    const errors = validateLog(record);
+    if (errors.length > 0) {
+      quarantine(record, errors.join('；'));
+    } else if (!titleIds.has(record.titleId)) {
+      // The title was quarantined above, or never existed
+      quarantine(record, `作品不存在: ${record.titleId}`);
+    } else if (logIds.has(record.id)) {
+      quarantine(record, `重复的 id: ${record.id}`);
+    } else {
+      logIds.add(record.id);
+      logs.push(record);
+    }
+  });
+
+  // Only keep posters that a surviving title still points at
+  const referenced = new Set(titles.map(t => t.posterId).filter(Boolean));
+  const posters = (Array.isArray(doc.posters) ? doc.posters as PosterData[] : [])
+    .filter(p => p && typeof p.dataUrl === 'string' && referenced.has(p.id));
+
+  return {
+    document: { schemaVersion: SCHEMA_VERSION, titles, logs, posters },
+    quarantined,
+    migrated: fromVersion < SCHEMA_VERSION,
+  };
+};
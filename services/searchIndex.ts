@@ -0,0 +1,208 @@
+import { pinyin } from "pinyin-pro";
+import { Converter } from "opencc-js/t2cn";
+import { LibraryEntry } from "../types";
+
+// Keyword search over the library. Each entry's searchable text is folded
+// once (case, full-width forms, traditional → simplified) and given pinyin,
+// so a keystroke only costs substring checks. Entries whose text hasn't
+// changed keep their indexed form across updates.
+
+export type SearchField = 'title' | 'director' | 'country' | 'genre' | 'tags' | 'review';
+
+interface IndexedField {
+  text: string; // Folded
+  words: string[];
+  pinyin: string; // Full pinyin without spaces, e.g. "santi"; empty when there are no Chinese characters
+  initials: string; // e.g. "st"
+}
+
+interface IndexedDoc {
+  source: string; // The raw field values, to tell whether the entry needs reindexing
+  fields: Record<SearchField, IndexedField>;
+}
+
+export interface SearchIndex {
+  docs: Map<string, IndexedDoc>; // By title id
+}
+
+// How much a hit in each field counts towards the ranking
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  director: 6,
+  genre: 4,
+  country: 4,
+  tags: 4,
+  review: 2,
+};
+
+// Review text can be long; pinyin and typo tolerance are only worth it for the short fields
+const PHONETIC_FIELDS: SearchField[] = ['title', 'director', 'genre', 'country', 'tags'];
+const FUZZY_FIELDS: SearchField[] = ['title', 'director'];
+
+// Match quality, best first
+const SCORE_EXACT = 1;
+const SCORE_PREFIX = 0.8;
+const SCORE_WORD_PREFIX = 0.7;
+const SCORE_SUBSTRING = 0.6;
+const SCORE_PINYIN_PREFIX = 0.5;
+const SCORE_PINYIN = 0.4;
+const SCORE_INITIALS = 0.35;
+const SCORE_FUZZY = 0.2;
+
+const toSimplified = Converter({ from: 't', to: 'cn' });
+const HAN = /[㐀-鿿]/;
+const LATIN_QUERY = /^[a-z]+$/;
+const WORD_SEPARATORS = /[\s\-_：:，,。·.、/;；!！?？'"()（）]+/;
+
+/** Lower case, half-width and simplified, so 三體, 三体 and ＳＡＮＴＩ compare as typed. */
+export const foldText = (text: string): string => toSimplified(text.normalize('NFKC').toLowerCase());
+
+// Pinyin is the slow part of indexing, and genres, countries and directors
+// repeat a lot. Both caches simply start over when full.
+const CACHE_LIMIT = 20000;
+const pinyinCache = new Map<string, { pinyin: string, initials: string }>();
+
+const pinyinOf = (folded: string) => {
+  if (!HAN.test(folded)) return { pinyin: '', initials: '' };
+  const cached = pinyinCache.get(folded);
+  if (cached) return cached;
+  const syllables = pinyin(folded, { toneType: 'none', type: 'array', nonZh: 'consecutive', v: true })
+    .map(s => s.replace(/[^a-z0-9]/g, ''))
+    .filter(Boolean);
+  const result = { pinyin: syllables.join(''), initials: syllables.map(s => s[0]).join('') };
+  if (pinyinCache.size >= CACHE_LIMIT) pinyinCache.clear();
+  pinyinCache.set(folded, result);
+  return result;
+};
+
+const indexField = (raw: string, phonetic: boolean): IndexedField => {
+  const text = foldText(raw);
+  return {
+    text,
+    words: text.split(WORD_SEPARATORS).filter(Boolean),
+    ...(phonetic ? pinyinOf(text) : { pinyin: '', initials: '' }),
+  };
+};
+
+const fieldValues = (entry: LibraryEntry): Record<SearchField, string> => ({
+  title: entry.title.title,
+  director: entry.title.director || '',
+  country: entry.title.country || '',
+  genre: entry.title.genre || '',
+  tags: (entry.title.tags || []).join(' '),
+  review: entry.logs.map(log => log.note).filter(Boolean).join('\n'),
+});
+
+export const createSearchIndex = (): SearchIndex => ({ docs: new Map() });
+
+/**
+ * The index for the given entries, reusing every indexed entry from
+ * `previous` whose text is unchanged. Entries no longer present are dropped.
+ */
+export const updateSearchIndex = (previous: SearchIndex, entries: LibraryEntry[]): SearchIndex => {
+  const docs = new Map<string, IndexedDoc>();
+  entries.forEach(entry => {
+    const values = fieldValues(entry);
+    const source = Object.values(values).join('\u0000');
+    const existing = previous.docs.get(entry.title.id);
+    if (existing && existing.source === source) {
+      docs.set(entry.title.id, existing);
+      return;
+    }
+    const fields = Object.fromEntries(
+      (Object.keys(values) as SearchField[]).map(field => [field, indexField(values[field], PHONETIC_FIELDS.includes(field))])
+    ) as Record<SearchField, IndexedField>;
+    docs.set(entry.title.id, { source, fields });
+  });
+  return { docs };
+};
+
+/** Whether the edit distance between a and b is at most max, giving up as soon as it can't be. */
+const withinDistance = (a: string, b: string, max: number): boolean => {
+  if (Math.abs(a.length - b.length) > max) return false;
+  let previousRow = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return false;
+    previousRow = row;
+  }
+  return previousRow[b.length] <= max;
+};
+
+// 1 typo for short terms, 2 for longer ones; none below 2 characters
+const allowedTypos = (term: string) => (term.length < 2 ? 0 : term.length > 4 ? 2 : 1);
+
+const fuzzyHit = (field: IndexedField, term: string): boolean => {
+  const typos = allowedTypos(term);
+  if (typos === 0) return false;
+  return withinDistance(field.text, term, typos) || field.words.some(word => withinDistance(word, term, typos));
+};
+
+// How well one folded search term matches one field, from 0 (not at all) to 1
+const scoreField = (field: IndexedField, term: string, name: SearchField): number => {
+  const { text } = field;
+  if (!text) return 0;
+  if (text === term) return SCORE_EXACT;
+  if (text.startsWith(term)) return SCORE_PREFIX;
+  if (field.words.some(word => word.startsWith(term))) return SCORE_WORD_PREFIX;
+  if (text.includes(term)) return SCORE_SUBSTRING;
+  if (field.pinyin && LATIN_QUERY.test(term)) {
+    if (field.pinyin.startsWith(term)) return SCORE_PINYIN_PREFIX;
+    if (field.pinyin.includes(term)) return SCORE_PINYIN;
+    if (term.length >= 2 && field.initials.includes(term)) return SCORE_INITIALS;
+  }
+  if (FUZZY_FIELDS.includes(name) && fuzzyHit(field, term)) return SCORE_FUZZY;
+  return 0;
+};
+
+const searchTerms = (query: string) => foldText(query).split(/\s+/).filter(Boolean);
+
+/**
+ * Entries matching every term of the query, each with a relevance score
+ * (higher is better). Terms match case-insensitively across scripts, by
+ * pinyin or initials, or with a typo or two in the title or director.
+ */
+export const searchLibrary = (index: SearchIndex, query: string): Map<string, number> => {
+  const terms = searchTerms(query);
+  const results = new Map<string, number>();
+  if (terms.length === 0) return results;
+
+  index.docs.forEach((doc, id) => {
+    let total = 0;
+    for (const term of terms) {
+      let best = 0;
+      for (const name of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+        best = Math.max(best, scoreField(doc.fields[name], term, name) * FIELD_WEIGHTS[name]);
+      }
+      if (best === 0) return;
+      total += best;
+    }
+    results.set(id, total);
+  });
+  return results;
+};
+
+const matchCache = new Map<string, IndexedField>();
+
+/**
+ * One-off match of a search term against a piece of text, with the same
+ * folding, pinyin and typo tolerance as the index. For the structured
+ * filters, which test one field at a time.
+ */
+export const fuzzyMatch = (text: string | undefined, search: string): boolean => {
+  if (!search) return true;
+  if (!text) return false;
+  let field = matchCache.get(text);
+  if (!field) {
+    field = indexField(text, true);
+    if (matchCache.size >= CACHE_LIMIT) matchCache.clear();
+    matchCache.set(text, field);
+  }
+  return searchTerms(search).every(term => scoreField(field, term, 'title') > 0);
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { FilterVocabulary, parseNaturalQueryLocal } from "./smartFilter";
+
+const vocabulary: FilterVocabulary = { countries: ['美国', '日本'], directors: ['诺兰'], genres: ['悬疑', '喜剧'] };
+const now = new Date(2026, 9, 19);
+const parse = (query: string) => parseNaturalQueryLocal(query, vocabulary, now);
+
+describe('parseNaturalQueryLocal', () => {
+  it('leaves the 剧 of a genre name to the genre', () => {
+    expect(parse('去年看过的喜剧')).toEqual({ watchedAfter: '2025-01-01', watchedBefore: '2025-12-31', genres: ['喜剧'] });
+    expect(parse('悬疑剧')).toEqual({ genres: ['悬疑'], mediaType: 'tv' });
+  });
+
+  it('consumes whole date and rating phrases', () => {
+    expect(parse('最近一个月看完的剧')).toEqual({ watchedAfter: '2026-09-19', watchedBefore: '2026-10-19', mediaType: 'tv' });
+    expect(parse('诺兰的电影 评分3星以下')).toEqual({ ratingMax: 3, directors: ['诺兰'], mediaType: 'movie' });
+  });
+
+  it('keeps words it does not recognise as keywords', () => {
+    expect(parse('评分4星以上 盗梦空间')).toEqual({ ratingMin: 4, text: '盗梦空间' });
+  });
+});
@@ -0,0 +1,391 @@
+import { LibraryEntry, MediaType, MovieStatus } from "../types";
+
+/**
+ * A structured library filter. Every field is optional and all present
+ * fields must match. Ranges are inclusive; dates are local YYYY-MM-DD.
+ */
+export interface LibraryFilter {
+  text?: string; // Leftover keywords, matched against title and genre
+  status?: MovieStatus[];
+  mediaType?: MediaType;
+  ratingMin?: number;
+  ratingMax?: number;
+  yearMin?: number; // Release year
+  yearMax?: number;
+  countries?: string[]; // Any of
+  genres?: string[]; // Any of
+  directors?: string[]; // Any of
+  watchedAfter?: string; // Some viewing on or after this day
+  watchedBefore?: string; // Some viewing on or before this day
+}
+
+// Filter fields grouped the way they are shown and edited, one chip each
+export type FilterChipKey = 'text' | 'status' | 'mediaType' | 'rating' | 'year' | 'countries' | 'genres' | 'directors' | 'watched';
+
+export const FILTER_CHIP_KEYS: FilterChipKey[] = ['status', 'mediaType', 'rating', 'year', 'countries', 'genres', 'directors', 'watched', 'text'];
+
+export const FILTER_CHIP_LABELS: Record<FilterChipKey, string> = {
+  text: '关键词',
+  status: '状态',
+  mediaType: '影视',
+  rating: '评分',
+  year: '年份',
+  countries: '地区',
+  genres: '类型',
+  directors: '导演',
+  watched: '观看时间',
+};
+
+// Names seen in the library, so the parser can recognise them in free text
+export interface FilterVocabulary {
+  countries: string[];
+  genres: string[];
+  directors: string[];
+}
+
+const CHIP_FIELDS: Record<FilterChipKey, (keyof LibraryFilter)[]> = {
+  text: ['text'],
+  status: ['status'],
+  mediaType: ['mediaType'],
+  rating: ['ratingMin', 'ratingMax'],
+  year: ['yearMin', 'yearMax'],
+  countries: ['countries'],
+  genres: ['genres'],
+  directors: ['directors'],
+  watched: ['watchedAfter', 'watchedBefore'],
+};
+
+const STATUS_VALUES = Object.values(MovieStatus) as MovieStatus[];
+const MEDIA_TYPE_LABELS: Record<MediaType, string> = { movie: '电影', tv: '电视剧' };
+
+export const splitNames = (text: string | undefined): string[] => (text || '')
+  .split(/[,，/、;；]+/)
+  .map(part => part.trim())
+  .filter(Boolean);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+export const toDateString = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const startOfDay = (day: string) => new Date(`${day}T00:00:00`).getTime();
+const endOfDay = (day: string) => new Date(`${day}T23:59:59.999`).getTime();
+
+export const isEmptyFilter = (filter: LibraryFilter): boolean =>
+  Object.values(filter).every(value => value === undefined || (Array.isArray(value) && value.length === 0) || value === '');
+
+/** Drops the fields behind one chip. */
+export const removeFilterChip = (filter: LibraryFilter, key: FilterChipKey): LibraryFilter => {
+  const next = { ...filter };
+  CHIP_FIELDS[key].forEach(field => { delete next[field]; });
+  return next;
+};
+
+/** Chips that have a value in this filter, in display order. */
+export const activeChips = (filter: LibraryFilter): FilterChipKey[] =>
+  FILTER_CHIP_KEYS.filter(key => CHIP_FIELDS[key].some(field => {
+    const value = filter[field];
+    return value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0);
+  }));
+
+const formatRange = (min: number | string | undefined, max: number | string | undefined, unit = '') => {
+  if (min !== undefined && max !== undefined) return min === max ? `${min}${unit}` : `${min}${unit} ~ ${max}${unit}`;
+  if (min !== undefined) return `≥ ${min}${unit}`;
+  return `≤ ${max}${unit}`;
+};
+
+/** The editable text of one chip; `parseChipValue` reads it back. */
+export const formatChipValue = (filter: LibraryFilter, key: FilterChipKey): string => {
+  switch (key) {
+    case 'text': return filter.text || '';
+    case 'status': return (filter.status || []).join('、');
+    case 'mediaType': return filter.mediaType ? MEDIA_TYPE_LABELS[filter.mediaType] : '';
+    case 'rating': return formatRange(filter.ratingMin, filter.ratingMax, ' 星');
+    case 'year': return formatRange(filter.yearMin, filter.yearMax);
+    case 'countries': return (filter.countries || []).join('、');
+    case 'genres': return (filter.genres || []).join('、');
+    case 'directors': return (filter.directors || []).join('、');
+    case 'watched': return formatRange(filter.watchedAfter, filter.watchedBefore);
+  }
+};
+
+// "4", "≥4", "4 ~ 5", "~ 2", "2023-01-01 ~ 2023-06-30"
+const parseRange = <T>(text: string, parse: (part: string) => T | null): { min?: T, max?: T } | null => {
+  const clean = text.replace(/星|分|年/g, '').trim();
+  const single = (part: string) => (part.trim() ? parse(part.trim()) : undefined);
+  let match = clean.match(/^(?:≥|>=|>)\s*(.+)$/);
+  if (match) {
+    const min = single(match[1]);
+    return min != null ? { min } : null;
+  }
+  match = clean.match(/^(?:≤|<=|<)\s*(.+)$/);
+  if (match) {
+    const max = single(match[1]);
+    return max != null ? { max } : null;
+  }
+  match = clean.match(/^(.*?)\s*(?:~|～|至|到|\s-\s)\s*(.*)$/);
+  if (match) {
+    const min = single(match[1]);
+    const max = single(match[2]);
+    if (min === null || max === null || (min === undefined && max === undefined)) return null;
+    return { ...(min !== undefined ? { min } : {}), ...(max !== undefined ? { max } : {}) };
+  }
+  const value = parse(clean);
+  return value === null ? null : { min: value, max: value };
+};
+
+const parseRating = (text: string) => {
+  const value = Number(text);
+  return Number.isFinite(value) && value >= 0 && value <= 5 ? value : null;
+};
+const parseYear = (text: string) => (/^\d{4}$/.test(text) ? Number(text) : null);
+const parseDay = (text: string) => {
+  const match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  return match ? `${match[1]}-${pad(Number(match[2]))}-${pad(Number(match[3]))}` : null;
+};
+
+/**
+ * Reads an edited chip back into filter fields. Returns null when the text
+ * cannot be understood; an empty text removes the chip.
+ */
+export const parseChipValue = (key: FilterChipKey, text: string): Partial<LibraryFilter> | null => {
+  const value = text.trim();
+  // Fields of this chip set to undefined, so merging them clears the old values
+  const fields = Object.fromEntries(CHIP_FIELDS[key].map(field => [field, undefined])) as Partial<LibraryFilter>;
+  if (!value) return fields;
+
+  switch (key) {
+    case 'text': return { text: value };
+    case 'status': {
+      const status = splitNames(value).map(s => STATUS_VALUES.find(v => v === s || s.includes(v)));
+      return status.every(Boolean) ? { status: status as MovieStatus[] } : null;
+    }
+    case 'mediaType':
+      if (/电影|movie|片/i.test(value)) return { mediaType: 'movie' };
+      if (/剧|tv/i.test(value)) return { mediaType: 'tv' };
+      return null;
+    case 'rating': {
+      const range = parseRange(value.replace(/-/g, ' ~ '), parseRating);
+      return range && { ...fields, ratingMin: range.min, ratingMax: range.max };
+    }
+    case 'year': {
+      const range = parseRange(value.replace(/-/g, ' ~ '), parseYear);
+      return range && { ...fields, yearMin: range.min, yearMax: range.max };
+    }
+    case 'watched': {
+      const range = parseRange(value.replace(/\s-\s/g, ' ~ '), parseDay);
+      return range && { ...fields, watchedAfter: range.min, watchedBefore: range.max };
+    }
+    case 'countries': return { countries: splitNames(value) };
+    case 'genres': return { genres: splitNames(value) };
+    case 'directors': return { directors: splitNames(value) };
+  }
+};
+
+const includesAny = (text: string | undefined, wanted: string[] | undefined) =>
+  !wanted || wanted.length === 0 || wanted.some(w => (text || '').toLowerCase().includes(w.toLowerCase()));
+
+/**
+ * Whether an entry passes every condition of the filter. `textMatch` decides
+ * how keywords match (the library view uses its fuzzy matcher).
+ */
+export const matchesFilter = (
+  entry: LibraryEntry,
+  filter: LibraryFilter,
+  textMatch: (text: string | undefined, search: string) => boolean
+): boolean => {
+  const { title } = entry;
+  if (filter.text && !textMatch(title.title, filter.text) && !textMatch(title.genre, filter.text)) return false;
+  if (filter.status && filter.status.length > 0 && !filter.status.includes(title.status)) return false;
+  if (filter.mediaType && title.mediaType !== filter.mediaType) return false;
+  if (filter.ratingMin !== undefined && entry.rating < filter.ratingMin) return false;
+  if (filter.ratingMax !== undefined && entry.rating > filter.ratingMax) return false;
+
+  if (filter.yearMin !== undefined || filter.yearMax !== undefined) {
+    const year = parseInt(title.year);
+    if (!year) return false;
+    if (filter.yearMin !== undefined && year < filter.yearMin) return false;
+    if (filter.yearMax !== undefined && year > filter.yearMax) return false;
+  }
+
+  if (!includesAny(title.country, filter.countries)) return false;
+  if (!includesAny(title.genre, filter.genres)) return false;
+  if (!includesAny(title.director, filter.directors)) return false;
+
+  if (filter.watchedAfter || filter.watchedBefore) {
+    const from = filter.watchedAfter ? startOfDay(filter.watchedAfter) : -Infinity;
+    const to = filter.watchedBefore ? endOfDay(filter.watchedBefore) : Infinity;
+    if (!entry.logs.some(log => log.watchedAt >= from && log.watchedAt <= to)) return false;
+  }
+  return true;
+};
+
+/** Keeps only well-formed fields of a filter from an untrusted source (the model). */
+export const sanitizeFilter = (raw: unknown): LibraryFilter => {
+  const record = (raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {}) as Record<string, unknown>;
+  const filter: LibraryFilter = {};
+  const names = (value: unknown) => Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim())
+    : [];
+  const number = (value: unknown, min: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? value : undefined;
+  const day = (value: unknown) => (typeof value === 'string' ? parseDay(value.trim()) ?? undefined : undefined);
+
+  if (typeof record.text === 'string' && record.text.trim()) filter.text = record.text.trim();
+  const status = names(record.status).filter((s): s is MovieStatus => STATUS_VALUES.includes(s as MovieStatus));
+  if (status.length > 0) filter.status = status;
+  if (record.mediaType === 'movie' || record.mediaType === 'tv') filter.mediaType = record.mediaType;
+  filter.ratingMin = number(record.ratingMin, 0, 5);
+  filter.ratingMax = number(record.ratingMax, 0, 5);
+  filter.yearMin = number(record.yearMin, 1800, 3000);
+  filter.yearMax = number(record.yearMax, 1800, 3000);
+  (['countries', 'genres', 'directors'] as const).forEach(field => {
+    const list = names(record[field]);
+    if (list.length > 0) filter[field] = list;
+  });
+  filter.watchedAfter = day(record.watchedAfter);
+  filter.watchedBefore = day(record.watchedBefore);
+
+  (Object.keys(filter) as (keyof LibraryFilter)[]).forEach(field => {
+    if (filter[field] === undefined) delete filter[field];
+  });
+  return filter;
+};
+
+// --- Local parser ---
+
+const COUNTRY_ALIASES: [RegExp, string][] = [
+  [/韩国|韩剧|韩影|南韩/, '韩国'],
+  [/日本|日剧|日影|日漫/, '日本'],
+  [/美国|美剧|好莱坞/, '美国'],
+  [/英国|英剧/, '英国'],
+  [/国产|大陆|内地|国剧/, '中国大陆'],
+  [/香港|港片|港剧/, '中国香港'],
+  [/台湾|台剧/, '中国台湾'],
+  [/法国/, '法国'],
+  [/德国/, '德国'],
+  [/印度/, '印度'],
+  [/泰国|泰剧/, '泰国'],
+];
+
+const COMMON_GENRES = ['悬疑', '科幻', '爱情', '动画', '喜剧', '恐怖', '惊悚', '剧情', '犯罪', '动作', '纪录', '战争', '奇幻', '家庭', '历史', '音乐', '传记', '冒险', '武侠', '青春', '推理', '文艺'];
+
+// Words that carry no meaning once the rest of the sentence has been read
+const FILLER = /我|的|了|过|部|所有|全部|一些|哪些|有哪些|什么|给我|找|找出|显示|列出|和|还有|以及|并且|且|片子|作品|影片|片|看|[\s,，。.!！?？、]/g;
+
+// Leftovers made only of these are scraps of a phrase a rule already read, not keywords
+const UNIT_WORDS = /^(?:评分|评价|打分|分数|电影|电视剧|剧集|剧|看完|完|星|分|个|年|月|周|天|以上|以下|之前|之后|以前|以后|在)+$/;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const CHINESE_DIGITS: Record<string, number> = { 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5 };
+const toNumber = (text: string) => CHINESE_DIGITS[text] ?? Number(text);
+
+/**
+ * Reads a sentence like "高分的韩国悬疑片 2019年以后" with fixed rules.
+ * Used when the model is unavailable; whatever it does not recognise is
+ * kept as keywords so nothing the user typed is silently ignored.
+ */
+export const parseNaturalQueryLocal = (query: string, vocabulary: FilterVocabulary, now: Date = new Date()): LibraryFilter => {
+  let rest = query.trim();
+  const filter: LibraryFilter = {};
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = rest.match(pattern);
+    if (match) rest = rest.replace(match[0], ' ');
+    return match;
+  };
+  const thisYear = now.getFullYear();
+
+  // Viewing dates come first, so "2023年看的" is not read as a release year
+  let match: RegExpMatchArray | null;
+  if ((match = take(/(\d{4})\s*年\s*(?:看的|看过的|看过|看)/))) {
+    filter.watchedAfter = `${match[1]}-01-01`;
+    filter.watchedBefore = `${match[1]}-12-31`;
+  } else if ((match = take(/(今年|去年|前年)\s*(?:看的|看过的|看过|看)?/))) {
+    const year = thisYear - ({ 今年: 0, 去年: 1, 前年: 2 } as Record<string, number>)[match[1]];
+    filter.watchedAfter = `${year}-01-01`;
+    filter.watchedBefore = match[1] === '今年' ? toDateString(now) : `${year}-12-31`;
+  } else if ((match = take(/(这个月|本月|上个月)\s*(?:看的|看过的|看过|看)?/))) {
+    const first = new Date(thisYear, now.getMonth() - (match[1] === '上个月' ? 1 : 0), 1);
+    filter.watchedAfter = toDateString(first);
+    filter.watchedBefore = match[1] === '上个月' ? toDateString(new Date(thisYear, now.getMonth(), 0)) : toDateString(now);
+  } else if ((match = take(/(最近一周|(?:最近|近)\s*[一1]?\s*个?\s*月|这周|本周|最近|近期)\s*(?:看的|看过的|看过|看)?/))) {
+    const days = /周/.test(match[1]) ? 7 : 30;
+    filter.watchedAfter = toDateString(new Date(now.getTime() - days * 24 * 60 * 60 * 1000));
+    filter.watchedBefore = toDateString(now);
+  }
+
+  // Release years
+  if ((match = take(/(\d{4})\s*年?\s*(?:-|~|～|到|至)\s*(\d{4})\s*年?/))) {
+    filter.yearMin = Math.min(Number(match[1]), Number(match[2]));
+    filter.yearMax = Math.max(Number(match[1]), Number(match[2]));
+  } else if ((match = take(/(\d{4})\s*年?\s*(以后|之后|以来|后|起)/))) {
+    filter.yearMin = Number(match[1]);
+  } else if ((match = take(/(\d{4})\s*年?\s*(以前|之前|前)/))) {
+    filter.yearMax = Number(match[1]);
+  } else if ((match = take(/(\d{2})\s*年代/))) {
+    const decade = Number(match[1]);
+    filter.yearMin = (decade >= 30 ? 1900 : 2000) + decade;
+    filter.yearMax = filter.yearMin + 9;
+  } else if ((match = take(/(\d{4})\s*年?/))) {
+    filter.yearMin = filter.yearMax = Number(match[1]);
+  }
+
+  // Ratings, with any lead-in such as 评分 so it is not left behind as a keyword
+  if ((match = take(/(?:评分|评价|打分|分数)?\s*在?\s*([1-5一二两三四五])\s*(?:星|分)\s*(?:及)?(?:以上|或以上|起)/))) {
+    filter.ratingMin = toNumber(match[1]);
+  } else if ((match = take(/(?:评分|评价|打分|分数)?\s*在?\s*([1-5一二两三四五])\s*(?:星|分)\s*(?:及)?(?:以下|或以下)/))) {
+    filter.ratingMax = toNumber(match[1]);
+  } else if (take(/满分|五星|5星/)) {
+    filter.ratingMin = 5;
+  } else if (take(/高分|好评|评分高|喜欢/)) {
+    filter.ratingMin = 4;
+  } else if (take(/低分|差评|评分低|烂/)) {
+    filter.ratingMin = 0.5;
+    filter.ratingMax = 2;
+  }
+
+  // Status
+  const status: MovieStatus[] = [];
+  if (take(/想看|待看|计划/)) status.push(MovieStatus.PLANNING);
+  if (take(/在看|正在看|在追|追剧/)) status.push(MovieStatus.WATCHING);
+  if (take(/弃坑|弃剧|没看完|弃/)) status.push(MovieStatus.DROPPED);
+  if (take(/已看|看完|看过/)) status.push(MovieStatus.WATCHED);
+  if (status.length > 0) filter.status = status;
+
+  // Countries: the library's own names, then common aliases (美剧 → 美国 and TV)
+  const countries = new Set<string>();
+  vocabulary.countries
+    .filter(c => c.length > 1)
+    .sort((a, b) => b.length - a.length)
+    .forEach(country => { if (take(new RegExp(escapeRegExp(country)))) countries.add(country); });
+  COUNTRY_ALIASES.forEach(([pattern, country]) => {
+    const found = rest.match(pattern);
+    if (!found) return;
+    if (/剧/.test(found[0])) filter.mediaType = 'tv';
+    rest = rest.replace(found[0], ' ');
+    countries.add(country);
+  });
+  if (countries.size > 0) filter.countries = Array.from(countries);
+
+  // Directors, then genres (longest names first so 科幻 wins over 科)
+  const directors = vocabulary.directors
+    .filter(d => d.length > 1)
+    .sort((a, b) => b.length - a.length)
+    .filter(director => take(new RegExp(`${escapeRegExp(director)}(?:导演|执导)?(?:的)?`)));
+  if (directors.length > 0) filter.directors = directors;
+
+  const genres = Array.from(new Set([...vocabulary.genres, ...COMMON_GENRES]))
+    .filter(g => g.length > 1)
+    .sort((a, b) => b.length - a.length)
+    .filter(genre => take(new RegExp(escapeRegExp(genre))));
+  if (genres.length > 0) filter.genres = genres;
+
+  // Media type, after genres so the 剧 of 喜剧 stays with its genre
+  if (!filter.mediaType) {
+    if (take(/电视剧|剧集|连续剧|网剧|剧/)) filter.mediaType = 'tv';
+    else if (take(/电影|影片|片(?!子)/)) filter.mediaType = 'movie';
+  }
+
+  const text = rest.replace(FILLER, ' ').split(/\s+/).filter(word => word && !UNIT_WORDS.test(word)).join(' ');
+  if (text) filter.text = text;
+  return filter;
+};
@@ -0,0 +1,418 @@
+import { Library, Title, WatchLog } from "../types";
+import { SCHEMA_VERSION, LibraryDocument, PosterData, QuarantinedRecord, migrateLibrary } from "./schema";
+import { STORES, openDatabase, requestToPromise, runTransaction } from "./db";
+import { EMPTY_HISTORY, HistoryState, historyPosterIds } from "./history";
+import { MetadataSearchResult, pickKey } from "./metadata";
+import { EnrichmentJob } from "./enrichment";
+import { SavedView, sanitizeViewState } from "./views";
+
+// Keys used by the localStorage-only builds. Read once, then removed.
+const LEGACY_STORAGE_KEY = 'cinelog_movies_v1';
+const LEGACY_QUARANTINE_KEY = 'cinelog_quarantine';
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const HISTORY_KEY = 'history';
+const TRASH_RETENTION_KEY = 'trashRetentionDays';
+const METADATA_PROVIDER_KEY = 'metadataProvider';
+const METADATA_PICKS_KEY = 'metadataPicks';
+const ENRICHMENT_JOB_KEY = 'enrichmentJob';
+const SAVED_VIEWS_KEY = 'savedViews';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+interface PosterRecord {
+  id: string;
+  blob: Blob;
+}
+
+export interface LoadResult {
+  library: Library;
+  quarantine: QuarantinedRecord[];
+  history: HistoryState;
+}
+
+// --- Poster helpers ---
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64] = dataUrl.split(',');
+  const mime = header.match(/data:([^;]+)/)?.[1] || 'image/jpeg';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const savePoster = async (blob: Blob): Promise<string> => {
+  const id = crypto.randomUUID();
+  await runTransaction([STORES.posters], 'readwrite', tx => {
+    tx.objectStore(STORES.posters).put({ id, blob } as PosterRecord);
+  });
+  return id;
+};
+
+export const getPoster = async (id: string): Promise<Blob | null> => {
+  const db = await openDatabase();
+  const record = await requestToPromise<PosterRecord | undefined>(
+    db.transaction(STORES.posters, 'readonly').objectStore(STORES.posters).get(id)
+  );
+  return record ? record.blob : null;
+};
+
+/** Writes posters that arrived inline (legacy data, JSON backups) as Blobs. */
+export const importPosters = async (posters: PosterData[]) => {
+  if (posters.length === 0) return;
+  await runTransaction([STORES.posters], 'readwrite', tx => {
+    const store = tx.objectStore(STORES.posters);
+    posters.forEach(p => store.put({ id: p.id, blob: dataUrlToBlob(p.dataUrl) } as PosterRecord));
+  });
+};
+
+/** Builds a self-contained backup document with posters inlined as data URLs. */
+export const exportDocument = async (library: Library): Promise<LibraryDocument> => {
+  const posters: PosterData[] = [];
+  const ids = Array.from(new Set(library.titles.map(t => t.posterId).filter((id): id is string => !!id)));
+  for (const id of ids) {
+    const blob = await getPoster(id);
+    if (blob) posters.push({ id, dataUrl: await blobToDataUrl(blob) });
+  }
+  return { schemaVersion: SCHEMA_VERSION, titles: library.titles, logs: library.logs, posters };
+};
+
+// --- Quarantine ---
+
+export const clearQuarantine = async () => {
+  await runTransaction([STORES.quarantine], 'readwrite', tx => {
+    tx.objectStore(STORES.quarantine).clear();
+  });
+};
+
+// --- Metadata cache ---
+
+export interface MetadataCacheRecord {
+  key: string;
+  providerId: string;
+  kind: 'search' | 'details';
+  label: string; // What the user looked up, for the cache viewer
+  value: unknown;
+  cachedAt: number;
+}
+
+export const getCachedMetadata = async (key: string): Promise<MetadataCacheRecord | null> => {
+  const db = await openDatabase();
+  const record = await requestToPromise<MetadataCacheRecord | undefined>(
+    db.transaction(STORES.metadataCache, 'readonly').objectStore(STORES.metadataCache).get(key)
+  );
+  return record || null;
+};
+
+export const listCachedMetadata = async (): Promise<MetadataCacheRecord[]> => {
+  const db = await openDatabase();
+  return requestToPromise<MetadataCacheRecord[]>(
+    db.transaction(STORES.metadataCache, 'readonly').objectStore(STORES.metadataCache).getAll()
+  );
+};
+
+export const putCachedMetadata = async (record: MetadataCacheRecord) => {
+  await runTransaction([STORES.metadataCache], 'readwrite', tx => {
+    tx.objectStore(STORES.metadataCache).put(record);
+  });
+};
+
+/** Deletes the given cache entries, or all of them when no keys are passed. */
+export const deleteCachedMetadata = async (keys?: string[]) => {
+  await runTransaction([STORES.metadataCache], 'readwrite', tx => {
+    const store = tx.objectStore(STORES.metadataCache);
+    if (keys) keys.forEach(key => store.delete(key));
+    else store.clear();
+  });
+};
+
+// --- Settings ---
+
+/** Days a title stays in the trash before it is purged; 0 means never. */
+export const getTrashRetention = async (): Promise<number> => {
+  const db = await openDatabase();
+  const record = await requestToPromise<{ key: string, value: number } | undefined>(
+    db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(TRASH_RETENTION_KEY)
+  );
+  return typeof record?.value === 'number' ? record.value : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const setTrashRetention = async (days: number) => {
+  await runTransaction([STORES.meta], 'readwrite', tx => {
+    tx.objectStore(STORES.meta).put({ key: TRASH_RETENTION_KEY, value: days });
+  });
+};
+
+/** Id of the metadata provider tried first when filling in a title, if the user picked one. */
+export const getMetadataProviderId = async (): Promise<string | null> => {
+  const db = await openDatabase();
+  const record = await requestToPromise<{ key: string, value: string } | undefined>(
+    db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(METADATA_PROVIDER_KEY)
+  );
+  return typeof record?.value === 'string' ? record.value : null;
+};
+
+export const setMetadataProviderId = async (id: string) => {
+  await runTransaction([STORES.meta], 'readwrite', tx => {
+    tx.objectStore(STORES.meta).put({ key: METADATA_PROVIDER_KEY, value: id });
+  });
+};
+
+const readMetadataPicks = async (): Promise<Record<string, MetadataSearchResult>> => {
+  const db = await openDatabase();
+  const record = await requestToPromise<{ key: string, value: Record<string, MetadataSearchResult> } | undefined>(
+    db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(METADATA_PICKS_KEY)
+  );
+  return record?.value && typeof record.value === 'object' ? record.value : {};
+};
+
+/** The candidate the user picked the last time they looked this query up, if any. */
+export const getMetadataPick = async (query: string): Promise<MetadataSearchResult | null> =>
+  (await readMetadataPicks())[pickKey(query)] || null;
+
+/** Remembers (or with null, forgets) which candidate a query refers to. */
+export const setMetadataPick = async (query: string, result: MetadataSearchResult | null) => {
+  const picks = await readMetadataPicks();
+  if (result) picks[pickKey(query)] = result;
+  else delete picks[pickKey(query)];
+  await runTransaction([STORES.meta], 'readwrite', tx => {
+    tx.objectStore(STORES.meta).put({ key: METADATA_PICKS_KEY, value: picks });
+  });
+};
+
+/** The batch enrichment job left over from the last session, if any. */
+export const getEnrichmentJob = async (): Promise<EnrichmentJob | null> => {
+  const db = await openDatabase();
+  const record = await requestToPromise<{ key: string, value: EnrichmentJob } | undefined>(
+    db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(ENRICHMENT_JOB_KEY)
+  );
+  return record?.value && Array.isArray(record.value.queue) ? record.value : null;
+};
+
+export const setEnrichmentJob = async (job: EnrichmentJob | null) => {
+  await runTransaction([STORES.meta], 'readwrite', tx => {
+    const store = tx.objectStore(STORES.meta);
+    if (job) store.put({ key: ENRICHMENT_JOB_KEY, value: job });
+    else store.delete(ENRICHMENT_JOB_KEY);
+  });
+};
+
+/** The user's saved views, in their chosen order. */
+export const getSavedViews = async (): Promise<SavedView[]> => {
+  const db = await openDatabase();
+  const record = await requestToPromise<{ key: string, value: SavedView[] } | undefined>(
+    db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(SAVED_VIEWS_KEY)
+  );
+  return Array.isArray(record?.value)
+    ? record.value.map(view => ({ id: view.id, name: view.name, state: sanitizeViewState(view.state) }))
+    : [];
+};
+
+export const setSavedViews = async (views: SavedView[]) => {
+  await runTransaction([STORES.meta], 'readwrite', tx => {
+    tx.objectStore(STORES.meta).put({ key: SAVED_VIEWS_KEY, value: views.filter(view => !view.builtIn) });
+  });
+};
+
+// --- Library ---
+
+/**
+ * Replaces the whole library with a migrated document. Used for the one-time
+ * import from localStorage and when the stored schema is out of date.
+ */
+const writeMigratedDocument = async (doc: LibraryDocument, quarantined: QuarantinedRecord[]) => {
+  const stores = [STORES.movies, STORES.titles, STORES.logs, STORES.posters, STORES.quarantine, STORES.meta];
+  await runTransaction(stores, 'readwrite', tx => {
+    tx.objectStore(STORES.movies).clear();
+
+    const titleStore = tx.objectStore(STORES.titles);
+    titleStore.clear();
+    doc.titles.forEach(t => titleStore.put(t));
+
+    const logStore = tx.objectStore(STORES.logs);
+    logStore.clear();
+    doc.logs.forEach(l => logStore.put(l));
+
+    const posterStore = tx.objectStore(STORES.posters);
+    (doc.posters || []).forEach(p => posterStore.put({ id: p.id, blob: dataUrlToBlob(p.dataUrl) } as PosterRecord));
+
+    const quarantineStore = tx.objectStore(STORES.quarantine);
+    quarantined.forEach(q => quarantineStore.put(q));
+
+    tx.objectStore(STORES.meta).put({ key: SCHEMA_VERSION_KEY, value: SCHEMA_VERSION });
+  });
+};
+
+const migrateFromLocalStorage = async () => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  let legacyQuarantine: QuarantinedRecord[] = [];
+  try {
+    legacyQuarantine = JSON.parse(localStorage.getItem(LEGACY_QUARANTINE_KEY) || '[]');
+  } catch (e) {
+    console.error("Failed to read legacy quarantine", e);
+  }
+
+  let doc: LibraryDocument = { schemaVersion: SCHEMA_VERSION, titles: [], logs: [], posters: [] };
+  let quarantined: QuarantinedRecord[] = [...legacyQuarantine];
+
+  if (saved) {
+    try {
+      const result = migrateLibrary(JSON.parse(saved));
+      doc = result.document;
+      quarantined = [...quarantined, ...result.quarantined];
+    } catch (e) {
+      console.error("Failed to migrate legacy movies", e);
+      quarantined.push({
+        id: crypto.randomUUID(),
+        record: saved,
+        reason: e instanceof Error ? e.message : '无法解析存储的数据',
+        fromVersion: 0,
+        quarantinedAt: Date.now(),
+      });
+    }
+  }
+
+  await writeMigratedDocument(doc, quarantined);
+
+  // Only drop the old keys once everything is safely committed
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_QUARANTINE_KEY);
+};
+
+const readAll = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise<T[]>(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+};
+
+/**
+ * Removes poster blobs no record points at (e.g. uploads from a cancelled form).
+ * Posters that undo/redo could restore are kept.
+ */
+const prunePosters = async (titles: Title[], history: HistoryState) => {
+  const referenced = new Set([...titles.map(t => t.posterId).filter(Boolean), ...historyPosterIds(history)]);
+  const db = await openDatabase();
+  const keys = await requestToPromise(db.transaction(STORES.posters, 'readonly').objectStore(STORES.posters).getAllKeys());
+  const orphans = keys.filter(k => !referenced.has(String(k)));
+  if (orphans.length === 0) return;
+  await runTransaction([STORES.posters], 'readwrite', tx => {
+    const store = tx.objectStore(STORES.posters);
+    orphans.forEach(k => store.delete(k));
+  });
+};
+
+// History is a convenience; an unreadable one is dropped rather than failing the load
+const readHistory = async (): Promise<HistoryState> => {
+  const db = await openDatabase();
+  const record = await requestToPromise<{ key: string, value: HistoryState } | undefined>(
+    db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(HISTORY_KEY)
+  );
+  const value = record?.value;
+  return value && Array.isArray(value.past) && Array.isArray(value.future) ? value : EMPTY_HISTORY;
+};
+
+const load = async (): Promise<LoadResult> => {
+  const db = await openDatabase();
+  const meta = await requestToPromise<{ key: string, value: number } | undefined>(
+    db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(SCHEMA_VERSION_KEY)
+  );
+
+  if (!meta) {
+    await migrateFromLocalStorage();
+  } else if (meta.value < SCHEMA_VERSION) {
+    // Hand the migrations the same document shape that version was exported in
+    const stored = meta.value < 4
+      ? { schemaVersion: meta.value, movies: await readAll(STORES.movies) }
+      : { schemaVersion: meta.value, titles: await readAll(STORES.titles), logs: await readAll(STORES.logs) };
+    const result = migrateLibrary(stored);
+    const existing = await readAll<QuarantinedRecord>(STORES.quarantine);
+    await writeMigratedDocument(result.document, [...existing, ...result.quarantined]);
+    // Old history entries hold records in the previous shape and can't be replayed
+    await runTransaction([STORES.meta], 'readwrite', tx => {
+      tx.objectStore(STORES.meta).delete(HISTORY_KEY);
+    });
+  }
+
+  const titles = await readAll<Title>(STORES.titles);
+  const logs = await readAll<WatchLog>(STORES.logs);
+  const history = await readHistory().catch(e => {
+    console.error("Failed to read history", e);
+    return EMPTY_HISTORY;
+  });
+  await prunePosters(titles, history).catch(e => console.error("Failed to prune posters", e));
+
+  return {
+    library: { titles: titles.sort((a, b) => b.addedAt - a.addedAt), logs },
+    quarantine: await readAll<QuarantinedRecord>(STORES.quarantine),
+    history,
+  };
+};
+
+let loadPromise: Promise<LoadResult> | null = null;
+
+/**
+ * Opens the library, running the one-time localStorage import and any schema
+ * migrations first. Memoized so concurrent callers share one load.
+ */
+export const loadLibrary = (): Promise<LoadResult> => {
+  if (!loadPromise) {
+    loadPromise = load().catch(e => {
+      loadPromise = null;
+      throw e;
+    });
+  }
+  return loadPromise;
+};
+
+const diffById = <T extends { id: string }>(prev: T[], next: T[]) => {
+  const prevById = new Map(prev.map(r => [r.id, r]));
+  const nextIds = new Set(next.map(r => r.id));
+  return {
+    changed: next.filter(r => prevById.get(r.id) !== r),
+    removed: prev.filter(r => !nextIds.has(r.id)),
+  };
+};
+
+/**
+ * Persists the difference between two snapshots of the library, together with
+ * the undo history, in a single transaction. Records are compared by
+ * reference, so unchanged objects are never rewritten.
+ */
+export const saveChanges = async (prev: Library, next: Library, history: HistoryState = EMPTY_HISTORY) => {
+  const titleDiff = diffById(prev.titles, next.titles);
+  const logDiff = diffById(prev.logs, next.logs);
+
+  // Posters are shared between titles (and undo steps), so only drop ones nothing references anymore
+  const stillReferenced = new Set([...next.titles.map(t => t.posterId).filter(Boolean), ...historyPosterIds(history)]);
+  const orphanedPosters = prev.titles
+    .map(t => t.posterId)
+    .filter((id): id is string => !!id && !stillReferenced.has(id));
+
+  const hasChanges = titleDiff.changed.length + titleDiff.removed.length
+    + logDiff.changed.length + logDiff.removed.length + orphanedPosters.length > 0;
+  if (!hasChanges) return;
+
+  await runTransaction([STORES.titles, STORES.logs, STORES.posters, STORES.meta], 'readwrite', tx => {
+    const titleStore = tx.objectStore(STORES.titles);
+    titleDiff.changed.forEach(t => titleStore.put(t));
+    titleDiff.removed.forEach(t => titleStore.delete(t.id));
+
+    const logStore = tx.objectStore(STORES.logs);
+    logDiff.changed.forEach(l => logStore.put(l));
+    logDiff.removed.forEach(l => logStore.delete(l.id));
+
+    const posterStore = tx.objectStore(STORES.posters);
+    new Set(orphanedPosters).forEach(id => posterStore.delete(id));
+
+    tx.objectStore(STORES.meta).put({ key: HISTORY_KEY, value: history });
+  });
+};
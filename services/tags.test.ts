@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { formatCollections, formatTags, normalizeCollections, normalizeTags, parseCollections, parseTags } from "./tags";
+
+describe('normalizeTags', () => {
+  it('trims, drops empties and repeats ignoring case', () => {
+    expect(normalizeTags([' 影院 ', '', 'Criterion', 'criterion', 3])).toEqual(['影院', 'Criterion']);
+  });
+
+  it('strips the CSV separators so a tag survives a round trip', () => {
+    const tags = normalizeTags(['影院;IMAX', '和女朋友看；周末', '；']);
+    expect(tags).toEqual(['影院IMAX', '和女朋友看周末']);
+    expect(parseTags(formatTags(tags))).toEqual(tags);
+  });
+});
+
+describe('parseTags', () => {
+  it('splits on ASCII and full-width semicolons', () => {
+    expect(parseTags('影院; 和女朋友看；Criterion;;')).toEqual(['影院', '和女朋友看', 'Criterion']);
+  });
+});
+
+describe('collections', () => {
+  it('strip the separators from names as well', () => {
+    const collections = normalizeCollections([{ name: '漫威;宇宙', position: 3 }, { name: '；', position: 1 }]);
+    expect(collections).toEqual([{ name: '漫威宇宙', position: 3 }]);
+    expect(parseCollections(formatCollections(collections))).toEqual(collections);
+  });
+});
@@ -0,0 +1,87 @@
+import { CollectionMembership, LibraryEntry, Title } from "../types";
+
+// User tags and collections. Both live on the title, so they travel with it
+// through undo, the trash, backups and imports like any other field.
+
+export const MAX_TAG_LENGTH = 30;
+
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+// The separators of the CSV text form below; a name containing one would split in two on the way back
+const SEPARATORS = /[;；]/g;
+
+/** Trimmed, non-empty and without repeats (ignoring case), in the order given. */
+export const normalizeTags = (raw: unknown): string[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  return raw
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(tag => tag.replace(SEPARATORS, '').trim().slice(0, MAX_TAG_LENGTH))
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+/** Valid memberships only, one per collection. */
+export const normalizeCollections = (raw: unknown): CollectionMembership[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  return raw
+    .filter(c => c && typeof c === 'object' && typeof c.name === 'string' && c.name.replace(SEPARATORS, '').trim())
+    .map(c => ({ name: String(c.name).replace(SEPARATORS, '').trim(), position: Math.max(1, Math.round(Number(c.position)) || 1) }))
+    .filter(c => {
+      if (seen.has(c.name)) return false;
+      seen.add(c.name);
+      return true;
+    });
+};
+
+const countNames = (names: string[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  names.forEach(name => counts.set(name, (counts.get(name) || 0) + 1));
+  return Array.from(counts, ([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name, 'zh-CN'));
+};
+
+/** Every tag in use with how many titles carry it, most used first. */
+export const tagCounts = (titles: Title[]): TagCount[] => countNames(titles.flatMap(t => t.tags || []));
+
+/** Every collection with its number of titles, largest first. */
+export const collectionCounts = (titles: Title[]): TagCount[] =>
+  countNames(titles.flatMap(t => (t.collections || []).map(c => c.name)));
+
+export const positionIn = (title: Title, collection: string): number | undefined =>
+  title.collections?.find(c => c.name === collection)?.position;
+
+/** The position after the last title already in a collection. */
+export const nextPosition = (titles: Title[], collection: string, excludeTitleId?: string): number =>
+  titles.reduce((max, t) => (t.id === excludeTitleId ? max : Math.max(max, positionIn(t, collection) ?? 0)), 0) + 1;
+
+/** A collection's entries in viewing order; equal positions fall back to release year. */
+export const sortByPosition = (entries: LibraryEntry[], collection: string): LibraryEntry[] =>
+  [...entries].sort((a, b) =>
+    (positionIn(a.title, collection) ?? Infinity) - (positionIn(b.title, collection) ?? Infinity)
+    || (parseInt(a.title.year) || 0) - (parseInt(b.title.year) || 0));
+
+// --- Text form, for CSV ---
+
+// Tags are separated by semicolons: "影院; 和女朋友看"
+export const formatTags = (tags: string[]) => tags.join('; ');
+export const parseTags = (value: string) => normalizeTags(value.split(/[;；]/));
+
+// Collections are "名称#位置" separated by semicolons: "漫威宇宙#3; 复仇者联盟#1"
+export const formatCollections = (collections: CollectionMembership[]) =>
+  collections.map(c => `${c.name}#${c.position}`).join('; ');
+
+export const parseCollections = (value: string): CollectionMembership[] => normalizeCollections(
+  value.split(/[;；]/).map(part => {
+    const hash = part.lastIndexOf('#');
+    return hash === -1 ? { name: part, position: 1 } : { name: part.slice(0, hash), position: part.slice(hash + 1) };
+  })
+);
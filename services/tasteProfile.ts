@@ -0,0 +1,168 @@
+import { EntryDraft, LibraryEntry, MediaType, MovieStatus, Title, TitleMetadata } from "../types";
+import { DEFAULT_POSTER_COLOR } from "./enrichment";
+
+// A genre, country or director and how the user tends to rate it
+export interface TasteTrait {
+  name: string;
+  count: number; // Rated titles with this trait
+  averageRating: number;
+  score: number; // Above zero when the user likes it more than their average
+}
+
+export interface TasteTitle {
+  title: string;
+  year: string;
+  rating: number;
+}
+
+export interface TasteProfile {
+  rated: number;
+  averageRating: number;
+  genres: TasteTrait[];
+  countries: TasteTrait[];
+  directors: TasteTrait[];
+  mediaTypes: Record<MediaType, number>; // Rated titles of each type
+  favorites: TasteTitle[]; // Highest rated first
+  disliked: TasteTitle[]; // Rated 2 stars or less
+}
+
+export interface Recommendation {
+  metadata: TitleMetadata;
+  reason: string; // Why it fits, in the user's terms
+  source: 'ai' | 'local';
+}
+
+// Sent to the server; excludes are the titles already in the library
+export interface RecommendationRequest {
+  profile: TasteProfile;
+  exclude: string[];
+  count: number;
+}
+
+export const MAX_TRAITS = 8;
+export const MAX_TASTE_TITLES = 10;
+export const MAX_EXCLUDED_TITLES = 300;
+export const DEFAULT_RECOMMENDATION_COUNT = 6;
+// Each rated title nudges a trait up a little, so frequent interests count even at average ratings
+const FREQUENCY_WEIGHT = 0.25;
+const DISLIKED_MAX_RATING = 2;
+
+const splitTraits = (text: string | undefined) => (text || '')
+  .split(/[,，/、;；]+/)
+  .map(part => part.trim())
+  .filter(Boolean);
+
+const rankTraits = (entries: LibraryEntry[], traitsOf: (entry: LibraryEntry) => string[], average: number): TasteTrait[] => {
+  const totals = new Map<string, { count: number, sum: number }>();
+  entries.forEach(entry => {
+    new Set(traitsOf(entry)).forEach(name => {
+      const total = totals.get(name) || { count: 0, sum: 0 };
+      totals.set(name, { count: total.count + 1, sum: total.sum + entry.rating });
+    });
+  });
+  return Array.from(totals, ([name, { count, sum }]) => ({
+    name,
+    count,
+    averageRating: Math.round((sum / count) * 10) / 10,
+    score: Math.round((sum - average * count + FREQUENCY_WEIGHT * count) * 100) / 100,
+  }))
+    .sort((a, b) => b.score - a.score || b.count - a.count)
+    .slice(0, MAX_TRAITS);
+};
+
+const toTasteTitle = (entry: LibraryEntry): TasteTitle => ({ title: entry.title.title, year: entry.title.year, rating: entry.rating });
+
+/** What the user's ratings say about their taste. Only rated titles count. */
+export const buildTasteProfile = (entries: LibraryEntry[]): TasteProfile => {
+  const rated = entries.filter(e => e.rating > 0);
+  const averageRating = rated.length > 0 ? rated.reduce((sum, e) => sum + e.rating, 0) / rated.length : 0;
+  const byRating = [...rated].sort((a, b) => b.rating - a.rating || (b.lastWatchedAt ?? 0) - (a.lastWatchedAt ?? 0));
+
+  return {
+    rated: rated.length,
+    averageRating: Math.round(averageRating * 10) / 10,
+    genres: rankTraits(rated, e => splitTraits(e.title.genre), averageRating),
+    countries: rankTraits(rated, e => splitTraits(e.title.country), averageRating),
+    directors: rankTraits(rated, e => splitTraits(e.title.director), averageRating),
+    mediaTypes: {
+      movie: rated.filter(e => e.title.mediaType === 'movie').length,
+      tv: rated.filter(e => e.title.mediaType === 'tv').length,
+    },
+    favorites: byRating.slice(0, MAX_TASTE_TITLES).map(toTasteTitle),
+    disliked: byRating.filter(e => e.rating <= DISLIKED_MAX_RATING).reverse().slice(0, MAX_TASTE_TITLES).map(toTasteTitle),
+  };
+};
+
+const normalizeName = (text: string) => text.toLowerCase().replace(/[\s\-_：:·.,，。!！?？'"]+/g, '');
+
+/** Whether a suggestion is a work the library already has, by either title and a nearby year. */
+export const isInLibrary = (titles: Title[], metadata: TitleMetadata): boolean => {
+  const names = [metadata.title, metadata.originalTitle || ''].map(normalizeName).filter(Boolean);
+  const year = parseInt(metadata.year);
+  return titles.some(t => {
+    if (!names.includes(normalizeName(t.title))) return false;
+    const ownYear = parseInt(t.year);
+    return !year || !ownYear || Math.abs(year - ownYear) <= 1;
+  });
+};
+
+/**
+ * Suggestions without the model: scores records we already know about (the
+ * bundled fixtures and cached lookups) against the profile, and explains the
+ * match from the traits that contributed most.
+ */
+export const localRecommendations = (
+  profile: TasteProfile,
+  titles: Title[],
+  pool: TitleMetadata[],
+  count: number = DEFAULT_RECOMMENDATION_COUNT
+): Recommendation[] => {
+  const lookup = (traits: TasteTrait[]) => new Map(traits.map(t => [t.name, t]));
+  const genres = lookup(profile.genres);
+  const countries = lookup(profile.countries);
+  const directors = lookup(profile.directors);
+  const seen = new Set<string>();
+
+  return pool
+    .filter(metadata => {
+      const key = `${normalizeName(metadata.title)}:${metadata.year}`;
+      if (seen.has(key) || isInLibrary(titles, metadata)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(metadata => {
+      const matches = [
+        ...splitTraits(metadata.director).map(name => ({ trait: directors.get(name), reason: (t: TasteTrait) => `你看过 ${t.count} 部${t.name}的作品，平均 ${t.averageRating} 星`, weight: 2 })),
+        ...splitTraits(metadata.genre).map(name => ({ trait: genres.get(name), reason: (t: TasteTrait) => `你给「${t.name}」类作品的平均分是 ${t.averageRating} 星`, weight: 1 })),
+        ...splitTraits(metadata.country).map(name => ({ trait: countries.get(name), reason: (t: TasteTrait) => `你偏爱来自${t.name}的作品`, weight: 0.5 })),
+      ]
+        .filter((m): m is { trait: TasteTrait, reason: (t: TasteTrait) => string, weight: number } => !!m.trait && m.trait.score > 0)
+        .map(m => ({ score: m.trait.score * m.weight, text: m.reason(m.trait) }))
+        .sort((a, b) => b.score - a.score);
+      return { metadata, matches, score: matches.reduce((sum, m) => sum + m.score, 0) };
+    })
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map(({ metadata, matches }) => ({
+      metadata,
+      reason: `${matches.slice(0, 2).map(m => m.text).join('；')}。`,
+      source: 'local' as const,
+    }));
+};
+
+/** A planned entry for a recommended work, with its metadata filled in. */
+export const recommendationDraft = (metadata: TitleMetadata): EntryDraft => ({
+  title: {
+    title: metadata.title,
+    year: metadata.year,
+    country: metadata.country,
+    genre: metadata.genre,
+    director: metadata.director,
+    status: MovieStatus.PLANNING,
+    posterColor: metadata.suggestedColorHex || DEFAULT_POSTER_COLOR,
+    mediaType: metadata.mediaType,
+    ...(metadata.mediaType === 'tv' && metadata.seasons ? { seasons: metadata.seasons.map(s => ({ ...s })) } : {}),
+    ...(metadata.duration ? { duration: metadata.duration } : {}),
+  },
+});
@@ -0,0 +1,140 @@
+import { MediaType, SeasonMetadata, TitleMetadata } from "../types";
+import { MetadataProvider, MetadataSearchResult, fetchPosterBlob } from "./metadata";
+
+export interface TmdbConfig {
+  baseUrl?: string; // Where the TMDB routes of our API proxy live
+  isConfigured: () => boolean; // Whether the proxy has a TMDB key
+  imageBaseUrl?: string;
+  language?: string;
+}
+
+// The key stays on the server (server/tmdb.ts), which forwards these paths to TMDB
+const DEFAULT_BASE_URL = '/api/tmdb';
+const DEFAULT_IMAGE_BASE_URL = 'https://image.tmdb.org/t/p/w500';
+
+// Only the fields we read from TMDB responses
+interface TmdbSearchItem {
+  id: number;
+  media_type?: string;
+  title?: string;
+  name?: string;
+  original_title?: string;
+  original_name?: string;
+  release_date?: string;
+  first_air_date?: string;
+  overview?: string;
+  poster_path?: string | null;
+}
+
+interface TmdbDetails extends TmdbSearchItem {
+  genres?: { name: string }[];
+  production_countries?: { iso_3166_1: string, name: string }[];
+  origin_country?: string[];
+  runtime?: number;
+  episode_run_time?: number[];
+  created_by?: { name: string }[];
+  credits?: { crew?: { job: string, name: string }[] };
+  seasons?: { season_number: number, episode_count: number }[];
+}
+
+const regionNames = (() => {
+  try {
+    return new Intl.DisplayNames(['zh-CN'], { type: 'region' });
+  } catch {
+    return null;
+  }
+})();
+
+const countryName = (code: string, fallback?: string) => regionNames?.of(code) || fallback || code;
+
+/**
+ * Metadata from The Movie Database, or any server speaking the same v3 REST
+ * API, reached through our proxy. Search uses /search/multi, so movies and TV
+ * come back together.
+ */
+export const createTmdbProvider = (config: TmdbConfig): MetadataProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+  const imageBaseUrl = (config.imageBaseUrl || DEFAULT_IMAGE_BASE_URL).replace(/\/$/, '');
+  const language = config.language || 'zh-CN';
+  const detailsCache = new Map<string, Promise<TmdbDetails>>();
+
+  const request = async <T>(path: string, params: Record<string, string> = {}): Promise<T> => {
+    const search = new URLSearchParams({ language, ...params });
+    const response = await fetch(`${baseUrl}${path}?${search}`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || `TMDB 请求失败 (${response.status})`);
+    }
+    return response.json() as Promise<T>;
+  };
+
+  const details = (result: MetadataSearchResult) => {
+    const key = `${result.mediaType}/${result.externalId}`;
+    if (!detailsCache.has(key)) {
+      const path = result.mediaType === 'tv' ? `/tv/${result.externalId}` : `/movie/${result.externalId}`;
+      const pending = request<TmdbDetails>(path, { append_to_response: 'credits' });
+      pending.catch(() => detailsCache.delete(key)); // Retry after a failure
+      detailsCache.set(key, pending);
+    }
+    return detailsCache.get(key)!;
+  };
+
+  const toResult = (item: TmdbSearchItem, mediaType: MediaType): MetadataSearchResult => ({
+    providerId: 'tmdb',
+    externalId: String(item.id),
+    title: item.title || item.name || '',
+    originalTitle: item.original_title || item.original_name,
+    year: (item.release_date || item.first_air_date || '').slice(0, 4),
+    mediaType,
+    overview: item.overview,
+    posterUrl: item.poster_path ? `${imageBaseUrl}${item.poster_path}` : undefined,
+  });
+
+  const seasonsOf = (data: TmdbDetails): SeasonMetadata[] => {
+    const runtime = data.episode_run_time?.[0];
+    return (data.seasons || [])
+      .filter(s => s.season_number > 0) // Season 0 holds specials
+      .map(s => ({ number: s.season_number, episodeCount: s.episode_count || 0, ...(runtime ? { episodeDuration: runtime } : {}) }));
+  };
+
+  return {
+    id: 'tmdb',
+    label: 'TMDB',
+    isConfigured: config.isConfigured,
+
+    search: async query => {
+      const data = await request<{ results?: TmdbSearchItem[] }>('/search/multi', { query, include_adult: 'false' });
+      return (data.results || [])
+        .filter(item => item.media_type === 'movie' || item.media_type === 'tv')
+        .map(item => toResult(item, item.media_type as MediaType));
+    },
+
+    getDetails: async (result): Promise<TitleMetadata> => {
+      const data = await details(result);
+      const countries = data.production_countries?.length
+        ? data.production_countries.map(c => countryName(c.iso_3166_1, c.name))
+        : (data.origin_country || []).map(code => countryName(code));
+      const directors = result.mediaType === 'tv'
+        ? (data.created_by || []).map(c => c.name)
+        : (data.credits?.crew || []).filter(c => c.job === 'Director').map(c => c.name);
+      const seasons = result.mediaType === 'tv' ? seasonsOf(data) : undefined;
+      const duration = result.mediaType === 'tv' ? data.episode_run_time?.[0] : data.runtime;
+      return {
+        title: data.title || data.name || result.title,
+        originalTitle: data.original_title || data.original_name,
+        year: (data.release_date || data.first_air_date || result.year).slice(0, 4),
+        country: countries.join(' / '),
+        genre: (data.genres || []).map(g => g.name).join(' / '),
+        director: directors.join(' / '),
+        summary: data.overview || '',
+        mediaType: result.mediaType,
+        ...(seasons ? { seasons } : {}),
+        ...(duration ? { duration } : {}),
+      };
+    },
+
+    getSeasons: async result => result.mediaType === 'tv' ? seasonsOf(await details(result)) : [],
+
+    getPoster: result => fetchPosterBlob(result.posterUrl),
+  };
+};
@@ -0,0 +1,69 @@
+import { DEFAULT_VIEW_STATE, ViewState, sanitizeViewState } from "./views";
+
+// Where the user is, as a query string: the toolbar, the page and the record
+// open in the form. Defaults are left out so links stay short, e.g.
+//   ?q=country:韩国 type:tv&date=year_2023&sort=rating-desc
+//   ?title=<id>
+
+export interface UrlState {
+  view: ViewState;
+  page: number;
+  titleId: string | null; // Record whose form is open
+}
+
+export const DEFAULT_URL_STATE: UrlState = { view: DEFAULT_VIEW_STATE, page: 1, titleId: null };
+
+export const urlStateToSearch = ({ view, page, titleId }: UrlState): string => {
+  const params = new URLSearchParams();
+  const defaults = DEFAULT_VIEW_STATE;
+  if (view.searchTerm) params.set('q', view.searchTerm);
+  if (view.searchMode !== defaults.searchMode) params.set('mode', view.searchMode);
+  if (view.searchMode === 'smart' && view.smartFilter) params.set('filter', JSON.stringify(view.smartFilter));
+  if (view.filterStatus !== defaults.filterStatus) params.set('status', view.filterStatus);
+  if (view.dateFilter !== defaults.dateFilter) params.set('date', view.dateFilter);
+  if (view.filterCountry !== defaults.filterCountry) params.set('country', view.filterCountry);
+  if (view.filterTag !== defaults.filterTag) params.set('tag', view.filterTag);
+  if (view.filterCollection !== defaults.filterCollection) params.set('collection', view.filterCollection);
+  if (view.sort.field !== defaults.sort.field || view.sort.direction !== defaults.sort.direction) {
+    params.set('sort', `${view.sort.field}-${view.sort.direction}`);
+  }
+  if (view.smartList) params.set('list', view.smartList);
+  if (page > 1) params.set('page', String(page));
+  if (titleId) params.set('title', titleId);
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+/** Reads a query string back. Anything missing or invalid falls back to the default. */
+export const parseUrlState = (search: string): UrlState => {
+  const params = new URLSearchParams(search);
+  const [field, direction] = (params.get('sort') || '').split('-');
+  let smartFilter: unknown = null;
+  try {
+    smartFilter = JSON.parse(params.get('filter') || 'null');
+  } catch {
+    // A mangled filter is dropped rather than failing the whole link
+  }
+  const page = parseInt(params.get('page') || '');
+
+  return {
+    view: sanitizeViewState({
+      searchTerm: params.get('q') ?? undefined,
+      searchMode: params.get('mode') ?? undefined,
+      smartFilter,
+      filterStatus: params.get('status') ?? undefined,
+      dateFilter: params.get('date') ?? undefined,
+      filterCountry: params.get('country') ?? undefined,
+      filterTag: params.get('tag') ?? undefined,
+      filterCollection: params.get('collection') ?? undefined,
+      sort: { field, direction },
+      smartList: params.get('list'),
+    }),
+    page: page > 0 ? page : 1,
+    titleId: params.get('title') || null,
+  };
+};
+
+/** Whether two URL states differ only in the search text, so one history entry can cover the typing. */
+export const onlySearchTermDiffers = (a: UrlState, b: UrlState): boolean =>
+  urlStateToSearch({ ...a, view: { ...a.view, searchTerm: '' } }) === urlStateToSearch({ ...b, view: { ...b.view, searchTerm: '' } });
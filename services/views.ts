@@ -0,0 +1,267 @@
+import { LibraryEntry, MovieStatus } from "../types";
+import { entryDate } from "./library";
+import { LibraryFilter, matchesFilter, sanitizeFilter } from "./smartFilter";
+import { QueryParseResult, evaluateQuery, looksLikeQuery, parseQuery } from "./queryLanguage";
+import { SearchIndex, fuzzyMatch, searchLibrary } from "./searchIndex";
+import { sortByPosition } from "./tags";
+
+// Everything the toolbar can narrow or order the library by. Saved views
+// store one of these; the built-in smart lists add a rule of their own.
+
+export interface SortConfig {
+  field: string; // 'addedAt' (latest activity), 'rating', 'year' or 'title'
+  direction: 'asc' | 'desc';
+}
+
+export interface ViewState {
+  searchTerm: string;
+  searchMode: 'keyword' | 'smart';
+  smartFilter: LibraryFilter | null; // What a smart search was read as
+  filterStatus: string; // A MovieStatus, ALL_STATUSES or TRASH_FILTER
+  dateFilter: string; // 'all', '7d', '30d', 'year_2024' or 'month_2024-05'
+  filterCountry: string; // 'all' or a country name
+  filterTag: string; // 'all' or a user tag
+  filterCollection: string; // 'all' or a collection, which is then listed in viewing order
+  sort: SortConfig;
+  smartList: string | null; // Id of a built-in smart list
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  state: ViewState;
+  builtIn?: boolean; // Smart lists ship with the app and can't be edited
+}
+
+export const ALL_STATUSES = '全部';
+// Pseudo status tab that shows the trash instead of the library
+export const TRASH_FILTER = '回收站';
+
+export const DEFAULT_SORT: SortConfig = { field: 'addedAt', direction: 'desc' };
+const SORT_FIELDS = ['addedAt', 'rating', 'year', 'title'];
+const DATE_FILTER = /^(all|7d|30d|year_\d{4}|month_\d{4}-\d{2})$/;
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  searchTerm: '',
+  searchMode: 'keyword',
+  smartFilter: null,
+  filterStatus: ALL_STATUSES,
+  dateFilter: 'all',
+  filterCountry: 'all',
+  filterTag: 'all',
+  filterCollection: 'all',
+  sort: DEFAULT_SORT,
+  smartList: null,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STALE_DAYS = 30;
+
+interface SmartList {
+  id: string;
+  name: string;
+  description: string;
+  sort: SortConfig;
+  matches: (entry: LibraryEntry, now: Date) => boolean;
+}
+
+export const SMART_LISTS: SmartList[] = [
+  {
+    id: 'stale-watching',
+    name: '在看但搁置',
+    description: `状态为在看，${STALE_DAYS} 天没有新的观看记录`,
+    sort: { field: 'addedAt', direction: 'asc' },
+    matches: (entry, now) =>
+      entry.title.status === MovieStatus.WATCHING && entryDate(entry) < now.getTime() - STALE_DAYS * DAY_MS,
+  },
+  {
+    id: 'unrated-watched',
+    name: '看过未评分',
+    description: '状态为已看，但还没有打分',
+    sort: DEFAULT_SORT,
+    matches: entry => entry.title.status === MovieStatus.WATCHED && entry.rating === 0,
+  },
+  {
+    id: 'five-stars-this-year',
+    name: '今年的五星',
+    description: '今年观看并打了五星',
+    sort: DEFAULT_SORT,
+    matches: (entry, now) => entry.logs.some(log => log.rating === 5 && new Date(log.watchedAt).getFullYear() === now.getFullYear()),
+  },
+];
+
+export const BUILT_IN_VIEWS: SavedView[] = SMART_LISTS.map(list => ({
+  id: `builtin:${list.id}`,
+  name: list.name,
+  state: { ...DEFAULT_VIEW_STATE, sort: list.sort, smartList: list.id },
+  builtIn: true,
+}));
+
+export const smartListDescription = (id: string | null) => SMART_LISTS.find(list => list.id === id)?.description;
+
+/** Fills in whatever a stored or imported view is missing, and drops what doesn't make sense. */
+export const sanitizeViewState = (raw: unknown): ViewState => {
+  const record = (raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {}) as Record<string, unknown>;
+  const text = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback);
+  const sort = (record.sort && typeof record.sort === 'object' ? record.sort : {}) as Record<string, unknown>;
+  const filterStatus = text(record.filterStatus, ALL_STATUSES);
+  const dateFilter = text(record.dateFilter, 'all');
+
+  return {
+    searchTerm: text(record.searchTerm, ''),
+    searchMode: record.searchMode === 'smart' ? 'smart' : 'keyword',
+    smartFilter: record.smartFilter ? sanitizeFilter(record.smartFilter) : null,
+    filterStatus: [ALL_STATUSES, TRASH_FILTER, ...Object.values(MovieStatus)].includes(filterStatus) ? filterStatus : ALL_STATUSES,
+    dateFilter: DATE_FILTER.test(dateFilter) ? dateFilter : 'all',
+    filterCountry: text(record.filterCountry, 'all') || 'all',
+    filterTag: text(record.filterTag, 'all') || 'all',
+    filterCollection: text(record.filterCollection, 'all') || 'all',
+    sort: {
+      field: typeof sort.field === 'string' && SORT_FIELDS.includes(sort.field) ? sort.field : DEFAULT_SORT.field,
+      direction: sort.direction === 'asc' ? 'asc' : 'desc',
+    },
+    smartList: SMART_LISTS.some(list => list.id === record.smartList) ? record.smartList as string : null,
+  };
+};
+
+/** A string that is equal for states showing the same thing. */
+export const viewStateKey = (state: ViewState): string => JSON.stringify(sanitizeViewState(state));
+
+/** Whether two states show the same thing, e.g. to tell which saved view is open. */
+export const sameViewState = (a: ViewState, b: ViewState): boolean => viewStateKey(a) === viewStateKey(b);
+
+// --- Matching ---
+
+// The search box read once per state, rather than once per entry
+export interface ViewSearch {
+  query: QueryParseResult | null; // Field-qualified keyword searches
+  scores: Map<string, number> | null; // Relevance of plain keyword matches
+}
+
+export const prepareSearch = (state: ViewState, index: SearchIndex): ViewSearch => {
+  if (state.searchMode !== 'keyword' || !state.searchTerm.trim()) return { query: null, scores: null };
+  const query = looksLikeQuery(state.searchTerm) ? parseQuery(state.searchTerm) : null;
+  // A query that doesn't parse falls back to a plain search
+  return { query, scores: query?.node ? null : searchLibrary(index, state.searchTerm) };
+};
+
+const matchesDate = (entry: LibraryEntry, dateFilter: string, now: Date): boolean => {
+  if (dateFilter === 'all') return true;
+  const date = new Date(entryDate(entry));
+  if (dateFilter === '7d') return date.getTime() >= now.getTime() - 7 * DAY_MS;
+  if (dateFilter === '30d') return date.getTime() >= now.getTime() - 30 * DAY_MS;
+  if (dateFilter.startsWith('year_')) return date.getFullYear() === parseInt(dateFilter.split('_')[1]);
+  if (dateFilter.startsWith('month_')) {
+    const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    return month === dateFilter.replace('month_', '');
+  }
+  return true;
+};
+
+/**
+ * Whether an entry belongs in a view. The caller picks the library or the
+ * trash according to `filterStatus`; here the trash tab matches any status.
+ */
+export const matchesView = (entry: LibraryEntry, state: ViewState, search: ViewSearch, now: Date): boolean => {
+  const movie = entry.title;
+  // 1. Search: a smart filter, a parsed query or a ranked keyword match
+  const matchesSearch = state.searchMode === 'smart'
+    ? !state.smartFilter || matchesFilter(entry, state.smartFilter, fuzzyMatch)
+    : search.query?.node
+      ? evaluateQuery(search.query.node, entry, fuzzyMatch)
+      : !search.scores || search.scores.has(movie.id);
+  if (!matchesSearch) return false;
+
+  // 2. Status
+  if (state.filterStatus !== ALL_STATUSES && state.filterStatus !== TRASH_FILTER && movie.status !== state.filterStatus) return false;
+
+  // 3. Date
+  if (!matchesDate(entry, state.dateFilter, now)) return false;
+
+  // 4. Country
+  if (state.filterCountry !== 'all' && !(movie.country && movie.country.includes(state.filterCountry))) return false;
+
+  // 5. Tag and collection
+  if (state.filterTag !== 'all' && !movie.tags?.includes(state.filterTag)) return false;
+  if (state.filterCollection !== 'all' && !movie.collections?.some(c => c.name === state.filterCollection)) return false;
+
+  // 6. Smart list rule
+  const smartList = SMART_LISTS.find(list => list.id === state.smartList);
+  return !smartList || smartList.matches(entry, now);
+};
+
+export const sortEntries = (
+  entries: LibraryEntry[],
+  { field, direction }: SortConfig,
+  scores: Map<string, number> | null,
+  collection = 'all'
+): LibraryEntry[] => {
+  // A single collection is shown in its own viewing order
+  if (collection !== 'all') return sortByPosition(entries, collection);
+  const data = [...entries];
+  data.sort((a, b) => {
+    if (field === 'year') {
+      // Handle numeric year strings if possible, defaulting to 0
+      return (parseInt(String(a.title.year)) || 0) - (parseInt(String(b.title.year)) || 0);
+    }
+    if (field === 'title') {
+      return String(a.title.title).localeCompare(String(b.title.title), 'zh-CN');
+    }
+    // 'addedAt' sorts by latest activity: the last viewing, or when it was added
+    const valA = field === 'rating' ? a.rating : entryDate(a);
+    const valB = field === 'rating' ? b.rating : entryDate(b);
+    return valA - valB;
+  });
+
+  const sorted = direction === 'asc' ? data : data.reverse();
+  // Keyword matches are ranked by relevance; the chosen order breaks ties
+  return scores
+    ? sorted.sort((a, b) => (scores.get(b.title.id) ?? 0) - (scores.get(a.title.id) ?? 0))
+    : sorted;
+};
+
+/** How many entries a view would show. */
+export const countView = (
+  state: ViewState,
+  library: { entries: LibraryEntry[], trashed: LibraryEntry[] },
+  index: SearchIndex,
+  now: Date
+): number => {
+  const search = prepareSearch(state, index);
+  const pool = state.filterStatus === TRASH_FILTER ? library.trashed : library.entries;
+  return pool.filter(entry => matchesView(entry, state, search, now)).length;
+};
+
+// --- Export / import ---
+
+interface ViewsFile {
+  app: 'cinelog-views';
+  version: 1;
+  views: { name: string, state: ViewState }[];
+}
+
+export const viewsToJSON = (views: SavedView[]): string => {
+  const file: ViewsFile = {
+    app: 'cinelog-views',
+    version: 1,
+    views: views.filter(v => !v.builtIn).map(({ name, state }) => ({ name, state })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/** Views from an exported file, with fresh ids. Throws if the file isn't one. */
+export const parseViewsJSON = (text: string): SavedView[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('文件不是有效的 JSON');
+  }
+  const file = data as Partial<ViewsFile> | null;
+  if (!file || file.app !== 'cinelog-views' || !Array.isArray(file.views)) {
+    throw new Error('文件不是导出的视图列表');
+  }
+  return file.views
+    .filter(v => v && typeof v.name === 'string' && v.name.trim())
+    .map(v => ({ id: crypto.randomUUID(), name: v.name.trim(), state: sanitizeViewState(v.state) }));
+};
@@ -8,28 +8,92 @@ export enum MovieStatus {
 
 export type MediaType = 'movie' | 'tv';
 
-export interface Movie {
+// One season of a TV title. Episode numbers in logs count from 1 within their season.
+export interface Season {
+  number: number; // 1-based
+  episodeCount: number; // 0 = unknown
+  episodeDuration?: number; // Minutes, falls back to Title.duration
+  status?: MovieStatus; // Explicit status (e.g. 弃坑); derived from progress when unset
+}
+
+// A title's place in a user-defined collection, e.g. a franchise in viewing order
+export interface CollectionMembership {
+  name: string;
+  position: number; // 1-based order within the collection
+}
+
+// A work in the library: the metadata that does not change between viewings.
+export interface Title {
   id: string;
   title: string;
   year: string;
-  country?: string; // New field
+  country?: string;
   genre: string;
   director?: string;
-  rating: number; // 0 to 5
   status: MovieStatus;
-  review: string;
   posterColor: string; // Used for gradient placeholder if no image
-  posterImage?: string; // Base64 encoded image
+  posterId?: string; // Reference to a Blob in the posters store
+  mediaType: MediaType;
+  seasons?: Season[]; // TV only, ordered by number
+  duration?: number; // Minutes (Total for movie, default per episode for TV)
+  tags?: string[]; // User tags, e.g. 影院, Criterion
+  collections?: CollectionMembership[];
   addedAt: number; // Timestamp
   lastUpdated: number; // Timestamp for real-time save feedback
-  
-  // New fields for TV Series support
-  mediaType: MediaType;
-  currentEpisode?: number;
-  totalEpisodes?: number;
-  
-  // New field for Duration
-  duration?: number; // Minutes (Total for movie, per episode for TV)
+  deletedAt?: number; // Set while the title is in the trash
+}
+
+// A single viewing session of a title.
+export interface WatchLog {
+  id: string;
+  titleId: string;
+  watchedAt: number; // Timestamp
+  season?: number; // TV only, defaults to 1
+  episodeFrom?: number; // TV only, inclusive
+  episodeTo?: number; // TV only, inclusive
+  rating: number; // 0 to 5, 0 = unrated
+  note: string;
+  location?: string; // e.g. 家里, 万达影城
+  platform?: string; // e.g. 影院, Netflix, 腾讯视频
+  lastUpdated: number;
+}
+
+export interface Library {
+  titles: Title[];
+  logs: WatchLog[];
+}
+
+export type TitleDraft = Omit<Title, 'id' | 'addedAt' | 'lastUpdated'>;
+
+// A log being created (no id) or edited (existing id)
+export type WatchLogDraft = Omit<WatchLog, 'id' | 'titleId' | 'lastUpdated'> & { id?: string };
+
+// What the form submits: a new or existing title, plus an optional viewing
+export interface EntryDraft {
+  titleId?: string;
+  title: TitleDraft;
+  log?: WatchLogDraft;
+  deletedLogIds?: string[];
+}
+
+// A title joined with its logs, derived for display. Never persisted.
+export interface LibraryEntry {
+  title: Title;
+  logs: WatchLog[]; // Newest first
+  rating: number; // Most recent non-zero rating
+  review: string; // Most recent non-empty note
+  lastWatchedAt?: number;
+  seasons: SeasonProgress[]; // TV only, empty for movies
+  watchedEpisodes: number; // Distinct episodes logged across all seasons (TV)
+  totalEpisodes: number; // Sum of known season lengths (TV)
+}
+
+export interface SeasonProgress {
+  number: number;
+  episodeCount: number;
+  watchedEpisodes: number; // Distinct episodes logged in this season
+  lastEpisode: number; // Highest episode logged in this season
+  status: MovieStatus;
 }
 
 export interface MovieStats {
@@ -39,8 +103,43 @@ export interface MovieStats {
   favoriteGenre: string;
 }
 
+// A season as reported by a metadata provider
+export interface SeasonMetadata {
+  number: number;
+  episodeCount: number;
+  episodeDuration?: number; // Minutes
+}
+
+// What was wrong with a field, from a fixed list (see services/geminiValidation.ts)
+export type MetadataIssueCode = 'missing' | 'invalid' | 'not-text' | 'not-array' | 'not-object';
+
+// A field of a provider's answer that failed validation and was left out
+export interface MetadataFieldIssue {
+  field: string; // e.g. "year", "seasons[1].episodeCount"
+  code: MetadataIssueCode;
+  value: unknown;
+  reason: string;
+}
+
+// Title details from any metadata provider (services/metadata.ts), in the form the form fills in
+export interface TitleMetadata {
+  title: string;
+  originalTitle?: string;
+  year: string;
+  country: string;
+  genre: string;
+  director: string;
+  summary: string;
+  mediaType: MediaType;
+  suggestedColorHex?: string;
+  seasons?: SeasonMetadata[]; // TV only
+  duration?: number; // Minutes (per episode for TV)
+  rejected?: MetadataFieldIssue[]; // Fields the provider returned but validation threw out
+}
+
 export interface GeminiMovieResponse {
   title: string;
+  originalTitle?: string;
   year: string;
   country: string; // New field
   genre: string;
@@ -49,5 +148,6 @@ export interface GeminiMovieResponse {
   suggestedColorHex: string;
   mediaType: MediaType;
   totalEpisodes?: number;
+  seasons?: { number: number, episodeCount: number, episodeDuration?: number }[];
   duration?: number; // Minutes
 }